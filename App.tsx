@@ -1,80 +1,550 @@
 
-import React, { useState, useCallback } from 'react';
-import { type Segment } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { type Segment, type DescriptionProviderConfig, type DescriptionStyle, type ExportFormat, type PipelineState, type VideoProbe, type VideoSource, type FilterPreset, type FrameFilter } from './types';
 import { VideoUploader } from './components/VideoUploader';
 import { SegmentEditor } from './components/SegmentEditor';
-import { PlusIcon } from './components/icons';
+import { ProviderSettings } from './components/ProviderSettings';
+import { PlusIcon, CogIcon, DownloadIcon, SparklesIcon } from './components/icons';
+import { createDescriptionProvider, loadProviderConfig, saveProviderConfig } from './services/providerConfig';
+import { loadFilterPresets, saveFilterPresets } from './services/filterPresets';
+import { createSegment, getSegmentLabel, getSelectedFrames } from './services/segments';
+import { addProjectVideo, createProject, deleteProject, listRecentProjects, loadProject, removeProjectVideo, saveProject, type ProjectMeta, type ProjectSummary, type StoredVideo } from './services/projectStore';
+import { exportProjectArchive, importProjectArchive, PROJECT_ARCHIVE_EXTENSION } from './services/projectArchive';
+import { suggestSegments } from './services/segmentSuggestions';
+import { createSegmentFromRecipe, readRecipeFromHash, RECIPE_TEMPLATES, type EditRecipe } from './services/editRecipe';
+import { cancelDescription, describeSegment, renderSegment } from './services/segmentPipeline';
+import { DEFAULT_RENDER_CONCURRENCY, RenderQueue, type RenderJob } from './services/renderQueue';
+import { BATCH_ARCHIVE_NAME, createBatchArchive } from './services/export/batchArchive';
+import { renderStitchedOutput } from './services/gifOutput';
+import { RenderQueuePanel } from './components/RenderQueuePanel';
+import { VideoLibrary } from './components/VideoLibrary';
+import { StitchPanel, type StitchResult } from './components/StitchPanel';
+import { isAbortError } from './services/frameExtractor';
+import { toAppError } from './services/errors';
+import { probeVideo, probeVideoFiles, summarizeProbes, type ProbedFile } from './services/videoProbe';
+
+const AUTOSAVE_DELAY_MS = 1000;
+// Render queue id of the stitched GIF; segment ids are timestamps, so never 0.
+const STITCH_JOB_ID = 0;
+const IDLE_PIPELINE: PipelineState = { status: 'idle', attempt: 0 };
+
+const toVideoSource = (video: StoredVideo, probe?: VideoProbe): VideoSource => ({ ...video, url: URL.createObjectURL(video.file), probe });
+
+const toStoredVideos = (files: File[]): StoredVideo[] => {
+  const now = Date.now();
+  return files.map((file, i) => ({ id: now + i, file }));
+};
+
+// Probes of the usable files, keyed by the ids `toStoredVideos` gave them.
+const getProbes = (stored: StoredVideo[], usable: ProbedFile[]) =>
+  new Map(stored.map((video, i) => [video.id, usable[i].probe!]));
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
 const App: React.FC = () => {
-  const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [videos, setVideos] = useState<VideoSource[]>([]);
+  // Video that new and auto-suggested segments are taken from
+  const [activeVideoId, setActiveVideoId] = useState<number | null>(null);
   const [segments, setSegments] = useState<Segment[]>([]);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [suggestionProgress, setSuggestionProgress] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [rankWithAi, setRankWithAi] = useState(true);
+  const suggestionAbortRef = useRef<AbortController | null>(null);
+  // Ids of videos whose probe is in flight
+  const probingRef = useRef(new Set<number>());
+  const [renderJobs, setRenderJobs] = useState<RenderJob[]>([]);
+  const [renderConcurrency, setRenderConcurrency] = useState(DEFAULT_RENDER_CONCURRENCY);
+  const [renderQueue] = useState(() => new RenderQueue(DEFAULT_RENDER_CONCURRENCY, setRenderJobs));
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [stitchState, setStitchState] = useState<PipelineState>(IDLE_PIPELINE);
+  const [stitchResult, setStitchResult] = useState<StitchResult | null>(null);
+  const [providerConfig, setProviderConfig] = useState<DescriptionProviderConfig>(loadProviderConfig);
+  const [showSettings, setShowSettings] = useState(false);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  // Index into RECIPE_TEMPLATES for the next added segment, -1 for a blank one
+  const [templateIndex, setTemplateIndex] = useState(-1);
+
+  const descriptionProvider = useMemo(() => createDescriptionProvider(providerConfig), [providerConfig]);
+  const descriptionStyle = useMemo<DescriptionStyle>(
+    () => ({ language: providerConfig.language, tone: providerConfig.tone, promptTemplate: providerConfig.promptTemplate }),
+    [providerConfig],
+  );
+
+  const refreshRecentProjects = useCallback(() => {
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch(error => console.error("Failed to list saved projects:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!project) refreshRecentProjects();
+  }, [project, refreshRecentProjects]);
+
+  // Videos of reopened projects are probed in the background for the library's details and warnings.
+  useEffect(() => {
+    for (const video of videos) {
+      if (video.probe || video.probeError || probingRef.current.has(video.id)) continue;
+      probingRef.current.add(video.id);
+      probeVideo(video.file)
+        .then((probe): Partial<VideoSource> => ({ probe }), (error): Partial<VideoSource> => ({ probeError: toAppError(error, `${video.file.name} can't be used.`) }))
+        .then(result => setVideos(prev => prev.map(v => v.id === video.id ? { ...v, ...result } : v)))
+        .finally(() => probingRef.current.delete(video.id));
+    }
+  }, [videos]);
+
+  // Autosave: every change is written shortly after editing settles.
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveProject(project, segments).catch(error => console.error("Failed to save project:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, segments]);
+
+  const handleProviderConfigChange = (config: DescriptionProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+  };
+
+  const updateFilterPresets = (presets: FilterPreset[]) => {
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
+
+  const handleSaveFilterPreset = (name: string, filters: FrameFilter[]) => {
+    updateFilterPresets([...filterPresets, { id: Date.now(), name, filters }]);
+  };
+
+  const handleDeleteFilterPreset = (id: number) => {
+    updateFilterPresets(filterPresets.filter(preset => preset.id !== id));
+  };
+
+  const openProject = (meta: ProjectMeta, projectVideos: StoredVideo[], projectSegments: Segment[], probes = new Map<number, VideoProbe>()) => {
+    setProjectError(null);
+    setProject(meta);
+    setVideos(projectVideos.map(video => toVideoSource(video, probes.get(video.id))));
+    setActiveVideoId(projectVideos[0].id);
+    setSegments(projectSegments);
+  };
 
-  const handleVideoUpload = (file: File) => {
-    setVideoFile(file);
-    const url = URL.createObjectURL(file);
-    setVideoUrl(url);
+  // Files the browser can't decode are turned away before they reach the project.
+  const handleVideoUpload = async (files: File[]) => {
+    setProjectError(null);
+    const probed = await probeVideoFiles(files);
+    const usable = probed.filter(file => file.probe);
+    if (usable.length === 0) {
+      setProjectError(summarizeProbes(probed));
+      return;
+    }
+    const uploaded = toStoredVideos(usable.map(({ file }) => file));
+    const probes = getProbes(uploaded, usable);
     // Initialize with one segment
-    setSegments([{
-      id: Date.now(),
-      timeRange: { start: 0, end: 1 },
-      frames: [],
-      selectedFrameRange: { start: null, end: null },
-      gifDescription: '',
-      status: 'idle',
-    }]);
-  };
-
-  const addSegment = () => {
-    setSegments(prev => [...prev, {
-      id: Date.now(),
-      timeRange: { start: 0, end: 1 },
-      frames: [],
-      selectedFrameRange: { start: null, end: null },
-      gifDescription: '',
-      status: 'idle',
-    }]);
-  };
-
-  const updateSegment = useCallback((updatedSegment: Segment) => {
-    setSegments(prev => prev.map(s => s.id === updatedSegment.id ? updatedSegment : s));
+    const initialSegments = [createSegment(uploaded[0].id)];
+    const name = usable[0].file.name;
+    try {
+      openProject(await createProject(uploaded, initialSegments, name), uploaded, initialSegments, probes);
+    } catch (error) {
+      // Storage can be unavailable (e.g. private browsing); editing still works without it.
+      console.error("Failed to create project:", error);
+      openProject({ id: Date.now(), name, createdAt: Date.now() }, uploaded, initialSegments, probes);
+    }
+    setNotice(summarizeProbes(probed) || null);
+  };
+
+  const handleAddVideos = async (files: File[]) => {
+    if (!project) return;
+    const probed = await probeVideoFiles(files);
+    setNotice(summarizeProbes(probed) || null);
+    const usable = probed.filter(file => file.probe);
+    if (usable.length === 0) return;
+    const added = toStoredVideos(usable.map(({ file }) => file));
+    const probes = getProbes(added, usable);
+    setVideos(prev => [...prev, ...added.map(video => toVideoSource(video, probes.get(video.id)))]);
+    setActiveVideoId(added[0].id);
+    added.forEach(video => addProjectVideo(project.id, video).catch(error => console.error("Failed to save video:", error)));
+  };
+
+  const handleRemoveVideo = (id: number) => {
+    const video = videos.find(v => v.id === id);
+    if (!project || !video || videos.length === 1 || segments.some(segment => segment.videoId === id)) return;
+    URL.revokeObjectURL(video.url);
+    const remaining = videos.filter(v => v.id !== id);
+    setVideos(remaining);
+    if (activeVideoId === id) setActiveVideoId(remaining[0].id);
+    removeProjectVideo(project.id, id).catch(error => console.error("Failed to remove video:", error));
+  };
+
+  const handleOpenProject = async (id: number) => {
+    try {
+      const stored = await loadProject(id);
+      openProject(stored, stored.videos, stored.segments);
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      setProjectError(error instanceof Error ? error.message : "Failed to open the project.");
+    }
+  };
+
+  const handleDeleteProject = async (id: number) => {
+    try {
+      await deleteProject(id);
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+    }
+    refreshRecentProjects();
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = await importProjectArchive(file);
+      const meta = await createProject(imported.videos, imported.segments, imported.name);
+      const stored = await loadProject(meta.id);
+      openProject(stored, stored.videos, stored.segments);
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      setProjectError(error instanceof Error ? error.message : "Failed to import the project.");
+    }
+  };
+
+  const handleExportProject = async () => {
+    if (!project) return;
+    setIsExporting(true);
+    try {
+      const archive = await exportProjectArchive(project.name, videos, segments);
+      downloadBlob(archive, `${project.name.replace(/\.[^.]+$/, '')}${PROJECT_ARCHIVE_EXTENSION}`);
+    } catch (error) {
+      console.error("Failed to export project:", error);
+      setProjectError(error instanceof Error ? error.message : "Failed to export the project.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSuggestSegments = async () => {
+    const video = videos.find(v => v.id === activeVideoId);
+    if (!video) return;
+    const controller = new AbortController();
+    suggestionAbortRef.current = controller;
+    setSuggestionProgress(0);
+    setNotice(null);
+    try {
+      const { segments: suggested, rankingError } = await suggestSegments(video, descriptionProvider, {
+        rankWithAi,
+        signal: controller.signal,
+        onProgress: setSuggestionProgress,
+      });
+      if (suggested.length === 0) {
+        setNotice("No distinct moments were found. Try positioning a segment by hand.");
+      } else {
+        setSegments(prev => [...prev, ...suggested]);
+        setNotice(rankingError
+          ? `Added ${suggested.length} suggested segments, ordered by motion. AI ranking failed: ${rankingError}`
+          : `Added ${suggested.length} suggested segments.`);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Failed to suggest segments:", error);
+        setNotice(error instanceof Error ? error.message : "Failed to analyze the video.");
+      }
+    } finally {
+      suggestionAbortRef.current = null;
+      setSuggestionProgress(null);
+    }
+  };
+
+  const handleCloseProject = async () => {
+    suggestionAbortRef.current?.abort();
+    renderQueue.cancelAll();
+    if (project) {
+      await saveProject(project, segments).catch(error => console.error("Failed to save project:", error));
+    }
+    videos.forEach(video => URL.revokeObjectURL(video.url));
+    if (stitchResult) URL.revokeObjectURL(stitchResult.url);
+    setProject(null);
+    setNotice(null);
+    setVideos([]);
+    setActiveVideoId(null);
+    setSegments([]);
+    setStitchState(IDLE_PIPELINE);
+    setStitchResult(null);
+  };
+
+  const addSegment = (template?: EditRecipe) => {
+    const videoId = activeVideoId ?? videos[0].id;
+    setSegments(prev => [...prev, template ? createSegmentFromRecipe(videoId, template) : createSegment(videoId)]);
+  };
+
+  // A recipe shared as a link becomes a new segment once a project is open.
+  useEffect(() => {
+    if (!project || videos.length === 0) return;
+    const clearHash = () => history.replaceState(null, '', window.location.pathname + window.location.search);
+    const importFromHash = () => {
+      let recipe: EditRecipe | null;
+      try {
+        recipe = readRecipeFromHash(window.location.hash);
+      } catch (error) {
+        clearHash();
+        setNotice(error instanceof Error ? error.message : "Failed to read the shared recipe.");
+        return;
+      }
+      if (!recipe) return;
+      clearHash();
+      setSegments(prev => [...prev, createSegmentFromRecipe(activeVideoId ?? videos[0].id, recipe)]);
+      setNotice(`Added a segment from the shared recipe${recipe.name ? ` "${recipe.name}"` : ''}. Extract its frames to continue.`);
+    };
+    importFromHash();
+    window.addEventListener('hashchange', importFromHash);
+    return () => window.removeEventListener('hashchange', importFromHash);
+  }, [project, videos, activeVideoId]);
+
+  // Segments are patched rather than replaced: encoding and description finish
+  // independently and must not overwrite each other with a stale copy.
+  const updateSegment = useCallback((id: number, changes: Partial<Segment>) => {
+    setSegments(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
   }, []);
 
   const removeSegment = (id: number) => {
+    renderQueue.cancel(id);
+    cancelDescription(id);
     setSegments(prev => prev.filter(s => s.id !== id));
   };
 
+  // A render started from a segment's own button jumps ahead of batch work.
+  const handleRender = useCallback((segment: Segment, exportFormat: ExportFormat) => {
+    renderSegment(segment, exportFormat, renderQueue, changes => updateSegment(segment.id, changes), renderQueue.getTopPriority() + 1);
+  }, [renderQueue, updateSegment]);
+
+  const handleCancelRender = useCallback((id: number) => {
+    renderQueue.cancel(id);
+    updateSegment(id, { encoding: IDLE_PIPELINE });
+  }, [renderQueue, updateSegment]);
+
+  const handleStitch = async (segmentIds: number[]) => {
+    const parts = segmentIds
+      .map(id => segments.find(segment => segment.id === id))
+      .filter((segment): segment is Segment => segment !== undefined)
+      .map(segment => ({ frames: getSelectedFrames(segment), renderSettings: segment }));
+    if (stitchResult) URL.revokeObjectURL(stitchResult.url);
+    setStitchResult(null);
+    setStitchState({ status: 'running', attempt: 1 });
+    try {
+      const { blob, fitsSizeLimit } = await renderQueue.enqueue(
+        STITCH_JOB_ID,
+        control => renderStitchedOutput(parts, 'gif', 'video-to-gif-stitched', control),
+        renderQueue.getTopPriority() + 1,
+      );
+      setStitchResult({ url: URL.createObjectURL(blob), blob, fitsSizeLimit });
+      setStitchState({ status: 'done', attempt: 1 });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error stitching segments:", error);
+      setStitchState({ status: 'error', attempt: 1, error: toAppError(error, "Failed to stitch the segments.") });
+    }
+  };
+
+  const cancelJob = (id: number) => {
+    if (id === STITCH_JOB_ID) {
+      renderQueue.cancel(STITCH_JOB_ID);
+      setStitchState(IDLE_PIPELINE);
+    } else {
+      handleCancelRender(id);
+    }
+  };
+
+  const getJobLabel = (id: number) => {
+    if (id === STITCH_JOB_ID) return 'Stitched GIF';
+    const index = segments.findIndex(segment => segment.id === id);
+    return index >= 0 ? getSegmentLabel(segments[index], index) : '';
+  };
+
+  const handleRenderAll = () => {
+    const ready = segments.filter(segment => getSelectedFrames(segment).length > 0 && segment.encoding.status !== 'running');
+    for (const segment of ready) {
+      const update = (changes: Partial<Segment>) => updateSegment(segment.id, changes);
+      renderSegment(segment, segment.exportFormat, renderQueue, update);
+      if (segment.description.status === 'idle' || segment.description.status === 'error') {
+        describeSegment(segment, descriptionProvider, update);
+      }
+    }
+    const skipped = segments.filter(segment => getSelectedFrames(segment).length === 0).length;
+    setNotice(skipped > 0 ? `${skipped} ${skipped === 1 ? 'segment has' : 'segments have'} no frame range selected and ${skipped === 1 ? 'was' : 'were'} skipped.` : null);
+  };
+
+  const handleConcurrencyChange = (concurrency: number) => {
+    setRenderConcurrency(concurrency);
+    renderQueue.setConcurrency(concurrency);
+  };
+
+  const handleDownloadAll = async () => {
+    setIsArchiving(true);
+    try {
+      downloadBlob(await createBatchArchive(segments, videos), BATCH_ARCHIVE_NAME);
+    } catch (error) {
+      console.error("Failed to create the ZIP archive:", error);
+      setNotice(error instanceof Error ? error.message : "Failed to create the ZIP archive.");
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 font-sans">
       <header className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700 sticky top-0 z-10">
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <h1 className="text-2xl sm:text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">
-            Video to GIF Creator
-          </h1>
-          <p className="text-gray-400 mt-1">
-            Upload a video, select segments, and generate animated GIFs.
-          </p>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">
+              Video to GIF Creator
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Upload videos, select segments, and generate animated GIFs.
+            </p>
+          </div>
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className="text-gray-400 hover:text-indigo-300 transition-colors p-2 rounded-full bg-gray-700/50 hover:bg-gray-700"
+            aria-label="Description provider settings"
+          >
+            <CogIcon />
+          </button>
         </div>
       </header>
       
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {!videoFile ? (
-          <VideoUploader onVideoUpload={handleVideoUpload} />
+        {showSettings && (
+          <div className="mb-8">
+            <ProviderSettings config={providerConfig} onChange={handleProviderConfigChange} />
+          </div>
+        )}
+        {projectError && (
+          <div className="mb-8 p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg flex justify-between items-start gap-4">
+            <span>{projectError}</span>
+            <button onClick={() => setProjectError(null)} className="text-sm text-red-200 hover:text-white">Dismiss</button>
+          </div>
+        )}
+        {videos.length === 0 ? (
+          <VideoUploader
+            onVideoUpload={handleVideoUpload}
+            recentProjects={recentProjects}
+            onOpenProject={handleOpenProject}
+            onDeleteProject={handleDeleteProject}
+            onImportProject={handleImportProject}
+          />
         ) : (
           <div className="space-y-8">
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="text-lg font-semibold text-gray-300 mr-auto truncate">{project?.name}</h2>
+              {descriptionProvider.rankMoments && (
+                <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                  <input type="checkbox" checked={rankWithAi} onChange={(e) => setRankWithAi(e.target.checked)} className="accent-indigo-500" />
+                  Rank with AI
+                </label>
+              )}
+              {suggestionProgress === null ? (
+                <button
+                  onClick={handleSuggestSegments}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-sm text-white rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  <SparklesIcon />
+                  Auto-suggest segments
+                </button>
+              ) : (
+                <button
+                  onClick={() => suggestionAbortRef.current?.abort()}
+                  className="px-4 py-2 bg-gray-700 text-sm text-white rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Analyzing video... {Math.round(suggestionProgress * 100)}% (cancel)
+                </button>
+              )}
+              <button
+                onClick={handleExportProject}
+                disabled={isExporting}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-sm text-white rounded-lg hover:bg-gray-600 disabled:bg-gray-700/50 disabled:cursor-not-allowed transition-colors"
+              >
+                <DownloadIcon />
+                {isExporting ? 'Exporting...' : 'Export project'}
+              </button>
+              <button
+                onClick={handleCloseProject}
+                className="px-4 py-2 bg-gray-700 text-sm text-white rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                All projects
+              </button>
+            </div>
+            <VideoLibrary
+              videos={videos}
+              segments={segments}
+              activeVideoId={activeVideoId}
+              onSelect={setActiveVideoId}
+              onAddVideos={handleAddVideos}
+              onRemove={handleRemoveVideo}
+            />
+            <RenderQueuePanel
+              jobs={renderJobs}
+              renderedCount={segments.filter(segment => segment.resultBlob).length}
+              getJobLabel={getJobLabel}
+              concurrency={renderConcurrency}
+              isArchiving={isArchiving}
+              onConcurrencyChange={handleConcurrencyChange}
+              onRenderAll={handleRenderAll}
+              onDownloadAll={handleDownloadAll}
+              onCancel={cancelJob}
+              onCancelAll={() => renderJobs.forEach(job => cancelJob(job.id))}
+              onPrioritize={(id) => renderQueue.setPriority(id, renderQueue.getTopPriority() + 1)}
+            />
+            <StitchPanel
+              segments={segments}
+              videos={videos}
+              state={stitchState}
+              renderJob={renderJobs.find(job => job.id === STITCH_JOB_ID)}
+              result={stitchResult}
+              onStitch={handleStitch}
+              onCancel={() => cancelJob(STITCH_JOB_ID)}
+            />
+            {notice && <p className="text-sm text-gray-400">{notice}</p>}
             {segments.map((segment) => (
               <SegmentEditor
                 key={segment.id}
-                videoUrl={videoUrl!}
+                videos={videos}
                 segment={segment}
+                markers={segments.flatMap((other, otherIndex) =>
+                  other.id !== segment.id && other.videoId === segment.videoId
+                    ? [{ id: other.id, label: getSegmentLabel(other, otherIndex), range: other.timeRange }]
+                    : [])}
+                descriptionProvider={descriptionProvider}
+                descriptionStyle={descriptionStyle}
+                filterPresets={filterPresets}
+                renderJob={renderJobs.find(job => job.id === segment.id)}
                 onUpdate={updateSegment}
+                onRender={handleRender}
+                onCancelRender={handleCancelRender}
                 onRemove={removeSegment}
+                onSaveFilterPreset={handleSaveFilterPreset}
+                onDeleteFilterPreset={handleDeleteFilterPreset}
                 canRemove={segments.length > 1}
               />
             ))}
-            <div className="flex justify-center">
+            <div className="flex flex-wrap justify-center items-center gap-3">
+              <select
+                value={templateIndex}
+                onChange={(e) => setTemplateIndex(parseInt(e.target.value, 10))}
+                className="px-3 py-3 bg-gray-800 border border-gray-600 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label="Segment template"
+              >
+                <option value={-1}>Blank segment</option>
+                {RECIPE_TEMPLATES.map((template, i) => <option key={template.name} value={i}>{template.name}</option>)}
+              </select>
               <button
-                onClick={addSegment}
+                onClick={() => addSegment(RECIPE_TEMPLATES[templateIndex])}
                 className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 shadow-lg"
               >
                 <PlusIcon />
@@ -0,0 +1,259 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { type DescriptionStyle, type DescriptionTone, type DitherMode, type OutputSettings, type PaletteMode } from '../types';
+import { DEFAULT_DESCRIPTION_STYLE, DESCRIPTION_TONES, mockDescriptionProvider, noDescriptionProvider, toFileNameStem, type DescriptionProvider } from '../services/descriptionProvider';
+import { parseRecipe, type EditRecipe } from '../services/editRecipe';
+import { formatAppError, toAppError } from '../services/errors';
+import { DEFAULT_EXTRACTION_FPS } from '../services/frameExtractor';
+import { createGeminiProvider } from '../services/geminiService';
+import { DEFAULT_OUTPUT_SETTINGS, fitOutputToSource, formatFileSize } from '../services/gifOutput';
+import { formatPreciseTimestamp } from '../services/segmentSuggestions';
+import { convertRange, type ConversionResult } from '../services/headless/convert';
+import { type DecoderKind, type FrameDecoder } from '../services/headless/decoder';
+import { createFfmpegDecoder } from '../services/headless/ffmpegDecoder';
+import { createY4mDecoder } from '../services/headless/y4mDecoder';
+
+// Converts time ranges of a video to GIFs from the command line, each with a
+// JSON sidecar holding the settings used and the description. See README.md.
+
+const USAGE = `Usage: npm run cli -- <video> [options]
+
+  -r, --range <start-end>   Time range in seconds or m:ss, e.g. 1.5-4 or 0:05-0:09; repeat for more GIFs
+      --recipe <file>       Edit recipe (.gifrecipe.json) for the range, frame rate, selection, output and prompt
+      --fps <n>             Extraction frame rate (default ${DEFAULT_EXTRACTION_FPS})
+      --output-fps <n>      GIF frame rate, at most the extraction rate
+      --width <px>          Output width (default: ${DEFAULT_OUTPUT_SETTINGS.width}, never above the source)
+      --height <px>         Output height (default: follows the aspect ratio)
+      --quality <1-30>      Colour quantization: 1 is best, 30 is fastest
+      --dither <mode>       none, floyd-steinberg or ordered
+      --loop <mode>         infinite, once or a number of plays
+      --max-size <kb>       Scale down until the GIF fits; exits with 1 when it cannot
+      --optimize            Merge unchanged frames and store only changed areas
+      --palette <mode>      per-frame or global, with --optimize
+      --select <positions>  Frames to keep by position, e.g. 0-9,12 (default: all)
+      --decoder <kind>      ffmpeg or y4m (default: y4m for .y4m files, otherwise ffmpeg)
+      --describe <kind>     gemini, mock or none (default: gemini when GEMINI_API_KEY is set)
+      --language <name>     Language of the description
+      --tone <tone>         ${Object.keys(DESCRIPTION_TONES).join(', ')}
+  -o, --out <dir>           Output directory (default: current directory)
+      --name <stem>         File name stem (default: the video's name)
+  -h, --help                Show this help`;
+
+const DITHER_MODES: DitherMode[] = ['none', 'floyd-steinberg', 'ordered'];
+const PALETTE_MODES: PaletteMode[] = ['per-frame', 'global'];
+const DECODER_KINDS: DecoderKind[] = ['ffmpeg', 'y4m'];
+const DESCRIBE_KINDS = ['gemini', 'mock', 'none'];
+
+// Wrong arguments; printed with a pointer to --help.
+class UsageError extends Error {}
+
+function oneOf<T extends string>(value: string, allowed: readonly T[], option: string): T {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${option} must be one of ${allowed.join(', ')}.`);
+  }
+  return value as T;
+}
+
+function toNumber(value: string, option: string, min = 0): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min) {
+    throw new UsageError(`--${option} must be a number of at least ${min}.`);
+  }
+  return number;
+}
+
+// 90, 1:30 or 1:30.5
+function parseTime(text: string): number {
+  const seconds = text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  if (!text || !Number.isFinite(seconds)) {
+    throw new UsageError(`"${text}" is not a time.`);
+  }
+  return seconds;
+}
+
+function parseRange(text: string): { start: number; end: number } {
+  const [start, end, ...rest] = text.split('-');
+  if (end === undefined || rest.length > 0) {
+    throw new UsageError(`"${text}" is not a range; use start-end, e.g. 1.5-4.`);
+  }
+  const range = { start: parseTime(start), end: parseTime(end) };
+  if (range.end <= range.start) {
+    throw new UsageError(`The range "${text}" ends before it starts.`);
+  }
+  return range;
+}
+
+// "0-9,12" -> [0, 1, ..., 9, 12]
+function parsePositions(text: string): number[] {
+  return text.split(',').flatMap(part => {
+    const [first, last = first] = part.split('-').map(value => toNumber(value, 'select'));
+    if (!Number.isInteger(first) || !Number.isInteger(last) || last < first) {
+      throw new UsageError(`"${part}" in --select is not a position or range of positions.`);
+    }
+    return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+  });
+}
+
+const formatRange = ({ start, end }: { start: number; end: number }) => `${formatPreciseTimestamp(start)}–${formatPreciseTimestamp(end)}`;
+
+function createProvider(kind: string, style: DescriptionStyle): DescriptionProvider {
+  switch (kind) {
+    case 'gemini':
+      return createGeminiProvider(process.env.GEMINI_API_KEY ?? process.env.API_KEY, style);
+    case 'mock':
+      return mockDescriptionProvider;
+    default:
+      return noDescriptionProvider;
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      range: { type: 'string', short: 'r', multiple: true },
+      recipe: { type: 'string' },
+      fps: { type: 'string' },
+      'output-fps': { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      quality: { type: 'string' },
+      dither: { type: 'string' },
+      loop: { type: 'string' },
+      'max-size': { type: 'string' },
+      optimize: { type: 'boolean' },
+      palette: { type: 'string' },
+      select: { type: 'string' },
+      decoder: { type: 'string' },
+      describe: { type: 'string' },
+      language: { type: 'string' },
+      tone: { type: 'string' },
+      out: { type: 'string', short: 'o' },
+      name: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError('Give exactly one video file.');
+  }
+  const [path] = positionals;
+
+  const recipe: EditRecipe | null = values.recipe ? parseRecipe(await readFile(values.recipe, 'utf8')) : null;
+  if (recipe && recipe.exportFormat !== 'gif') {
+    console.warn(`The recipe exports ${recipe.exportFormat}; the command line only writes GIFs.`);
+  }
+  const ranges = values.range?.map(parseRange) ?? (recipe ? [recipe.timeRange] : []);
+  if (ranges.length === 0) {
+    throw new UsageError('Give at least one --range, or a --recipe.');
+  }
+
+  const decoderKind = values.decoder
+    ? oneOf(values.decoder, DECODER_KINDS, 'decoder')
+    : extname(path).toLowerCase() === '.y4m' ? 'y4m' : 'ffmpeg';
+  const decoder: FrameDecoder = decoderKind === 'y4m' ? createY4mDecoder() : createFfmpegDecoder();
+  const source = await decoder.probe(path);
+
+  const extractionFps = values.fps ? toNumber(values.fps, 'fps', 1) : recipe?.extractionFps ?? DEFAULT_EXTRACTION_FPS;
+  let output: OutputSettings = recipe?.output ?? fitOutputToSource(DEFAULT_OUTPUT_SETTINGS, source.width, source.height);
+  output = { ...output, fps: Math.min(values['output-fps'] ? toNumber(values['output-fps'], 'output-fps', 1) : output.fps, extractionFps) };
+  if (values.width) output = { ...output, width: Math.round(toNumber(values.width, 'width', 1)) };
+  if (values.height) output = { ...output, height: Math.round(toNumber(values.height, 'height', 1)), lockAspect: false };
+  if (values.quality) output = { ...output, quality: Math.min(30, Math.round(toNumber(values.quality, 'quality', 1))) };
+  if (values.dither) output = { ...output, dither: oneOf(values.dither, DITHER_MODES, 'dither') };
+  if (values.loop) {
+    output = values.loop === 'infinite' || values.loop === 'once'
+      ? { ...output, loop: values.loop }
+      : { ...output, loop: 'count', loopCount: Math.round(toNumber(values.loop, 'loop', 1)) };
+  }
+  if (values['max-size']) output = { ...output, maxFileSizeKb: toNumber(values['max-size'], 'max-size', 1) };
+  if (values.optimize || values.palette) {
+    output = {
+      ...output,
+      optimization: {
+        ...output.optimization,
+        enabled: true,
+        palette: values.palette ? oneOf(values.palette, PALETTE_MODES, 'palette') : output.optimization.palette,
+      },
+    };
+  }
+  const frameSelection = values.select ? parsePositions(values.select) : recipe?.frameSelection ?? null;
+
+  const style: DescriptionStyle = { ...DEFAULT_DESCRIPTION_STYLE, ...recipe?.prompt };
+  if (values.language) style.language = values.language;
+  if (values.tone) style.tone = oneOf(values.tone, Object.keys(DESCRIPTION_TONES) as DescriptionTone[], 'tone');
+  const describeKind = values.describe
+    ? oneOf(values.describe, DESCRIBE_KINDS, 'describe')
+    : process.env.GEMINI_API_KEY || process.env.API_KEY ? 'gemini' : 'none';
+  const provider = createProvider(describeKind, style);
+
+  const outDir = values.out ?? '.';
+  await mkdir(outDir, { recursive: true });
+  const stem = toFileNameStem(values.name ?? basename(path, extname(path))) || 'video-to-gif';
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let failed = 0;
+  for (const [i, timeRange] of ranges.entries()) {
+    const name = ranges.length > 1 ? `${stem}-${i + 1}` : stem;
+    let result: ConversionResult;
+    try {
+      result = await convertRange(
+        decoder,
+        { path, timeRange, extractionFps, output, frameSelection, signal: controller.signal },
+        { provider, style },
+      );
+    } catch (error) {
+      if (controller.signal.aborted) throw error;
+      console.error(`${formatRange(timeRange)}: ${formatAppError(toAppError(error, 'Failed to convert.'))}`);
+      failed++;
+      continue;
+    }
+
+    const gifPath = join(outDir, `${name}.gif`);
+    await writeFile(gifPath, result.gif);
+    await writeFile(join(outDir, `${name}.json`), JSON.stringify({
+      source: path,
+      timeRange: result.timeRange,
+      extractionFps,
+      frames: { extracted: result.extractedFrames, selected: result.selectedFrames, output: result.outputFrames },
+      durationMs: Math.round(result.durationMs),
+      width: result.width,
+      height: result.height,
+      size: result.gif.length,
+      fitsSizeLimit: result.fitsSizeLimit,
+      output,
+      describedBy: provider.kind,
+      metadata: result.metadata,
+      descriptionError: result.descriptionError ?? null,
+    }, null, 2) + '\n');
+
+    console.log(`${formatRange(result.timeRange)}: ${gifPath} (${result.width}×${result.height}, ${result.outputFrames} frames, ${formatFileSize(result.gif.length)})`);
+    if (!result.fitsSizeLimit) {
+      console.warn(`  Still over the ${output.maxFileSizeKb} KB limit at the smallest size tried; lower --output-fps or shorten the range.`);
+      failed++;
+    }
+    if (result.descriptionError) {
+      console.warn(`  ${formatAppError(result.descriptionError)}`);
+    }
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\nRun with --help for the options.`);
+      process.exitCode = 2;
+    } else {
+      console.error(formatAppError(toAppError(error, 'Failed.')));
+      process.exitCode = 1;
+    }
+  },
+);
@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { type CropRect } from '../types';
+
+interface CropOverlayProps {
+  crop: CropRect | null;
+  onChange: (crop: CropRect | null) => void;
+}
+
+type DragState =
+  | { mode: 'draw'; originX: number; originY: number }
+  | { mode: 'move'; offsetX: number; offsetY: number };
+
+const MIN_CROP = 0.02;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Drawn on top of the <video>. Drag on empty space to draw a new crop, drag
+// inside the crop to move it. Coordinates are fractions of the video size.
+export const CropOverlay: React.FC<CropOverlayProps> = ({ crop, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const toRelative = (event: React.PointerEvent) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((event.clientX - bounds.left) / bounds.width),
+      y: clamp01((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const isInsideCrop = (x: number, y: number) =>
+    crop !== null && x >= crop.x && x <= crop.x + crop.width && y >= crop.y && y <= crop.y + crop.height;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toRelative(event);
+    if (crop && isInsideCrop(x, y)) {
+      setDrag({ mode: 'move', offsetX: x - crop.x, offsetY: y - crop.y });
+    } else {
+      setDrag({ mode: 'draw', originX: x, originY: y });
+      onChange({ x, y, width: 0, height: 0 });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const { x, y } = toRelative(event);
+    if (drag.mode === 'draw') {
+      onChange({
+        x: Math.min(drag.originX, x),
+        y: Math.min(drag.originY, y),
+        width: Math.abs(x - drag.originX),
+        height: Math.abs(y - drag.originY),
+      });
+    } else if (crop) {
+      onChange({
+        ...crop,
+        x: Math.min(1 - crop.width, Math.max(0, x - drag.offsetX)),
+        y: Math.min(1 - crop.height, Math.max(0, y - drag.offsetY)),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    setDrag(null);
+    // A click without dragging clears the crop instead of leaving a sliver.
+    if (crop && (crop.width < MIN_CROP || crop.height < MIN_CROP)) {
+      onChange(null);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className="absolute inset-0 cursor-crosshair overflow-hidden rounded-lg touch-none"
+    >
+      {crop && (
+        <div
+          className="absolute border-2 border-cyan-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+          style={{
+            left: `${crop.x * 100}%`,
+            top: `${crop.y * 100}%`,
+            width: `${crop.width * 100}%`,
+            height: `${crop.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,16 @@
+import React from 'react';
+import { type AppError } from '../types';
+import { formatAppError } from '../services/errors';
+
+interface ErrorMessageProps {
+  error: AppError;
+  className?: string;
+}
+
+// What failed, in red, followed by what the user can do about it.
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, className = '' }) => (
+  <div className={`space-y-1 ${className}`}>
+    <p className="text-sm text-red-400">{formatAppError(error)}</p>
+    <p className="text-xs text-gray-400">{error.action}</p>
+  </div>
+);
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { type AdjustmentKind, type FilterPreset, type FrameFilter } from '../types';
+import { FILTER_DEFINITIONS, LUT_AMOUNT_RANGE, cloneFilters, createFilter, parseCubeLut } from '../services/frameFilters';
+import { BUILT_IN_FILTER_PRESETS } from '../services/filterPresets';
+import { TrashIcon } from './icons';
+
+interface FilterEditorProps {
+  filters: FrameFilter[];
+  // Presets saved by the user, shared by all segments
+  presets: FilterPreset[];
+  onChange: (filters: FrameFilter[]) => void;
+  onSavePreset: (name: string, filters: FrameFilter[]) => void;
+  onDeletePreset: (id: number) => void;
+}
+
+const inputClassName = 'px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const sliderClassName = 'w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500';
+const buttonClassName = 'px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+const smallButtonClassName = 'px-2 py-0.5 bg-gray-700 text-xs rounded hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const ADJUSTMENT_KINDS = Object.keys(FILTER_DEFINITIONS) as AdjustmentKind[];
+
+// Built-in presets are addressed as `builtin:<id>`, saved ones as `saved:<id>`.
+const findPreset = (key: string, presets: FilterPreset[]) => {
+  const [source, id] = key.split(':');
+  return (source === 'builtin' ? BUILT_IN_FILTER_PRESETS : presets).find(preset => preset.id === Number(id));
+};
+
+export const FilterEditor: React.FC<FilterEditorProps> = ({ filters, presets, onChange, onSavePreset, onDeletePreset }) => {
+  const [lutError, setLutError] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+
+  const updateFilter = (id: number, changes: Partial<FrameFilter>) => {
+    onChange(filters.map(filter => filter.id === id ? { ...filter, ...changes } as FrameFilter : filter));
+  };
+
+  const moveFilter = (index: number, offset: -1 | 1) => {
+    const next = [...filters];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleLutUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange([...filters, parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''))]);
+      setLutError(null);
+    } catch (error) {
+      setLutError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleSavePreset = () => {
+    onSavePreset(presetName.trim(), filters);
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/50 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-300 mr-auto">Filters</span>
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...filters, createFilter(e.target.value as AdjustmentKind)])}
+          className={inputClassName}
+          aria-label="Add filter"
+        >
+          <option value="">Add filter...</option>
+          {ADJUSTMENT_KINDS.map(kind => <option key={kind} value={kind}>{FILTER_DEFINITIONS[kind].label}</option>)}
+        </select>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Import LUT
+          <input type="file" accept=".cube" className="hidden" onChange={handleLutUpload} />
+        </label>
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = findPreset(e.target.value, presets);
+            if (preset) onChange(cloneFilters(preset.filters));
+          }}
+          className={inputClassName}
+          aria-label="Apply preset"
+        >
+          <option value="">Apply preset...</option>
+          <optgroup label="Built-in">
+            {BUILT_IN_FILTER_PRESETS.map(preset => <option key={preset.id} value={`builtin:${preset.id}`}>{preset.name}</option>)}
+          </optgroup>
+          {presets.length > 0 && (
+            <optgroup label="Saved">
+              {presets.map(preset => <option key={preset.id} value={`saved:${preset.id}`}>{preset.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      {lutError && <p className="text-sm text-red-400">{lutError}</p>}
+
+      {filters.map((filter, index) => {
+        const range = filter.kind === 'lut' ? LUT_AMOUNT_RANGE : FILTER_DEFINITIONS[filter.kind];
+        return (
+          <div key={filter.id} className="flex flex-wrap items-center gap-3 p-2 bg-gray-800/70 rounded-lg border border-gray-700">
+            <label className="flex items-center gap-2 text-sm text-gray-300 w-40">
+              <input type="checkbox" checked={filter.enabled} onChange={(e) => updateFilter(filter.id, { enabled: e.target.checked })} className="accent-indigo-500" />
+              <span className="truncate">{filter.kind === 'lut' ? `LUT: ${filter.name}` : FILTER_DEFINITIONS[filter.kind].label}</span>
+            </label>
+            <input
+              type="range"
+              min={range.min}
+              max={range.max}
+              step={range.step}
+              value={filter.amount}
+              disabled={!filter.enabled}
+              onChange={(e) => updateFilter(filter.id, { amount: parseFloat(e.target.value) })}
+              className={`${sliderClassName} flex-1 min-w-[8rem]`}
+              aria-label="Amount"
+            />
+            <span className="text-xs text-gray-400 w-10 text-right">{filter.amount.toFixed(2)}</span>
+            <button onClick={() => moveFilter(index, -1)} disabled={index === 0} className={smallButtonClassName} aria-label="Move up">↑</button>
+            <button onClick={() => moveFilter(index, 1)} disabled={index === filters.length - 1} className={smallButtonClassName} aria-label="Move down">↓</button>
+            <button onClick={() => onChange(filters.filter(other => other.id !== filter.id))} className="text-gray-400 hover:text-red-400 transition-colors p-1" aria-label="Remove filter">
+              <TrashIcon />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className={inputClassName}
+        />
+        <button onClick={handleSavePreset} disabled={filters.length === 0 || !presetName.trim()} className={buttonClassName}>
+          Save as preset
+        </button>
+        {presets.map(preset => (
+          <span key={preset.id} className="flex items-center gap-1 px-2 py-0.5 bg-gray-800 rounded text-xs text-gray-300">
+            {preset.name}
+            <button onClick={() => onDeletePreset(preset.id)} className="text-gray-500 hover:text-red-400" aria-label={`Delete preset ${preset.name}`}>×</button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { type Frame } from '../types';
+import { buildFramePlan, type RenderSettings } from '../services/gifOutput';
+import { drawLayers, loadLayerImages } from '../services/overlayLayers';
+import { applyFilters } from '../services/frameFilters';
+
+interface FramePreviewProps {
+  frames: Frame[];
+  renderSettings: RenderSettings;
+}
+
+// Plays the selected frames on a canvas at the output size with the current
+// timing, direction, filters and overlay layers, without encoding anything. It
+// always loops, whatever the output's loop setting.
+export const FramePreview: React.FC<FramePreviewProps> = ({ frames, renderSettings }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Tagged with the frames they were decoded from, so a stale set is never drawn.
+  const [decoded, setDecoded] = useState<{ frames: Frame[]; bitmaps: ImageBitmap[] } | null>(null);
+  const [layerImages, setLayerImages] = useState<Map<number, HTMLImageElement>>(new Map());
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [step, setStep] = useState(0);
+  const { output, filters, layers } = renderSettings;
+
+  const plan = useMemo(
+    () => buildFramePlan(frames, renderSettings),
+    [frames, renderSettings.extractionFps, renderSettings.output.fps, renderSettings.playback],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    let bitmaps: ImageBitmap[] = [];
+    Promise.all(frames.map(frame => createImageBitmap(frame.blob)))
+      .then(result => {
+        bitmaps = result;
+        if (cancelled) result.forEach(bitmap => bitmap.close());
+        else setDecoded({ frames, bitmaps: result });
+      })
+      .catch(error => console.error("Failed to decode preview frames:", error));
+    return () => {
+      cancelled = true;
+      bitmaps.forEach(bitmap => bitmap.close());
+    };
+  }, [frames]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLayerImages(layers)
+      .then(images => { if (!cancelled) setLayerImages(images); })
+      .catch(error => console.error("Failed to load layer images:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [layers]);
+
+  const currentStep = plan.length > 0 ? step % plan.length : 0;
+  const bitmaps = decoded?.frames === frames ? decoded.bitmaps : null;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    const entry = plan[currentStep];
+    if (!context || !bitmaps || !entry) return;
+    context.drawImage(bitmaps[entry.index], 0, 0, output.width, output.height);
+    applyFilters(context, filters);
+    drawLayers(context, layers, entry.index, layerImages);
+  }, [bitmaps, plan, currentStep, output.width, output.height, filters, layers, layerImages]);
+
+  useEffect(() => {
+    if (!isPlaying || !bitmaps || plan.length < 2) return;
+    const timer = setTimeout(() => setStep((currentStep + 1) % plan.length), plan[currentStep].delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, bitmaps, plan, currentStep]);
+
+  if (frames.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2 p-4 bg-gray-900/50 rounded-lg">
+      <canvas
+        ref={canvasRef}
+        width={output.width}
+        height={output.height}
+        className="max-w-full max-h-80 rounded-md bg-black"
+        style={{ aspectRatio: `${output.width} / ${output.height}` }}
+      />
+      <div className="flex items-center gap-3 text-sm text-gray-400">
+        <button onClick={() => setIsPlaying(prev => !prev)} className="px-3 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors">
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        {!isPlaying && (
+          <>
+            <button onClick={() => setStep((currentStep + plan.length - 1) % plan.length)} className="px-2 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600" aria-label="Previous frame">‹</button>
+            <button onClick={() => setStep((currentStep + 1) % plan.length)} className="px-2 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600" aria-label="Next frame">›</button>
+          </>
+        )}
+        <span>Frame {currentStep + 1} / {plan.length}</span>
+        {!bitmaps && <span>Loading...</span>}
+      </div>
+    </div>
+  );
+};
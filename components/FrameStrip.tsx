@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type Frame, type FrameFilter, type PlaybackSettings } from '../types';
+import { deleteFrames, duplicateFrames, moveFrames, type FrameEdit } from '../services/frameEditing';
+import { filterImageUrl, hasActiveFilters } from '../services/frameFilters';
+
+interface FrameStripProps {
+  frames: Frame[];
+  selectedFrameIds: number[];
+  playback: PlaybackSettings;
+  filters: FrameFilter[];
+  // Delay of frames without a custom one, in milliseconds
+  baseFrameDelay: number;
+  onChange: (changes: Partial<FrameEdit>) => void;
+}
+
+// Dragging adds the frames between the anchor and the pointer to `base`.
+interface DragSelection {
+  anchor: number;
+  base: number[];
+  last: number;
+}
+
+const toolButtonClassName = 'px-2.5 py-1 bg-gray-700 text-xs text-white rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+// Click or drag across frames to select them; Ctrl/Cmd adds to the selection
+// and Shift extends it from the last clicked frame. Selected frames are the
+// ones that get encoded, and the ones the toolbar acts on.
+export const FrameStrip: React.FC<FrameStripProps> = ({ frames, selectedFrameIds, playback, filters, baseFrameDelay, onChange }) => {
+  const dragRef = useRef<DragSelection | null>(null);
+  const anchorRef = useRef<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Thumbnails with the segment's filters applied, by frame id
+  const [filteredThumbnails, setFilteredThumbnails] = useState<Map<number, string>>(new Map());
+  const selected = new Set(selectedFrameIds);
+  const selectionCount = frames.filter(f => selected.has(f.id)).length;
+
+  useEffect(() => {
+    if (!isDragging) return;
+    const endDrag = () => {
+      dragRef.current = null;
+      setIsDragging(false);
+    };
+    window.addEventListener('pointerup', endDrag);
+    return () => window.removeEventListener('pointerup', endDrag);
+  }, [isDragging]);
+
+  useEffect(() => {
+    if (!hasActiveFilters(filters)) {
+      setFilteredThumbnails(new Map());
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const thumbnails = new Map<number, string>();
+      for (const frame of frames) {
+        const url = await filterImageUrl(frame.thumbnailUrl, filters);
+        if (cancelled) return;
+        thumbnails.set(frame.id, url);
+      }
+      setFilteredThumbnails(thumbnails);
+    })().catch(error => console.error("Failed to filter thumbnails:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [frames, filters]);
+
+  const idsBetween = (a: number, b: number) => frames.slice(Math.min(a, b), Math.max(a, b) + 1).map(f => f.id);
+
+  const select = (ids: number[]) => onChange({ selectedFrameIds: ids });
+
+  const handleFramePointerDown = (event: React.PointerEvent, index: number) => {
+    if (event.button !== 0) return;
+    const id = frames[index].id;
+    if (event.shiftKey && anchorRef.current !== null) {
+      select(idsBetween(anchorRef.current, index));
+      return;
+    }
+    anchorRef.current = index;
+    const isAdding = event.ctrlKey || event.metaKey;
+    if (isAdding && selected.has(id)) {
+      select(selectedFrameIds.filter(selectedId => selectedId !== id));
+      return;
+    }
+    const base = isAdding ? selectedFrameIds : [];
+    dragRef.current = { anchor: index, base, last: index };
+    setIsDragging(true);
+    select([...base, id]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const target = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-frame-index]');
+    if (!target) return;
+    const index = Number(target.dataset.frameIndex);
+    if (index === drag.last) return;
+    drag.last = index;
+    select([...new Set([...drag.base, ...idsBetween(drag.anchor, index)])]);
+  };
+
+  const handleFrameDelayChange = (frameId: number, value: string) => {
+    const frameDelays = { ...playback.frameDelays };
+    const delay = parseInt(value, 10);
+    if (Number.isFinite(delay) && delay > 0) {
+      frameDelays[frameId] = delay;
+    } else {
+      delete frameDelays[frameId];
+    }
+    onChange({ playback: { ...playback, frameDelays } });
+  };
+
+  const editSelection = (edit: (segment: FrameEdit, ids: number[]) => FrameEdit) => {
+    if (selectionCount === 0) return;
+    anchorRef.current = null;
+    onChange(edit({ frames, selectedFrameIds, playback }, selectedFrameIds));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.target instanceof HTMLInputElement) return;
+    const withModifier = event.ctrlKey || event.metaKey;
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      editSelection(deleteFrames);
+    } else if (withModifier && event.key.toLowerCase() === 'd') {
+      editSelection(duplicateFrames);
+    } else if (withModifier && event.key.toLowerCase() === 'a') {
+      select(frames.map(f => f.id));
+    } else if (event.key === 'Escape') {
+      select([]);
+    } else if (event.altKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+      editSelection((segment, ids) => moveFrames(segment, ids, event.key === 'ArrowLeft' ? -1 : 1));
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-400 mr-2">{selectionCount} of {frames.length} frames selected</span>
+        <button onClick={() => select(frames.map(f => f.id))} disabled={selectionCount === frames.length} className={toolButtonClassName}>Select all</button>
+        <button onClick={() => select([])} disabled={selectionCount === 0} className={toolButtonClassName}>Clear</button>
+        <button onClick={() => editSelection((segment, ids) => moveFrames(segment, ids, -1))} disabled={selectionCount === 0} className={toolButtonClassName} title="Alt+←">Move left</button>
+        <button onClick={() => editSelection((segment, ids) => moveFrames(segment, ids, 1))} disabled={selectionCount === 0} className={toolButtonClassName} title="Alt+→">Move right</button>
+        <button onClick={() => editSelection(duplicateFrames)} disabled={selectionCount === 0} className={toolButtonClassName} title="Ctrl+D">Duplicate</button>
+        <button onClick={() => editSelection(deleteFrames)} disabled={selectionCount === 0} className={`${toolButtonClassName} hover:bg-red-700`} title="Delete">Delete</button>
+      </div>
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onPointerMove={handlePointerMove}
+        className={`flex overflow-x-auto space-x-2 p-2 bg-gray-900/50 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 ${isDragging ? 'select-none' : ''}`}
+        aria-label="Frames"
+      >
+        {frames.map((frame, index) => (
+          <div key={frame.id} data-frame-index={index} className="flex-shrink-0 flex flex-col items-center gap-1">
+            <img
+              src={filteredThumbnails.get(frame.id) ?? frame.thumbnailUrl}
+              alt={`Frame at ${frame.timestamp.toFixed(2)}s`}
+              draggable={false}
+              onPointerDown={(e) => handleFramePointerDown(e, index)}
+              className={`h-24 rounded-md cursor-pointer transition-all duration-200 ${selected.has(frame.id) ? 'ring-2 ring-indigo-500 opacity-100' : 'opacity-50 hover:opacity-80'}`}
+            />
+            {selected.has(frame.id) && (
+              <input
+                type="number"
+                min="20"
+                step="10"
+                placeholder={`${Math.round(baseFrameDelay)}`}
+                value={playback.frameDelays[frame.id] ?? ''}
+                onChange={(e) => handleFrameDelayChange(frame.id, e.target.value)}
+                title="Frame delay in ms"
+                className={`w-16 px-1 py-0.5 bg-gray-900 border rounded text-xs text-center focus:outline-none focus:ring-1 focus:ring-indigo-500 ${playback.frameDelays[frame.id] !== undefined ? 'border-indigo-400' : 'border-gray-600'}`}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Click or drag to select frames, Ctrl/⌘-click to add or remove one, Shift-click to select a range. Delete, Ctrl+D and Alt+←/→ work on the selection.
+      </p>
+    </div>
+  );
+};
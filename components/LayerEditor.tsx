@@ -0,0 +1,158 @@
+import React from 'react';
+import { type OverlayLayer, type TextLayer, type ImageLayer } from '../types';
+import { CAPTION_FONTS, createImageLayer, createTextLayer, toMemeCaption } from '../services/overlayLayers';
+import { TrashIcon } from './icons';
+
+interface LayerEditorProps {
+  layers: OverlayLayer[];
+  frameCount: number;
+  description: string;
+  onChange: (layers: OverlayLayer[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const sliderClassName = 'w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500';
+const buttonClassName = 'px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors';
+
+const POSITION_PRESETS: { label: string; y: number }[] = [
+  { label: 'Top', y: 0.12 },
+  { label: 'Middle', y: 0.5 },
+  { label: 'Bottom', y: 0.88 },
+];
+
+export const LayerEditor: React.FC<LayerEditorProps> = ({ layers, frameCount, description, onChange }) => {
+  const updateLayer = (id: number, changes: Partial<TextLayer> | Partial<ImageLayer>) => {
+    onChange(layers.map(layer => layer.id === id ? { ...layer, ...changes } as OverlayLayer : layer));
+  };
+
+  const removeLayer = (id: number) => onChange(layers.filter(layer => layer.id !== id));
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => onChange([...layers, createImageLayer(reader.result as string)]);
+    reader.readAsDataURL(file);
+  };
+
+  const lastFrame = Math.max(0, frameCount - 1);
+
+  const renderFrameRange = (layer: OverlayLayer) => (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <span>Frames</span>
+      <input type="number" min="1" max={frameCount} value={layer.startFrame + 1} onChange={(e) => updateLayer(layer.id, { startFrame: Math.min(lastFrame, Math.max(0, parseInt(e.target.value, 10) - 1 || 0)) })} className={`${inputClassName} w-16`} />
+      <span>to</span>
+      <input
+        type="number"
+        min="1"
+        max={frameCount}
+        placeholder="end"
+        value={layer.endFrame === null ? '' : layer.endFrame + 1}
+        onChange={(e) => updateLayer(layer.id, { endFrame: e.target.value ? Math.min(lastFrame, Math.max(layer.startFrame, parseInt(e.target.value, 10) - 1)) : null })}
+        className={`${inputClassName} w-16`}
+      />
+    </div>
+  );
+
+  const renderPosition = (layer: OverlayLayer) => (
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <label className="text-xs text-gray-400">Horizontal</label>
+        <input type="range" min="0" max="1" step="0.01" value={layer.x} onChange={(e) => updateLayer(layer.id, { x: parseFloat(e.target.value) })} className={sliderClassName} />
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Vertical</label>
+        <input type="range" min="0" max="1" step="0.01" value={layer.y} onChange={(e) => updateLayer(layer.id, { y: parseFloat(e.target.value) })} className={sliderClassName} />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/50 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-300 mr-auto">Captions &amp; overlays</span>
+        <button onClick={() => onChange([...layers, createTextLayer()])} className={buttonClassName}>Add text</button>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Add image
+          <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+        </label>
+        {description && (
+          <>
+            <button onClick={() => onChange([...layers, createTextLayer(description, { fontFamily: 'Arial', fontSize: 0.06 })])} className={buttonClassName}>
+              Caption from description
+            </button>
+            <button onClick={() => onChange([...layers, createTextLayer(toMemeCaption(description))])} className={buttonClassName}>
+              Meme caption
+            </button>
+          </>
+        )}
+      </div>
+
+      {layers.map(layer => (
+        <div key={layer.id} className="p-3 bg-gray-800/70 rounded-lg space-y-2 border border-gray-700">
+          <div className="flex items-center gap-2">
+            {layer.kind === 'text' ? (
+              <input type="text" value={layer.text} onChange={(e) => updateLayer(layer.id, { text: e.target.value })} className={inputClassName} />
+            ) : (
+              <img src={layer.dataUrl} alt="Overlay" className="h-10 rounded-sm" />
+            )}
+            <button onClick={() => removeLayer(layer.id)} className="text-gray-400 hover:text-red-400 transition-colors p-1" aria-label="Remove layer">
+              <TrashIcon />
+            </button>
+          </div>
+
+          {layer.kind === 'text' && (
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+              <div>
+                <label className="text-xs text-gray-400">Font</label>
+                <select value={layer.fontFamily} onChange={(e) => updateLayer(layer.id, { fontFamily: e.target.value })} className={inputClassName}>
+                  {CAPTION_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-gray-400">Size: {Math.round(layer.fontSize * 100)}%</label>
+                <input type="range" min="0.02" max="0.3" step="0.01" value={layer.fontSize} onChange={(e) => updateLayer(layer.id, { fontSize: parseFloat(e.target.value) })} className={sliderClassName} />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400">Color</label>
+                <input type="color" value={layer.color} onChange={(e) => updateLayer(layer.id, { color: e.target.value })} className="w-full h-8 bg-transparent cursor-pointer" />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400">Stroke</label>
+                <input type="color" value={layer.strokeColor} onChange={(e) => updateLayer(layer.id, { strokeColor: e.target.value })} className="w-full h-8 bg-transparent cursor-pointer" />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400">Stroke width</label>
+                <input type="range" min="0" max="0.3" step="0.01" value={layer.strokeWidth} onChange={(e) => updateLayer(layer.id, { strokeWidth: parseFloat(e.target.value) })} className={sliderClassName} />
+              </div>
+            </div>
+          )}
+
+          {layer.kind === 'image' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-gray-400">Width: {Math.round(layer.width * 100)}%</label>
+                <input type="range" min="0.05" max="1" step="0.01" value={layer.width} onChange={(e) => updateLayer(layer.id, { width: parseFloat(e.target.value) })} className={sliderClassName} />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400">Opacity: {Math.round(layer.opacity * 100)}%</label>
+                <input type="range" min="0.05" max="1" step="0.05" value={layer.opacity} onChange={(e) => updateLayer(layer.id, { opacity: parseFloat(e.target.value) })} className={sliderClassName} />
+              </div>
+            </div>
+          )}
+
+          {renderPosition(layer)}
+          <div className="flex flex-wrap items-center gap-2">
+            {POSITION_PRESETS.map(preset => (
+              <button key={preset.label} onClick={() => updateLayer(layer.id, { x: 0.5, y: preset.y })} className="px-2 py-0.5 bg-gray-700 text-xs rounded hover:bg-gray-600">
+                {preset.label}
+              </button>
+            ))}
+            <div className="ml-auto">{renderFrameRange(layer)}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
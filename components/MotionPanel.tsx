@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { type Frame, type MotionSettings, type StabilizationMode } from '../types';
+import { hasMotionProcessing, processMotion } from '../services/motion/processMotion';
+import { isAbortError } from '../services/frameExtractor';
+import { loadImage } from '../services/frameImage';
+import { unprocessedFrame } from '../services/segmentEditing';
+
+interface MotionPanelProps {
+  // The selected frames, in strip order; the first is the cinemagraph still
+  frames: Frame[];
+  settings: MotionSettings;
+  onChange: (settings: MotionSettings) => void;
+  // Called with the processed frames, which keep their ids
+  onApply: (frames: Frame[]) => void;
+  // Called with the ids of the frames to restore to their extracted pixels
+  onRevert: (ids: number[]) => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+const sliderClassName = 'w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500';
+
+const STABILIZATION_MODES: { mode: StabilizationMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'smooth', label: 'Smooth' },
+  { mode: 'lock', label: 'Lock' },
+];
+
+// The mask is painted at this width and scaled to the frame size when applied.
+const MASK_WIDTH = 320;
+
+export const MotionPanel: React.FC<MotionPanelProps> = ({ frames, settings, onChange, onApply, onRevert }) => {
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [stillUrl, setStillUrl] = useState<string | null>(null);
+  const [stillSize, setStillSize] = useState<{ width: number; height: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(0.06);
+  const [isErasing, setIsErasing] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Processing always starts from the extracted pixels, so applying again replaces the last result.
+  const sources = useMemo(() => frames.map(unprocessedFrame), [frames]);
+  const processedIds = frames.filter(frame => frame.original).map(frame => frame.id);
+  const stillBlob = sources[0]?.blob;
+
+  useEffect(() => {
+    if (!stillBlob || !settings.cinemagraph) {
+      setStillUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(stillBlob);
+    setStillUrl(url);
+    let cancelled = false;
+    loadImage(url)
+      .then(image => { if (!cancelled) setStillSize({ width: image.naturalWidth, height: image.naturalHeight }); })
+      .catch(error => console.error("Failed to load the cinemagraph still:", error));
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [stillBlob, settings.cinemagraph]);
+
+  const maskHeight = stillSize ? Math.max(1, Math.round(MASK_WIDTH * stillSize.height / stillSize.width)) : 0;
+
+  useEffect(() => {
+    const context = maskCanvasRef.current?.getContext('2d');
+    if (!context) return;
+    if (!settings.cinemagraphMask) {
+      context.clearRect(0, 0, MASK_WIDTH, maskHeight);
+      return;
+    }
+    let cancelled = false;
+    loadImage(settings.cinemagraphMask)
+      .then(image => {
+        if (cancelled) return;
+        context.globalCompositeOperation = 'source-over';
+        context.clearRect(0, 0, MASK_WIDTH, maskHeight);
+        context.drawImage(image, 0, 0, MASK_WIDTH, maskHeight);
+      })
+      .catch(error => console.error("Failed to load the cinemagraph mask:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.cinemagraphMask, maskHeight, stillUrl]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const paintTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    const rect = canvas.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) * canvas.width / rect.width,
+      y: (event.clientY - rect.top) * canvas.height / rect.height,
+    };
+    const from = lastPointRef.current ?? point;
+    context.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    context.strokeStyle = '#ef4444';
+    context.lineCap = 'round';
+    context.lineWidth = brushSize * canvas.width;
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  const finishStroke = () => {
+    if (!lastPointRef.current || !maskCanvasRef.current) return;
+    lastPointRef.current = null;
+    onChange({ ...settings, cinemagraphMask: maskCanvasRef.current.toDataURL('image/png') });
+  };
+
+  const handleApply = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      onApply(await processMotion(sources, settings, { signal: controller.signal, onProgress: setProgress }));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Motion processing failed:", error);
+        setError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isProcessing = progress !== null;
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/50 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-300 mr-auto">Stabilization &amp; cinemagraph</span>
+        <span className="text-xs text-gray-400">Stabilize</span>
+        <div className="flex rounded-md overflow-hidden border border-gray-600">
+          {STABILIZATION_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...settings, stabilization: mode })}
+              className={`px-3 py-1 text-sm ${settings.stabilization === mode ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={settings.cinemagraph} onChange={(e) => onChange({ ...settings, cinemagraph: e.target.checked })} className="accent-indigo-500" />
+          Cinemagraph
+        </label>
+      </div>
+
+      {settings.cinemagraph && stillUrl && stillSize && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">Paint the area that should keep moving. Everything else is frozen on this first selected frame.</p>
+          <div className="relative inline-block max-w-full">
+            <img src={stillUrl} alt="First selected frame" className="block max-w-full max-h-72 rounded-md" draggable={false} />
+            <canvas
+              ref={maskCanvasRef}
+              width={MASK_WIDTH}
+              height={maskHeight}
+              onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); paintTo(e); }}
+              onPointerMove={(e) => { if (lastPointRef.current) paintTo(e); }}
+              onPointerUp={finishStroke}
+              onPointerCancel={finishStroke}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="w-40">
+              <label className="text-xs text-gray-400">Brush: {Math.round(brushSize * 100)}%</label>
+              <input type="range" min="0.01" max="0.2" step="0.01" value={brushSize} onChange={(e) => setBrushSize(parseFloat(e.target.value))} className={sliderClassName} />
+            </div>
+            <button onClick={() => setIsErasing(prev => !prev)} className={buttonClassName}>{isErasing ? 'Erasing' : 'Painting'}</button>
+            <button onClick={() => onChange({ ...settings, cinemagraphMask: null })} disabled={!settings.cinemagraphMask} className={buttonClassName}>Clear mask</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={handleApply} disabled={isProcessing || frames.length < 2 || !hasMotionProcessing(settings)} className={buttonClassName}>
+          {isProcessing ? `Processing... ${Math.round((progress ?? 0) * 100)}%` : `Apply to ${frames.length} selected frames`}
+        </button>
+        {isProcessing && <button onClick={() => abortRef.current?.abort()} className={buttonClassName}>Cancel</button>}
+        <button onClick={() => onRevert(processedIds)} disabled={isProcessing || processedIds.length === 0} className={buttonClassName}>Revert</button>
+        <span className="text-xs text-gray-500">Works from the extracted frames, so applying again replaces the last result.</span>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
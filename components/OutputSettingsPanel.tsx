@@ -0,0 +1,147 @@
+import React from 'react';
+import { type OutputSettings, type DitherMode, type ExportFormat, type GifOptimization, type LoopMode, type PaletteMode } from '../types';
+import { exceedsSizeLimit, formatFileSize } from '../services/gifOutput';
+import { EXPORTERS } from '../services/export/exportFormats';
+
+interface OutputSettingsPanelProps {
+  settings: OutputSettings;
+  // Aspect ratio (width / height) of the source frames, used when the aspect is locked.
+  aspectRatio: number;
+  maxFps: number;
+  // Unoptimized GIF size; null while unknown or for other formats
+  estimatedSize: number | null;
+  exportFormat: ExportFormat;
+  onChange: (settings: OutputSettings) => void;
+}
+
+const DITHER_OPTIONS: { value: DitherMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'ordered', label: 'Ordered (Bayer)' },
+];
+
+const LOOP_OPTIONS: { value: LoopMode; label: string }[] = [
+  { value: 'infinite', label: 'Loop forever' },
+  { value: 'once', label: 'Play once' },
+  { value: 'count', label: 'Play N times' },
+];
+
+const PALETTE_OPTIONS: { value: PaletteMode; label: string }[] = [
+  { value: 'per-frame', label: 'Per frame' },
+  { value: 'global', label: 'Shared (global)' },
+];
+
+const inputClassName = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export const OutputSettingsPanel: React.FC<OutputSettingsPanelProps> = ({ settings, aspectRatio, maxFps, estimatedSize, exportFormat, onChange }) => {
+  // Optimization only shrinks the file, so the estimate is an upper bound then.
+  const isUpperBound = settings.optimization.enabled;
+  const update = (changes: Partial<OutputSettings>) => onChange({ ...settings, ...changes });
+  const updateOptimization = (changes: Partial<GifOptimization>) => update({ optimization: { ...settings.optimization, ...changes } });
+
+  const handleDimensionChange = (part: 'width' | 'height', value: number) => {
+    if (!Number.isFinite(value) || value < 1) return;
+    const size = Math.round(value);
+    if (!settings.lockAspect) {
+      update({ [part]: size });
+    } else if (part === 'width') {
+      update({ width: size, height: Math.max(1, Math.round(size / aspectRatio)) });
+    } else {
+      update({ height: size, width: Math.max(1, Math.round(size * aspectRatio)) });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 p-4 bg-gray-900/50 rounded-lg">
+      <div>
+        <label className="text-xs text-gray-400">Width (px)</label>
+        <input type="number" min="1" value={settings.width} onChange={(e) => handleDimensionChange('width', parseFloat(e.target.value))} className={inputClassName} />
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Height (px)</label>
+        <input type="number" min="1" value={settings.height} onChange={(e) => handleDimensionChange('height', parseFloat(e.target.value))} className={inputClassName} />
+      </div>
+      <label className="flex items-end gap-2 text-sm cursor-pointer pb-2">
+        <input type="checkbox" checked={settings.lockAspect} onChange={(e) => update({ lockAspect: e.target.checked })} className="accent-indigo-500" />
+        Lock aspect ratio
+      </label>
+      <div>
+        <label className="text-xs text-gray-400">Frame rate: {settings.fps} fps</label>
+        <input type="range" min="1" max={maxFps} step="1" value={Math.min(settings.fps, maxFps)} onChange={(e) => update({ fps: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Palette quality: {settings.quality <= 5 ? 'best' : settings.quality <= 15 ? 'balanced' : 'fast'}</label>
+        {/* The slider is reversed so that right means better: it maps to NeuQuant's sample factor. */}
+        <input type="range" min="1" max="30" step="1" value={31 - settings.quality} onChange={(e) => update({ quality: 31 - parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Dithering</label>
+        <select value={settings.dither} onChange={(e) => update({ dither: e.target.value as DitherMode })} className={inputClassName}>
+          {DITHER_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Looping</label>
+        <div className="flex gap-2">
+          <select value={settings.loop} onChange={(e) => update({ loop: e.target.value as LoopMode })} className={inputClassName}>
+            {LOOP_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          {settings.loop === 'count' && (
+            <input type="number" min="2" value={settings.loopCount} onChange={(e) => update({ loopCount: Math.max(2, parseInt(e.target.value, 10) || 2) })} className={`${inputClassName} w-20`} />
+          )}
+        </div>
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Max file size (KB)</label>
+        <input
+          type="number"
+          min="1"
+          placeholder="No limit"
+          value={settings.maxFileSizeKb ?? ''}
+          onChange={(e) => update({ maxFileSizeKb: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : null })}
+          className={inputClassName}
+        />
+      </div>
+      <div className="col-span-2 sm:col-span-4 flex flex-wrap items-end gap-4 pt-2 border-t border-gray-700">
+        <label className="flex items-center gap-2 text-sm cursor-pointer pb-1">
+          <input type="checkbox" checked={settings.optimization.enabled} onChange={(e) => updateOptimization({ enabled: e.target.checked })} className="accent-indigo-500" />
+          Optimize GIF
+        </label>
+        {settings.optimization.enabled && (
+          <>
+            <div className="w-40">
+              <label className="text-xs text-gray-400">Merge tolerance: {settings.optimization.tolerance}</label>
+              <input type="range" min="0" max="32" step="1" value={settings.optimization.tolerance} onChange={(e) => updateOptimization({ tolerance: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+            </div>
+            <label className="flex items-center gap-2 text-sm cursor-pointer pb-1">
+              <input type="checkbox" checked={settings.optimization.deltaFrames} onChange={(e) => updateOptimization({ deltaFrames: e.target.checked })} className="accent-indigo-500" />
+              Delta frames
+            </label>
+            <div>
+              <label className="text-xs text-gray-400">Palette</label>
+              <select value={settings.optimization.palette} onChange={(e) => updateOptimization({ palette: e.target.value as PaletteMode })} className={inputClassName}>
+                {PALETTE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+          </>
+        )}
+        <p className="w-full text-xs text-gray-500">
+          Merges unchanged frames and encodes only what changed between frames. GIF only; the estimate below is before optimization.
+        </p>
+      </div>
+      <div className="col-span-2 sm:col-span-4 text-sm text-gray-400">
+        {exportFormat !== 'gif' ? (
+          `No size estimate for ${EXPORTERS[exportFormat].label}; it is only available for GIF.`
+        ) : (
+          <>
+            Estimated GIF size: {estimatedSize === null ? '—' : `${isUpperBound ? 'at most' : '≈'} ${formatFileSize(estimatedSize)}`}
+            {isUpperBound && estimatedSize !== null && ' before optimization'}
+            {estimatedSize !== null && exceedsSizeLimit(estimatedSize, settings) && (
+              <span className="text-amber-400"> ({isUpperBound ? 'may be' : 'will be'} scaled down to fit {settings.maxFileSizeKb} KB)</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { type PlaybackSettings, type PlaybackDirection } from '../types';
+
+interface PlaybackControlsProps {
+  playback: PlaybackSettings;
+  // Total animation length in milliseconds with the current settings.
+  duration: number;
+  onChange: (playback: PlaybackSettings) => void;
+}
+
+const DIRECTION_OPTIONS: { value: PlaybackDirection; label: string }[] = [
+  { value: 'forward', label: 'Forward' },
+  { value: 'reverse', label: 'Reverse' },
+  { value: 'boomerang', label: 'Boomerang' },
+];
+
+const SPEED_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({ playback, duration, onChange }) => {
+  const update = (changes: Partial<PlaybackSettings>) => onChange({ ...playback, ...changes });
+  const speedStep = Math.max(0, SPEED_STEPS.indexOf(playback.speed));
+  const overrideCount = Object.keys(playback.frameDelays).length;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-4 bg-gray-900/50 rounded-lg items-end">
+      <div>
+        <label className="text-xs text-gray-400">Playback</label>
+        <div className="flex rounded-lg overflow-hidden border border-gray-600">
+          {DIRECTION_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update({ direction: option.value })}
+              className={`flex-1 px-2 py-1.5 text-sm transition-colors ${playback.direction === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Speed: {playback.speed}×</label>
+        <input type="range" min="0" max={SPEED_STEPS.length - 1} step="1" value={speedStep} onChange={(e) => update({ speed: SPEED_STEPS[parseInt(e.target.value, 10)] })} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+      </div>
+      <div>
+        <label className="text-xs text-gray-400">Hold last frame (ms)</label>
+        <input
+          type="number"
+          min="0"
+          step="100"
+          value={playback.holdLastFrameMs}
+          onChange={(e) => update({ holdLastFrameMs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          className="w-full px-3 py-1.5 bg-gray-900 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+      <div className="sm:col-span-3 flex items-center gap-3 text-sm text-gray-400">
+        <span>Length: {(duration / 1000).toFixed(2)}s</span>
+        {overrideCount > 0 && (
+          <button onClick={() => update({ frameDelays: {} })} className="px-2 py-0.5 bg-gray-700 text-xs text-white rounded hover:bg-gray-600">
+            Reset {overrideCount} custom frame {overrideCount === 1 ? 'delay' : 'delays'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { type DescriptionProviderConfig, type DescriptionProviderKind, type DescriptionTone } from '../types';
+import { DESCRIPTION_PROMPT, DESCRIPTION_TONES, PROMPT_PLACEHOLDERS } from '../services/descriptionProvider';
+import { SAMPLE_DIMENSIONS, SAMPLE_FRAME_COUNTS } from '../services/frameSampler';
+
+interface ProviderSettingsProps {
+  config: DescriptionProviderConfig;
+  onChange: (config: DescriptionProviderConfig) => void;
+}
+
+const PROVIDER_OPTIONS: { kind: DescriptionProviderKind; label: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini' },
+  { kind: 'http', label: 'Local / OpenAI-compatible server' },
+  { kind: 'none', label: 'No AI descriptions' },
+];
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange }) => {
+  const update = (changes: Partial<DescriptionProviderConfig>) => onChange({ ...config, ...changes });
+
+  return (
+    <div className="bg-gray-800/50 p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-700 space-y-4">
+      <h2 className="text-lg font-semibold text-indigo-300">Description Provider</h2>
+      <div className="flex flex-wrap gap-4">
+        {PROVIDER_OPTIONS.map(option => (
+          <label key={option.kind} className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="radio"
+              name="description-provider"
+              checked={config.kind === option.kind}
+              onChange={() => update({ kind: option.kind })}
+              className="accent-indigo-500"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      {config.kind === 'gemini' && (
+        <div>
+          <label className="text-sm">Gemini API key</label>
+          <input type="password" value={config.geminiApiKey ?? ''} onChange={(e) => update({ geminiApiKey: e.target.value })} className={inputClassName} />
+        </div>
+      )}
+
+      {config.kind === 'http' && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="text-sm">Server URL</label>
+            <input type="url" placeholder="http://localhost:11434/v1" value={config.httpEndpoint ?? ''} onChange={(e) => update({ httpEndpoint: e.target.value })} className={inputClassName} />
+          </div>
+          <div>
+            <label className="text-sm">Model</label>
+            <input type="text" placeholder="llava" value={config.httpModel ?? ''} onChange={(e) => update({ httpModel: e.target.value })} className={inputClassName} />
+          </div>
+          <div>
+            <label className="text-sm">API key (optional)</label>
+            <input type="password" value={config.httpApiKey ?? ''} onChange={(e) => update({ httpApiKey: e.target.value })} className={inputClassName} />
+          </div>
+        </div>
+      )}
+
+      {config.kind !== 'none' && (
+        <div className="space-y-4 pt-2 border-t border-gray-700">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm">Language</label>
+              <input type="text" placeholder="English" value={config.language} onChange={(e) => update({ language: e.target.value })} className={inputClassName} />
+            </div>
+            <div>
+              <label className="text-sm">Tone</label>
+              <div className="flex rounded-lg overflow-hidden border border-gray-600">
+                {(Object.keys(DESCRIPTION_TONES) as DescriptionTone[]).map(tone => (
+                  <button
+                    key={tone}
+                    onClick={() => update({ tone })}
+                    className={`flex-1 px-2 py-2 text-sm transition-colors ${config.tone === tone ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                  >
+                    {DESCRIPTION_TONES[tone].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm">Keyframes sent</label>
+              <select value={config.sampleFrameCount} onChange={(e) => update({ sampleFrameCount: parseInt(e.target.value, 10) })} className={inputClassName}>
+                {SAMPLE_FRAME_COUNTS.map(count => <option key={count} value={count}>Up to {count}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm">Keyframe size</label>
+              <select value={config.sampleMaxDimension} onChange={(e) => update({ sampleMaxDimension: parseInt(e.target.value, 10) })} className={inputClassName}>
+                {SAMPLE_DIMENSIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">Keyframes are picked where the picture changes most. Answers for the same keyframes and settings are reused; use Regenerate for a new one.</p>
+          <div>
+            <label className="text-sm">Custom prompt (optional)</label>
+            <textarea
+              rows={3}
+              placeholder={DESCRIPTION_PROMPT}
+              value={config.promptTemplate}
+              onChange={(e) => update({ promptTemplate: e.target.value })}
+              className={inputClassName}
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              {PROMPT_PLACEHOLDERS.join(' and ')} are replaced with the language and tone. The model is always asked for a title, alt text, description, hashtags and file name.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {config.kind === 'none' && (
+        <p className="text-sm text-gray-400">GIFs will be created without an AI description.</p>
+      )}
+    </div>
+  );
+};
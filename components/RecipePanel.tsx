@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { createRecipeLink, parseRecipe, RECIPE_FILE_EXTENSION, serializeRecipe, type EditRecipe } from '../services/editRecipe';
+import { toFileNameStem } from '../services/descriptionProvider';
+
+interface RecipePanelProps {
+  // The segment's current settings as a recipe
+  recipe: EditRecipe;
+  // Whether the segment uses its own prompt rather than the provider settings
+  hasOwnPrompt: boolean;
+  onApply: (recipe: EditRecipe) => void;
+  onClearPrompt: () => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+export const RecipePanel: React.FC<RecipePanelProps> = ({ recipe, hasOwnPrompt, onApply, onClearPrompt }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPasting, setIsPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const json = serializeRecipe(recipe);
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage({ text: `${what} copied.`, isError: false });
+    } catch {
+      setMessage({ text: `Could not copy the ${what.toLowerCase()}.`, isError: true });
+    }
+  };
+
+  const importText = (text: string) => {
+    try {
+      onApply(parseRecipe(text));
+      setMessage({ text: 'Recipe applied. Extract frames to use its frame selection.', isError: false });
+      setIsPasting(false);
+      setPasted('');
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Could not read the recipe.', isError: true });
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importText(await file.text());
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/50 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-300 mr-auto">Edit recipe</span>
+        <button onClick={() => copy(json, 'Recipe')} className={buttonClassName}>Copy JSON</button>
+        <button onClick={() => copy(createRecipeLink(recipe, window.location.href), 'Link')} className={buttonClassName}>Copy link</button>
+        <a
+          href={`data:application/json;charset=utf-8,${encodeURIComponent(json)}`}
+          download={`${toFileNameStem(recipe.name) || 'segment'}${RECIPE_FILE_EXTENSION}`}
+          className={buttonClassName}
+        >
+          Download
+        </a>
+        <button onClick={() => setIsPasting(prev => !prev)} className={buttonClassName}>Paste recipe</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>Load file</button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+      </div>
+      <p className="text-xs text-gray-400">
+        Time range, frame selection, output settings and prompt, to apply to this or another video. Applying a recipe drops the extracted frames.
+        {hasOwnPrompt && (
+          <> This segment uses the prompt from a recipe. <button onClick={onClearPrompt} className="text-indigo-300 hover:text-indigo-200 underline">Use the provider settings</button></>
+        )}
+      </p>
+      {isPasting && (
+        <div className="space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={6}
+            placeholder="Paste a recipe's JSON here"
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button onClick={() => importText(pasted)} disabled={!pasted.trim()} className={buttonClassName}>Apply recipe</button>
+        </div>
+      )}
+      {message && <p className={`text-sm ${message.isError ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { MAX_RENDER_CONCURRENCY, type RenderJob } from '../services/renderQueue';
+import { DownloadIcon, SparklesIcon } from './icons';
+
+interface RenderQueuePanelProps {
+  jobs: RenderJob[];
+  renderedCount: number;
+  getJobLabel: (id: number) => string;
+  concurrency: number;
+  isArchiving: boolean;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRenderAll: () => void;
+  onDownloadAll: () => void;
+  onCancel: (id: number) => void;
+  onCancelAll: () => void;
+  onPrioritize: (id: number) => void;
+}
+
+const buttonClassName = 'flex items-center gap-2 px-4 py-2 bg-gray-700 text-sm text-white rounded-lg hover:bg-gray-600 disabled:bg-gray-700/50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+export const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({
+  jobs,
+  renderedCount,
+  getJobLabel,
+  concurrency,
+  isArchiving,
+  onConcurrencyChange,
+  onRenderAll,
+  onDownloadAll,
+  onCancel,
+  onCancelAll,
+  onPrioritize,
+}) => {
+  // Running jobs first, then the queue in the order it will run.
+  const orderedJobs = [...jobs].sort((a, b) => Number(b.status === 'running') - Number(a.status === 'running') || b.priority - a.priority);
+
+  return (
+    <div className="p-4 bg-gray-800/50 rounded-xl border border-gray-700 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-300 mr-auto">Render queue</span>
+        <label className="text-sm text-gray-400 flex items-center gap-2">
+          At once
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+            className="px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {Array.from({ length: MAX_RENDER_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button onClick={onRenderAll} className={buttonClassName}>
+          <SparklesIcon />
+          Render all
+        </button>
+        <button onClick={onDownloadAll} disabled={renderedCount === 0 || isArchiving} className={buttonClassName}>
+          <DownloadIcon />
+          {isArchiving ? 'Packing...' : `Download all as ZIP (${renderedCount})`}
+        </button>
+      </div>
+
+      {orderedJobs.length > 0 && (
+        <div className="space-y-2">
+          {orderedJobs.map(job => (
+            <div key={job.id} className="flex items-center gap-3 text-sm">
+              <span className="w-40 truncate text-gray-300">{getJobLabel(job.id)}</span>
+              <div className="flex-grow h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-400 transition-all duration-200" style={{ width: `${job.progress * 100}%` }} />
+              </div>
+              <span className="w-20 text-right text-xs text-gray-400">
+                {job.status === 'queued' ? 'Queued' : `${Math.round(job.progress * 100)}%`}
+              </span>
+              {job.status === 'queued' && (
+                <button onClick={() => onPrioritize(job.id)} className="text-xs text-indigo-300 hover:text-indigo-200">Run next</button>
+              )}
+              <button onClick={() => onCancel(job.id)} className="text-xs text-gray-400 hover:text-red-400">Cancel</button>
+            </div>
+          ))}
+          {orderedJobs.length > 1 && (
+            <button onClick={onCancelAll} className="text-xs text-gray-400 hover:text-red-400">Cancel all</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
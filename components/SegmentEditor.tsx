@@ -1,210 +1,238 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { type Segment, type Frame } from '../types';
-import { generateDescriptionForFrames } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { type Frame, type Segment, type PipelineState, type FrameTransform, type ExportFormat, type VideoSource, type FilterPreset, type FrameFilter, type DescriptionStyle } from '../types';
+import { type DescriptionProvider } from '../services/descriptionProvider';
+import { buildFramePlan, estimateGifSize, exceedsSizeLimit, formatFileSize, getOutputFileName, getPlanDuration } from '../services/gifOutput';
+import { EXPORTERS, EXPORT_FORMATS } from '../services/export/exportFormats';
+import { getTransformedSize } from '../services/frameTransform';
+import { EXTRACTION_FPS_OPTIONS, extractFrames, isAbortError } from '../services/frameExtractor';
+import { getSelectedFrames } from '../services/segments';
+import { changeExtractionFps, changeTransform, changeVideo, finishExtraction, matchSourceSize, replaceFrames, revertFrames, startExtraction } from '../services/segmentEditing';
+import { DESCRIPTION_RETRIES, cancelDescription, describeSegment } from '../services/segmentPipeline';
+import { DEFAULT_FRAME_SAMPLING, estimateRequestCost, sampleKeyframes, type RequestCost } from '../services/frameSampler';
+import { type RenderJob } from '../services/renderQueue';
+import { toAppError } from '../services/errors';
+import { applyRecipe, createRecipe, type EditRecipe } from '../services/editRecipe';
+import { OutputSettingsPanel } from './OutputSettingsPanel';
+import { CropOverlay } from './CropOverlay';
+import { TransformControls } from './TransformControls';
+import { LayerEditor } from './LayerEditor';
+import { FilterEditor } from './FilterEditor';
+import { MotionPanel } from './MotionPanel';
+import { RecipePanel } from './RecipePanel';
+import { PlaybackControls } from './PlaybackControls';
+import { Timeline, type TimelineMarker } from './Timeline';
+import { FrameStrip } from './FrameStrip';
+import { FramePreview } from './FramePreview';
+import { ErrorMessage } from './ErrorMessage';
 import { TrashIcon, FilmIcon, ScissorsIcon, SparklesIcon, DownloadIcon } from './icons';
 
-declare const GIF: any;
-
 interface SegmentEditorProps {
-  videoUrl: string;
+  videos: VideoSource[];
   segment: Segment;
-  onUpdate: (segment: Segment) => void;
+  // Ranges of the other segments on the same video
+  markers: TimelineMarker[];
+  descriptionProvider: DescriptionProvider;
+  // The provider settings' language, tone and prompt, recorded in recipes
+  descriptionStyle: DescriptionStyle;
+  filterPresets: FilterPreset[];
+  // Queue entry while this segment is waiting for or being rendered
+  renderJob?: RenderJob;
+  onUpdate: (id: number, changes: Partial<Segment>) => void;
+  onRender: (segment: Segment, exportFormat: ExportFormat) => void;
+  onCancelRender: (id: number) => void;
   onRemove: (id: number) => void;
+  onSaveFilterPreset: (name: string, filters: FrameFilter[]) => void;
+  onDeleteFilterPreset: (id: number) => void;
   canRemove: boolean;
 }
 
-const FRAMES_PER_SECOND = 10;
-
-// Module-level cache for the worker script blob URL to avoid re-fetching
-let workerScriptBlobUrl: string | null = null;
-
-async function getWorkerScriptUrl(): Promise<string> {
-    if (workerScriptBlobUrl) {
-        return workerScriptBlobUrl;
-    }
-    
-    try {
-        const response = await fetch('https://cdn.jsdelivr.net/npm/gif.js@0.2.0/dist/gif.worker.js');
-        if (!response.ok) throw new Error('Network response was not ok.');
-        const scriptText = await response.text();
-        const blob = new Blob([scriptText], { type: 'application/javascript' });
-        workerScriptBlobUrl = URL.createObjectURL(blob);
-        return workerScriptBlobUrl;
-    } catch (e) {
-        console.error("Failed to create worker blob URL, falling back to CDN.", e);
-        // Fallback in case of fetch error, though it might still fail due to CORS.
-        return 'https://cdn.jsdelivr.net/npm/gif.js@0.2.0/dist/gif.worker.js';
-    }
-}
-
+const ESTIMATE_DEBOUNCE_MS = 400;
 
-export const SegmentEditor: React.FC<SegmentEditorProps> = ({ videoUrl, segment, onUpdate, onRemove, canRemove }) => {
+export const SegmentEditor: React.FC<SegmentEditorProps> = ({ videos, segment, markers, descriptionProvider, descriptionStyle, filterPresets, renderJob, onUpdate, onRender, onCancelRender, onRemove, onSaveFilterPreset, onDeleteFilterPreset, canRemove }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
   const [duration, setDuration] = useState(0);
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  const [isEditingCrop, setIsEditingCrop] = useState(false);
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
+  const [extractionProgress, setExtractionProgress] = useState(0);
+  const [requestCost, setRequestCost] = useState<RequestCost | null>(null);
+  const videoUrl = videos.find(video => video.id === segment.videoId)?.url;
   
   useEffect(() => {
-    const url = segment.gifUrl;
+    const url = segment.resultUrl;
     return () => {
         if (url) {
             URL.revokeObjectURL(url);
         }
     };
-  }, [segment.gifUrl]);
+  }, [segment.resultUrl]);
 
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
       setDuration(videoRef.current.duration);
+      const { videoWidth: width, videoHeight: height } = videoRef.current;
+      if (width > 0 && height > 0) {
+        setSourceSize({ width, height });
+        const changes = matchSourceSize(segment, { width, height });
+        if (changes) onUpdate(segment.id, changes);
+      }
        if (segment.timeRange.end === 1) { // Set initial end time if it's default
-         onUpdate({...segment, timeRange: {start: 0, end: Math.min(5, videoRef.current.duration)}});
+         onUpdate(segment.id, { timeRange: { start: 0, end: Math.min(5, videoRef.current.duration) } });
+       } else if (segment.timeRange.end > videoRef.current.duration) { // e.g. a recipe made for a longer video
+         const end = videoRef.current.duration;
+         onUpdate(segment.id, { timeRange: { start: Math.min(segment.timeRange.start, Math.max(0, end - 1)), end } });
        }
     }
   };
 
-  const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>, part: 'start' | 'end') => {
-    const value = parseFloat(e.target.value);
-    const { start, end } = segment.timeRange;
-    if (part === 'start' && value < end) {
-      onUpdate({ ...segment, timeRange: { start: value, end } });
-      if (videoRef.current) videoRef.current.currentTime = value;
-    }
-    if (part === 'end' && value > start) {
-      onUpdate({ ...segment, timeRange: { start, end: value } });
-       if (videoRef.current) videoRef.current.currentTime = value;
-    }
-  };
-
-  const extractFrames = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current) return;
-    onUpdate({ ...segment, status: 'extracting', frames: [], selectedFrameRange: {start: null, end: null}, gifDescription: '' });
-
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
-    if (!context) return;
+  const handleExtractFrames = useCallback(async () => {
+    if (!videoRef.current) return;
+    onUpdate(segment.id, startExtraction(segment));
 
-    const { start, end } = segment.timeRange;
-    const extractedFrames: Frame[] = [];
-    const interval = 1 / FRAMES_PER_SECOND;
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
+    setExtractionProgress(0);
 
-    for (let time = start; time <= end; time += interval) {
-      video.currentTime = time;
-      await new Promise<void>(resolve => {
-        video.onseeked = () => {
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-          context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-          extractedFrames.push({ id: Math.random(), timestamp: time, dataUrl });
-          resolve();
-        };
+    try {
+      const frames = await extractFrames(videoRef.current, {
+        start: segment.timeRange.start,
+        end: segment.timeRange.end,
+        fps: segment.extractionFps,
+        transform: segment.transform,
+        signal: controller.signal,
+        onProgress: setExtractionProgress,
       });
+      onUpdate(segment.id, finishExtraction(segment, frames));
+    } catch (error) {
+      if (isAbortError(error)) {
+        onUpdate(segment.id, { status: 'idle' });
+        return;
+      }
+      console.error("Error extracting frames:", error);
+      onUpdate(segment.id, { status: 'error', error: toAppError(error, "Failed to extract frames.") });
+    } finally {
+      extractionAbortRef.current = null;
     }
-    onUpdate({ ...segment, frames: extractedFrames, status: 'frames_ready' });
   }, [segment, onUpdate]);
+
+  useEffect(() => () => extractionAbortRef.current?.abort(), []);
+
+  const handleMotionApplied = (processed: Frame[]) => onUpdate(segment.id, replaceFrames(segment, processed));
+  const handleMotionReverted = (ids: number[]) => onUpdate(segment.id, revertFrames(segment, ids));
   
-  const handleFrameSelection = (frameId: number) => {
-      const { start, end } = segment.selectedFrameRange;
-      if (start === null) {
-          onUpdate({ ...segment, selectedFrameRange: { start: frameId, end: null } });
-      } else if (end === null) {
-          const startIndex = segment.frames.findIndex(f => f.id === start);
-          const newIndex = segment.frames.findIndex(f => f.id === frameId);
-          if (newIndex < startIndex) {
-               onUpdate({ ...segment, selectedFrameRange: { start: frameId, end: start } });
-          } else {
-               onUpdate({ ...segment, selectedFrameRange: { start: start, end: frameId } });
-          }
-      } else {
-          onUpdate({ ...segment, selectedFrameRange: { start: frameId, end: null } });
-      }
-  };
+  const handleExtractionFpsChange = (extractionFps: number) => onUpdate(segment.id, changeExtractionFps(segment, extractionFps));
 
-  const generateGif = async () => {
-    const { start, end } = segment.selectedFrameRange;
-    if (start === null || end === null) return;
+  const handleVideoChange = (videoId: number) => {
+    extractionAbortRef.current?.abort();
+    onUpdate(segment.id, changeVideo(segment, videoId));
+  };
 
-    onUpdate({ ...segment, status: 'generating', gifUrl: undefined, error: undefined });
+  const recipe = useMemo(() => createRecipe(segment, descriptionStyle), [segment, descriptionStyle]);
 
-    const startIndex = segment.frames.findIndex(f => f.id === start);
-    const endIndex = segment.frames.findIndex(f => f.id === end);
-    const selectedFrames = segment.frames.slice(Math.min(startIndex, endIndex), Math.max(startIndex, endIndex) + 1);
+  // A render of the old frames must not land on the reset segment; the old
+  // result URL is revoked by the effect above once the recipe clears it.
+  const handleApplyRecipe = (applied: EditRecipe) => {
+    extractionAbortRef.current?.abort();
+    if (renderJob) onCancelRender(segment.id);
+    onUpdate(segment.id, applyRecipe(segment, applied));
+  };
 
-    try {
-        const workerScriptUrl = await getWorkerScriptUrl();
+  const transformedSize = sourceSize ? getTransformedSize(sourceSize.width, sourceSize.height, segment.transform) : null;
+  const aspectRatio = transformedSize ? transformedSize.width / transformedSize.height : 16 / 9;
 
-        const gifPromise = new Promise<string>((resolve, reject) => {
-            const gif = new GIF({
-                workers: 2,
-                quality: 10,
-                workerScript: workerScriptUrl,
-            });
+  const handleTransformChange = (transform: FrameTransform) => onUpdate(segment.id, changeTransform(segment, transform, sourceSize));
 
-            const imageLoadPromises = selectedFrames.map(frame => {
-                return new Promise<HTMLImageElement>(resolveImg => {
-                    const img = new Image();
-                    img.onload = () => resolveImg(img);
-                    img.onerror = (err) => reject(new Error(`Failed to load frame image: ${err}`));
-                    img.src = frame.dataUrl;
-                });
-            });
+  const selectedFrames = useMemo(() => getSelectedFrames(segment), [segment.frames, segment.selectedFrameIds]);
 
-            Promise.all(imageLoadPromises).then(images => {
-                images.forEach(img => {
-                    gif.addFrame(img, { delay: 1000 / FRAMES_PER_SECOND });
-                });
+  // A description of other frames must not land on the new ones.
+  const describedFramesRef = useRef(selectedFrames);
+  useEffect(() => {
+    if (describedFramesRef.current === selectedFrames) return;
+    describedFramesRef.current = selectedFrames;
+    if (cancelDescription(segment.id)) {
+      onUpdate(segment.id, { description: { status: 'idle', attempt: 0 } });
+    }
+  }, [selectedFrames]);
+  const baseFrameDelay = 1000 / Math.min(segment.output.fps, segment.extractionFps);
 
-                gif.on('finished', (blob: Blob) => {
-                    resolve(URL.createObjectURL(blob));
-                });
-                
-                gif.render();
-            }).catch(reject);
-        });
-        
-        const descriptionPromise = generateDescriptionForFrames(selectedFrames.map(f => f.dataUrl));
+  // Only GIF output is estimated; other formats compress too differently.
+  useEffect(() => {
+    if (selectedFrames.length === 0 || segment.exportFormat !== 'gif') {
+      setEstimatedSize(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      estimateGifSize(selectedFrames, segment)
+        .then(size => { if (!cancelled) setEstimatedSize(size); })
+        .catch(error => console.error("Failed to estimate GIF size:", error));
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedFrames, segment.extractionFps, segment.output, segment.filters, segment.layers, segment.playback, segment.exportFormat]);
 
-        const [gifUrl, description] = await Promise.all([gifPromise, descriptionPromise]);
-        onUpdate({ 
-            ...segment, 
-            gifDescription: description, 
-            gifUrl,
-            status: 'done' 
-        });
-    } catch (error) {
-        console.error("Error generating GIF or description:", error);
-        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-        onUpdate({ 
-            ...segment, 
-            status: 'error', 
-            error: `Failed to generate GIF. ${errorMessage}`
-        });
+  // What the description request will send, shown before it is made.
+  useEffect(() => {
+    if (selectedFrames.length === 0 || descriptionProvider.kind === 'none') {
+      setRequestCost(null);
+      return;
     }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      sampleKeyframes(selectedFrames, descriptionProvider.sampling ?? DEFAULT_FRAME_SAMPLING)
+        .then(samples => { if (!cancelled) setRequestCost(estimateRequestCost(samples)); })
+        .catch(error => console.error("Failed to estimate the description request:", error));
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedFrames, descriptionProvider]);
+
+  const encodeOutput = (exportFormat: ExportFormat = segment.exportFormat) => onRender(segment, exportFormat);
+
+  // Swaps in the unoptimized copy; the old result URL is revoked by the effect above.
+  const handleUseUnoptimized = () => {
+    const blob = segment.unoptimizedBlob;
+    if (!blob) return;
+    onUpdate(segment.id, { resultBlob: blob, resultUrl: URL.createObjectURL(blob), resultSize: blob.size, unoptimizedBlob: undefined });
   };
-  
-  const getFrameClassName = (frameId: number) => {
-      const { start, end } = segment.selectedFrameRange;
-      if(start === null) return 'opacity-70 hover:opacity-100';
-      
-      const frameIndex = segment.frames.findIndex(f => f.id === frameId);
-      
-      if(end === null) {
-          return frameId === start ? 'ring-4 ring-cyan-400 opacity-100' : 'opacity-70 hover:opacity-100';
-      }
 
-      const startIndex = segment.frames.findIndex(f => f.id === start);
-      const endIndex = segment.frames.findIndex(f => f.id === end);
-      
-      if (frameIndex >= Math.min(startIndex, endIndex) && frameIndex <= Math.max(startIndex, endIndex)) {
-          return 'ring-2 ring-indigo-500 opacity-100';
-      }
-      return 'opacity-50 hover:opacity-80';
+  const describeFrames = (skipCache = false) => describeSegment(segment, descriptionProvider, changes => onUpdate(segment.id, changes), { skipCache });
+
+  const generateOutput = () => {
+    if (selectedFrames.length === 0) return;
+    encodeOutput();
+    describeFrames();
   };
 
+  const isBusy = (state: PipelineState) => state.status === 'running' || state.status === 'retrying';
+
   return (
     <div className="bg-gray-800/50 p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-700 space-y-6">
-      <div className="flex justify-between items-start">
-        <h2 className="text-xl font-semibold text-indigo-300">GIF Segment</h2>
+      <div className="flex justify-between items-start gap-4">
+        <input
+          type="text"
+          value={segment.title}
+          placeholder="GIF Segment"
+          onChange={(e) => onUpdate(segment.id, { title: e.target.value })}
+          className="flex-grow min-w-0 bg-transparent text-xl font-semibold text-indigo-300 placeholder-indigo-300 border-b border-transparent hover:border-gray-600 focus:border-indigo-500 focus:outline-none"
+          aria-label="Segment title"
+        />
+        {videos.length > 1 && (
+          <select
+            value={segment.videoId}
+            onChange={(e) => handleVideoChange(parseInt(e.target.value, 10))}
+            disabled={segment.status === 'extracting' || isBusy(segment.encoding)}
+            className="max-w-[12rem] px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Source video"
+          >
+            {videos.map(video => <option key={video.id} value={video.id}>{video.file.name}</option>)}
+          </select>
+        )}
         {canRemove && (
           <button onClick={() => onRemove(segment.id)} className="text-gray-400 hover:text-red-400 transition-colors p-1 rounded-full bg-gray-700/50 hover:bg-gray-700">
             <TrashIcon />
@@ -212,7 +240,7 @@ export const SegmentEditor: React.FC<SegmentEditorProps> = ({ videoUrl, segment,
         )}
       </div>
       
-      <div className="max-w-2xl mx-auto">
+      <div className="max-w-2xl mx-auto relative">
         <video
           ref={videoRef}
           src={videoUrl}
@@ -221,75 +249,264 @@ export const SegmentEditor: React.FC<SegmentEditorProps> = ({ videoUrl, segment,
           controls
           muted
         />
+        {isEditingCrop && (
+          <CropOverlay crop={segment.transform.crop} onChange={(crop) => handleTransformChange({ ...segment.transform, crop })} />
+        )}
       </div>
-      <canvas ref={canvasRef} className="hidden" />
 
       {/* Step 1: Select Time Range */}
       <div className="space-y-4">
         <h3 className="font-medium flex items-center gap-2 text-gray-300"><ScissorsIcon />Step 1: Select Time Range</h3>
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-center">
-            <div>
-                <label className="text-sm">Start: {segment.timeRange.start.toFixed(2)}s</label>
-                <input type="range" min="0" max={duration} step="0.01" value={segment.timeRange.start} onChange={(e) => handleRangeChange(e, 'start')} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
-            </div>
-            <div>
-                <label className="text-sm">End: {segment.timeRange.end.toFixed(2)}s</label>
-                <input type="range" min="0" max={duration} step="0.01" value={segment.timeRange.end} onChange={(e) => handleRangeChange(e, 'end')} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-400" />
-            </div>
+        <Timeline
+            videoRef={videoRef}
+            videoUrl={videoUrl}
+            duration={duration}
+            range={segment.timeRange}
+            frameStep={1 / segment.extractionFps}
+            markers={markers}
+            onChange={(timeRange) => onUpdate(segment.id, { timeRange })}
+        />
+        <TransformControls
+            transform={segment.transform}
+            isEditingCrop={isEditingCrop}
+            outputSize={transformedSize}
+            onToggleCropEditing={() => setIsEditingCrop(prev => !prev)}
+            onChange={handleTransformChange}
+        />
+        {segment.frames.length > 0 && segment.status === 'frames_ready' && (
+            <p className="text-xs text-gray-400">Changes to crop, rotation or scale apply the next time frames are extracted.</p>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm flex items-center gap-2">
+            Extract at
+            <select
+              value={segment.extractionFps}
+              onChange={(e) => handleExtractionFpsChange(parseInt(e.target.value, 10))}
+              disabled={segment.status === 'extracting'}
+              className="px-2 py-1.5 bg-gray-900 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {EXTRACTION_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+            </select>
+          </label>
+          <button onClick={handleExtractFrames} disabled={segment.status === 'extracting'} className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-cyan-600 text-white rounded-lg hover:bg-cyan-500 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed">
+            {segment.status === 'extracting' ? `Extracting... ${Math.round(extractionProgress * 100)}%` : 'Extract Frames'} <FilmIcon />
+          </button>
+          {segment.status === 'extracting' && (
+            <button onClick={() => extractionAbortRef.current?.abort()} className="px-4 py-2.5 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+              Cancel
+            </button>
+          )}
         </div>
-        <button onClick={extractFrames} disabled={segment.status === 'extracting'} className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-cyan-600 text-white rounded-lg hover:bg-cyan-500 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed">
-          {segment.status === 'extracting' ? 'Extracting...' : 'Extract Frames'} <FilmIcon />
-        </button>
+        {segment.status === 'extracting' && (
+          <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-400 transition-all duration-200" style={{ width: `${extractionProgress * 100}%` }} />
+          </div>
+        )}
       </div>
 
+      <RecipePanel
+        recipe={recipe}
+        hasOwnPrompt={segment.descriptionStyle !== null}
+        onApply={handleApplyRecipe}
+        onClearPrompt={() => onUpdate(segment.id, { descriptionStyle: null })}
+      />
+
       {/* Step 2: Select Frames */}
-      {['extracting', 'frames_ready', 'generating', 'done', 'error'].includes(segment.status) && segment.frames.length > 0 && (
+      {segment.frames.length > 0 && (
           <div className="space-y-4">
-              <h3 className="font-medium flex items-center gap-2 text-gray-300"><FilmIcon />Step 2: Select Frame Range for GIF</h3>
-              <div className="flex overflow-x-auto space-x-2 p-2 bg-gray-900/50 rounded-lg">
-                  {segment.frames.map((frame) => (
-                      <img
-                          key={frame.id}
-                          src={frame.dataUrl}
-                          alt={`Frame at ${frame.timestamp.toFixed(2)}s`}
-                          onClick={() => handleFrameSelection(frame.id)}
-                          className={`h-24 rounded-md cursor-pointer transition-all duration-200 ${getFrameClassName(frame.id)}`}
-                      />
-                  ))}
+              <h3 className="font-medium flex items-center gap-2 text-gray-300"><FilmIcon />Step 2: Select and Edit Frames</h3>
+              <FrameStrip
+                  frames={segment.frames}
+                  selectedFrameIds={segment.selectedFrameIds}
+                  playback={segment.playback}
+                  filters={segment.filters}
+                  baseFrameDelay={baseFrameDelay}
+                  onChange={(changes) => onUpdate(segment.id, changes)}
+              />
+              <MotionPanel
+                  frames={selectedFrames}
+                  settings={segment.motion}
+                  onChange={(motion) => onUpdate(segment.id, { motion })}
+                  onApply={handleMotionApplied}
+                  onRevert={handleMotionReverted}
+              />
+              <FramePreview frames={selectedFrames} renderSettings={segment} />
+              <PlaybackControls
+                  playback={segment.playback}
+                  duration={getPlanDuration(buildFramePlan(selectedFrames, segment))}
+                  onChange={(playback) => onUpdate(segment.id, { playback })}
+              />
+              <FilterEditor
+                  filters={segment.filters}
+                  presets={filterPresets}
+                  onChange={(filters) => onUpdate(segment.id, { filters })}
+                  onSavePreset={onSaveFilterPreset}
+                  onDeletePreset={onDeleteFilterPreset}
+              />
+              <LayerEditor
+                  layers={segment.layers}
+                  frameCount={selectedFrames.length || segment.frames.length}
+                  description={segment.description.status === 'done' ? segment.gifMetadata?.description ?? '' : ''}
+                  onChange={(layers) => onUpdate(segment.id, { layers })}
+              />
+              <OutputSettingsPanel
+                  settings={segment.output}
+                  aspectRatio={aspectRatio}
+                  maxFps={segment.extractionFps}
+                  estimatedSize={estimatedSize}
+                  exportFormat={segment.exportFormat}
+                  onChange={(output) => onUpdate(segment.id, { output })}
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                  <select
+                      value={segment.exportFormat}
+                      onChange={(e) => onUpdate(segment.id, { exportFormat: e.target.value as ExportFormat })}
+                      className="px-2 py-2.5 bg-gray-900 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      aria-label="Export format"
+                  >
+                      {EXPORT_FORMATS.map(format => (
+                          <option key={format} value={format} disabled={!EXPORTERS[format].isSupported()}>{EXPORTERS[format].label}</option>
+                      ))}
+                  </select>
+                  <button onClick={generateOutput} disabled={selectedFrames.length === 0 || isBusy(segment.encoding)} className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                    {isBusy(segment.encoding) ? 'Generating...' : `Create ${EXPORTERS[segment.exportFormat].label}!`} <SparklesIcon />
+                  </button>
+                  {requestCost && (
+                      <span className="text-xs text-gray-400" title="Estimated size of the AI description request">
+                          AI request: {requestCost.frameCount} {requestCost.frameCount === 1 ? 'frame' : 'frames'}, {formatFileSize(requestCost.bytes)}, ~{requestCost.tokens.toLocaleString()} tokens
+                      </span>
+                  )}
               </div>
-               <button onClick={generateGif} disabled={segment.selectedFrameRange.start === null || segment.selectedFrameRange.end === null || segment.status === 'generating'} className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed">
-                 {segment.status === 'generating' ? 'Generating...' : 'Create GIF!'} <SparklesIcon />
-               </button>
           </div>
       )}
       
       {/* Step 3: Result */}
-      {segment.status === 'generating' && <div className="text-center p-4">Generating your GIF and description with AI...</div>}
-      {segment.status === 'done' && (
+      {segment.encoding.status === 'running' && (
+          <div className="p-4 space-y-2 max-w-md mx-auto text-center">
+              <p>
+                  {renderJob?.status === 'queued'
+                      ? `Waiting to render your ${EXPORTERS[segment.exportFormat].label}...`
+                      : `Generating your ${EXPORTERS[segment.exportFormat].label}... ${Math.round((renderJob?.progress ?? 0) * 100)}%`}
+              </p>
+              <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-400 transition-all duration-200" style={{ width: `${(renderJob?.progress ?? 0) * 100}%` }} />
+              </div>
+              <button onClick={() => onCancelRender(segment.id)} className="px-4 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors">
+                  Cancel
+              </button>
+          </div>
+      )}
+      {segment.encoding.status === 'error' && (
+          <div className="text-center p-4 bg-red-900/20 rounded-lg space-y-2">
+              {segment.encoding.error && <ErrorMessage error={segment.encoding.error} />}
+              <button onClick={() => encodeOutput()} className="px-4 py-1.5 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors">
+                  Retry
+              </button>
+          </div>
+      )}
+      {(segment.encoding.status === 'done' || segment.description.status !== 'idle') && (
           <div className="space-y-4">
-              <h3 className="font-medium flex items-center gap-2 text-gray-300"><SparklesIcon />Step 3: Your GIF is Ready!</h3>
+              <h3 className="font-medium flex items-center gap-2 text-gray-300"><SparklesIcon />{segment.encoding.status === 'done' ? `Step 3: Your ${EXPORTERS[segment.resultFormat ?? segment.exportFormat].label} is Ready!` : 'Step 3: Result'}</h3>
               <div className="flex flex-col md:flex-row gap-4 items-start">
-                  {segment.gifUrl && (
-                      <div className="flex-shrink-0 relative group">
-                          <img src={segment.gifUrl} alt="Generated GIF" className="max-w-xs w-full rounded-lg shadow-lg" />
-                          <a 
-                              href={segment.gifUrl} 
-                              download={`video-to-gif-${segment.id}.gif`}
-                              className="absolute bottom-2 right-2 flex items-center gap-2 px-3 py-1.5 bg-gray-900/80 text-white rounded-md hover:bg-black/80 transition-all duration-300 backdrop-blur-sm opacity-0 group-hover:opacity-100 focus:opacity-100"
-                              aria-label="Download GIF"
-                          >
-                              <DownloadIcon />
-                              <span>Download</span>
-                          </a>
+                  {segment.resultUrl && segment.resultFormat && (
+                      <div className="flex-shrink-0 space-y-2">
+                          <div className="relative">
+                              {EXPORTERS[segment.resultFormat].preview === 'image' && (
+                                  <img src={segment.resultUrl} alt={segment.gifMetadata?.altText || 'Generated animation'} className="max-w-xs w-full rounded-lg shadow-lg" />
+                              )}
+                              {EXPORTERS[segment.resultFormat].preview === 'video' && (
+                                  <video src={segment.resultUrl} className="max-w-xs w-full rounded-lg shadow-lg" autoPlay loop muted playsInline />
+                              )}
+                              {EXPORTERS[segment.resultFormat].preview === 'none' && (
+                                  <div className="w-64 p-6 text-center text-sm text-gray-400 bg-gray-900/50 rounded-lg">{EXPORTERS[segment.resultFormat].label} ready</div>
+                              )}
+                              {segment.resultSize !== undefined && (
+                                  <span className="absolute top-2 left-2 px-2 py-0.5 bg-gray-900/80 text-xs text-gray-300 rounded-md">{formatFileSize(segment.resultSize)}</span>
+                              )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                              <select
+                                  value={segment.resultFormat}
+                                  onChange={(e) => encodeOutput(e.target.value as ExportFormat)}
+                                  className="flex-grow px-2 py-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                  aria-label="Export format"
+                              >
+                                  {EXPORT_FORMATS.map(format => (
+                                      <option key={format} value={format} disabled={!EXPORTERS[format].isSupported()}>{EXPORTERS[format].label}</option>
+                                  ))}
+                              </select>
+                              <a
+                                  href={segment.resultUrl}
+                                  download={getOutputFileName(segment.id, { exportFormat: segment.resultFormat }, segment.gifMetadata?.fileName)}
+                                  className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-500 transition-colors"
+                                  aria-label={`Download ${EXPORTERS[segment.resultFormat].label}`}
+                              >
+                                  <DownloadIcon />
+                                  <span>Download</span>
+                              </a>
+                          </div>
+                          {segment.resultSize !== undefined && exceedsSizeLimit(segment.resultSize, segment.output) && (
+                              <p className="max-w-xs text-xs text-amber-400">
+                                  Over the {segment.output.maxFileSizeKb} KB limit even after scaling down. Lower the frame rate or select fewer frames and render again.
+                              </p>
+                          )}
+                          {segment.unoptimizedBlob && segment.resultSize !== undefined && (
+                              <div className="p-2 bg-gray-900/50 rounded-md text-xs text-gray-400 space-y-2">
+                                  <p>
+                                      Optimized {formatFileSize(segment.resultSize)} · unoptimized {formatFileSize(segment.unoptimizedBlob.size)}
+                                      {' '}({Math.round((1 - segment.resultSize / segment.unoptimizedBlob.size) * 100)}% smaller)
+                                  </p>
+                                  <div className="flex gap-2">
+                                      <button onClick={() => onUpdate(segment.id, { unoptimizedBlob: undefined })} className="px-2 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors">
+                                          Keep optimized only
+                                      </button>
+                                      <button onClick={handleUseUnoptimized} className="px-2 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors">
+                                          Use unoptimized
+                                      </button>
+                                  </div>
+                              </div>
+                          )}
+                      </div>
+                  )}
+                  {segment.description.status !== 'idle' && (
+                      <div className="flex-grow bg-gray-700/50 p-4 rounded-lg border-l-4 border-indigo-400 space-y-3">
+                          {segment.description.status === 'running' && <p className="text-gray-400">Writing a description with AI...</p>}
+                          {segment.description.status === 'retrying' && (
+                              <p className="text-gray-400">The AI service is busy, retrying (attempt {segment.description.attempt} of {DESCRIPTION_RETRIES + 1})...</p>
+                          )}
+                          {segment.description.status === 'done' && segment.gifMetadata && (
+                              <div className="space-y-2">
+                                  {segment.gifMetadata.title && <p className="font-semibold text-gray-100">{segment.gifMetadata.title}</p>}
+                                  <p className="text-gray-300 italic">{segment.gifMetadata.description}</p>
+                                  {segment.gifMetadata.altText && (
+                                      <p className="text-sm text-gray-400"><span className="text-gray-500">Alt text:</span> {segment.gifMetadata.altText}</p>
+                                  )}
+                                  {segment.gifMetadata.hashtags.length > 0 && (
+                                      <div className="flex flex-wrap gap-1.5">
+                                          {segment.gifMetadata.hashtags.map((tag, i) => (
+                                              <span key={i} className="px-2 py-0.5 bg-gray-800 text-xs text-indigo-300 rounded-full">#{tag}</span>
+                                          ))}
+                                      </div>
+                                  )}
+                                  {segment.gifMetadata.title && segment.gifMetadata.title !== segment.title && (
+                                      <button onClick={() => onUpdate(segment.id, { title: segment.gifMetadata!.title })} className="text-xs text-indigo-300 hover:text-indigo-200">
+                                          Use as segment title
+                                      </button>
+                                  )}
+                              </div>
+                          )}
+                          {segment.description.status === 'error' && segment.description.error && <ErrorMessage error={segment.description.error} />}
+                          {(segment.description.status === 'done' || segment.description.status === 'error') && descriptionProvider.kind !== 'none' && (
+                              <button onClick={() => describeFrames(segment.description.status === 'done')} className="px-4 py-1.5 bg-gray-700 text-white text-sm rounded-md hover:bg-gray-600 transition-colors">
+                                  {segment.description.status === 'error' ? 'Retry description' : 'Regenerate description'}
+                              </button>
+                          )}
                       </div>
                   )}
-                  <div className="flex-grow bg-gray-700/50 p-4 rounded-lg italic border-l-4 border-indigo-400">
-                      <p className="text-gray-300">{segment.gifDescription}</p>
-                  </div>
               </div>
           </div>
       )}
-      {segment.status === 'error' && <p className="text-red-400 text-center p-4 bg-red-900/20 rounded-lg">{segment.error}</p>}
+      {segment.status === 'error' && segment.error && <ErrorMessage error={segment.error} className="text-center p-4 bg-red-900/20 rounded-lg" />}
     </div>
   );
 };
\ No newline at end of file
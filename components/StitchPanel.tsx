@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { type PipelineState, type Segment, type VideoSource } from '../types';
+import { getSegmentLabel, getSelectedFrames } from '../services/segments';
+import { formatFileSize } from '../services/gifOutput';
+import { type RenderJob } from '../services/renderQueue';
+import { DownloadIcon, ScissorsIcon } from './icons';
+import { ErrorMessage } from './ErrorMessage';
+
+export interface StitchResult {
+  url: string;
+  blob: Blob;
+  // False when the file is still over the first segment's size limit
+  fitsSizeLimit: boolean;
+}
+
+interface StitchPanelProps {
+  segments: Segment[];
+  videos: VideoSource[];
+  state: PipelineState;
+  renderJob?: RenderJob;
+  result: StitchResult | null;
+  // Segment ids in playback order
+  onStitch: (segmentIds: number[]) => void;
+  onCancel: () => void;
+}
+
+export const STITCH_FILE_NAME = 'video-to-gif-stitched.gif';
+
+export const StitchPanel: React.FC<StitchPanelProps> = ({ segments, videos, state, renderJob, result, onStitch, onCancel }) => {
+  // Click order is playback order.
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const eligible = segments.filter(segment => getSelectedFrames(segment).length > 0);
+  const order = selectedIds.filter(id => eligible.some(segment => segment.id === id));
+
+  const toggle = (id: number) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const getVideoName = (segment: Segment) => videos.find(video => video.id === segment.videoId)?.file.name ?? '';
+
+  if (eligible.length < 2) return null;
+
+  return (
+    <div className="p-4 bg-gray-800/50 rounded-xl border border-gray-700 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-300 flex items-center gap-2 mr-auto"><ScissorsIcon />Stitch segments into one GIF</span>
+        {state.status === 'running' ? (
+          <button onClick={onCancel} className="px-4 py-2 bg-gray-700 text-sm text-white rounded-lg hover:bg-gray-600 transition-colors">
+            {renderJob?.status === 'queued' ? 'Queued' : `Stitching... ${Math.round((renderJob?.progress ?? 0) * 100)}%`} (cancel)
+          </button>
+        ) : (
+          <button
+            onClick={() => onStitch(order)}
+            disabled={order.length < 2}
+            className="px-4 py-2 bg-indigo-600 text-sm text-white rounded-lg hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Stitch {order.length || ''} segments
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">Pick segments in the order they should play. Each keeps its timing and captions; the first one's output settings are used.</p>
+      <div className="flex flex-wrap gap-2">
+        {eligible.map(segment => {
+          const position = order.indexOf(segment.id);
+          return (
+            <button
+              key={segment.id}
+              onClick={() => toggle(segment.id)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm border transition-colors ${position >= 0 ? 'border-indigo-400 bg-indigo-900/40 text-white' : 'border-gray-600 text-gray-300 hover:border-gray-400'}`}
+              title={getVideoName(segment)}
+            >
+              {position >= 0 && <span className="w-5 h-5 flex items-center justify-center rounded-full bg-indigo-500 text-xs">{position + 1}</span>}
+              {getSegmentLabel(segment, segments.indexOf(segment))}
+            </button>
+          );
+        })}
+      </div>
+      {state.status === 'error' && state.error && <ErrorMessage error={state.error} />}
+      {result && (
+        <div className="flex items-end gap-3">
+          <img src={result.url} alt="Stitched animation" className="max-w-xs w-full rounded-lg shadow-lg" />
+          <div className="space-y-2">
+            <span className="block text-xs text-gray-400">{formatFileSize(result.blob.size)}</span>
+            {!result.fitsSizeLimit && (
+              <span className="block text-xs text-amber-400">Still over the size limit at the smallest size tried.</span>
+            )}
+            <a
+              href={result.url}
+              download={STITCH_FILE_NAME}
+              className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-500 transition-colors"
+            >
+              <DownloadIcon />
+              <span>Download</span>
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
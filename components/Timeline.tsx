@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type Segment } from '../types';
+import { captureFilmstrip } from '../services/filmstrip';
+import { isAbortError } from '../services/frameExtractor';
+
+type TimeRange = Segment['timeRange'];
+
+/** Another segment's range, drawn above the filmstrip for reference. */
+export interface TimelineMarker {
+  id: number;
+  label: string;
+  range: TimeRange;
+}
+
+interface TimelineProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  videoUrl?: string;
+  duration: number;
+  range: TimeRange;
+  // Seconds moved by an arrow key: one extracted frame
+  frameStep: number;
+  markers: TimelineMarker[];
+  onChange: (range: TimeRange) => void;
+}
+
+type DragTarget = 'start' | 'end' | 'playhead';
+
+const FILMSTRIP_FRAMES = 24;
+const ZOOM_LEVELS = [1, 2, 4, 8, 16];
+// The handles stop this far apart instead of crossing.
+const MIN_RANGE_DURATION = 0.1;
+const LARGE_STEP_SECONDS = 1;
+const TICK_INTERVALS = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+const MAX_TICKS_PER_ZOOM = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+const formatTick = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}` : `${seconds}s`;
+
+// Filmstrip track with draggable in/out handles. Clicking or dragging on the
+// track moves the playhead; once focused, the keyboard does the rest.
+export const Timeline: React.FC<TimelineProps> = ({ videoRef, videoUrl, duration, range, frameStep, markers, onChange }) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [zoom, setZoom] = useState(1);
+  const [playhead, setPlayhead] = useState(0);
+  const [isLooping, setIsLooping] = useState(false);
+  const [drag, setDrag] = useState<DragTarget | null>(null);
+
+  useEffect(() => {
+    if (!videoUrl || duration <= 0) return;
+    const controller = new AbortController();
+    setThumbnails([]);
+    captureFilmstrip(videoUrl, FILMSTRIP_FRAMES, controller.signal)
+      .then(setThumbnails)
+      .catch(error => {
+        if (!isAbortError(error)) console.error("Error capturing filmstrip:", error);
+      });
+    return () => controller.abort();
+  }, [videoUrl, duration]);
+
+  // Follows the video while it plays and keeps loop preview inside the range.
+  // The element loops natively too, so reaching the end of the file never pauses it.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let animationFrame = 0;
+    const tick = () => {
+      if (isLooping && (video.currentTime < range.start || video.currentTime >= range.end)) {
+        video.currentTime = range.start;
+      }
+      setPlayhead(video.currentTime);
+      if (!video.paused) animationFrame = requestAnimationFrame(tick);
+    };
+    const onPlay = () => {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = requestAnimationFrame(tick);
+    };
+    const onPause = () => setIsLooping(false);
+    const onSeeked = () => setPlayhead(video.currentTime);
+
+    video.loop = isLooping;
+    video.addEventListener('play', onPlay);
+    video.addEventListener('pause', onPause);
+    video.addEventListener('seeked', onSeeked);
+    if (!video.paused) onPlay();
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      video.loop = false;
+      video.removeEventListener('play', onPlay);
+      video.removeEventListener('pause', onPause);
+      video.removeEventListener('seeked', onSeeked);
+    };
+  }, [videoRef, videoUrl, isLooping, range.start, range.end]);
+
+  // Keeps the playhead in view when zooming.
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    const video = videoRef.current;
+    if (!scroller || !video || duration <= 0) return;
+    scroller.scrollLeft = (video.currentTime / duration) * scroller.scrollWidth - scroller.clientWidth / 2;
+  }, [zoom, duration, videoRef]);
+
+  const toPercent = (seconds: number) => `${(clamp(seconds, 0, duration) / duration) * 100}%`;
+
+  const timeAt = (clientX: number) => {
+    const bounds = trackRef.current!.getBoundingClientRect();
+    return clamp((clientX - bounds.left) / bounds.width, 0, 1) * duration;
+  };
+
+  const seek = (seconds: number) => {
+    const time = clamp(seconds, 0, duration);
+    if (videoRef.current) videoRef.current.currentTime = time;
+    setPlayhead(time);
+  };
+
+  const setStart = (seconds: number) => {
+    const start = roundTime(clamp(seconds, 0, range.end - MIN_RANGE_DURATION));
+    onChange({ start, end: range.end });
+    seek(start);
+  };
+
+  const setEnd = (seconds: number) => {
+    const end = roundTime(clamp(seconds, range.start + MIN_RANGE_DURATION, duration));
+    onChange({ start: range.start, end });
+    seek(end);
+  };
+
+  // Setting a point past the other one pushes that one along.
+  const setInAtPlayhead = () => {
+    const start = roundTime(clamp(playhead, 0, duration - MIN_RANGE_DURATION));
+    onChange({ start, end: Math.max(range.end, roundTime(start + MIN_RANGE_DURATION)) });
+  };
+
+  const setOutAtPlayhead = () => {
+    const end = roundTime(clamp(playhead, MIN_RANGE_DURATION, duration));
+    onChange({ start: Math.min(range.start, roundTime(end - MIN_RANGE_DURATION)), end });
+  };
+
+  const toggleLoop = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isLooping) {
+      video.pause();
+      return;
+    }
+    setIsLooping(true);
+    video.currentTime = range.start;
+    video.play().catch(() => setIsLooping(false));
+  };
+
+  const changeZoom = (direction: 1 | -1) => {
+    const index = ZOOM_LEVELS.indexOf(zoom) + direction;
+    if (index >= 0 && index < ZOOM_LEVELS.length) setZoom(ZOOM_LEVELS[index]);
+  };
+
+  const beginDrag = (event: React.PointerEvent, target: DragTarget) => {
+    trackRef.current!.setPointerCapture(event.pointerId);
+    setDrag(target);
+  };
+
+  const handleTrackPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    scrollerRef.current?.focus({ preventScroll: true });
+    beginDrag(event, 'playhead');
+    seek(timeAt(event.clientX));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const time = timeAt(event.clientX);
+    if (drag === 'start') setStart(time);
+    else if (drag === 'end') setEnd(time);
+    else seek(time);
+  };
+
+  const handleHandleKeyDown = (event: React.KeyboardEvent, target: 'start' | 'end') => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    event.preventDefault();
+    event.stopPropagation();
+    const step = (event.shiftKey ? LARGE_STEP_SECONDS : frameStep) * (event.key === 'ArrowLeft' ? -1 : 1);
+    if (target === 'start') setStart(range.start + step);
+    else setEnd(range.end + step);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    const step = event.shiftKey ? LARGE_STEP_SECONDS : frameStep;
+    switch (event.key) {
+      case 'ArrowLeft': seek(playhead - step); break;
+      case 'ArrowRight': seek(playhead + step); break;
+      case 'Home': seek(range.start); break;
+      case 'End': seek(range.end); break;
+      case 'i': case 'I': setInAtPlayhead(); break;
+      case 'o': case 'O': setOutAtPlayhead(); break;
+      case 'l': case 'L': toggleLoop(); break;
+      case '+': case '=': changeZoom(1); break;
+      case '-': changeZoom(-1); break;
+      default: return;
+    }
+    event.preventDefault();
+  };
+
+  if (duration <= 0) {
+    return <div className="h-24 rounded-lg bg-gray-900/50 flex items-center justify-center text-sm text-gray-500">Loading video...</div>;
+  }
+
+  const tickInterval = TICK_INTERVALS.find(interval => duration / interval <= MAX_TICKS_PER_ZOOM * zoom) ?? TICK_INTERVALS[TICK_INTERVALS.length - 1];
+  const ticks = Array.from({ length: Math.floor(duration / tickInterval) + 1 }, (_, i) => i * tickInterval);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <span>In: <span className="text-indigo-300">{range.start.toFixed(2)}s</span></span>
+        <span>Out: <span className="text-cyan-300">{range.end.toFixed(2)}s</span></span>
+        <span className="text-gray-400">Length: {(range.end - range.start).toFixed(2)}s</span>
+        <button
+          onClick={toggleLoop}
+          className={`px-3 py-1 rounded-md text-sm transition-colors ${isLooping ? 'bg-indigo-600 text-white hover:bg-indigo-500' : 'bg-gray-700 text-white hover:bg-gray-600'}`}
+        >
+          {isLooping ? 'Stop loop' : 'Loop range'}
+        </button>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={() => changeZoom(-1)} disabled={zoom === ZOOM_LEVELS[0]} className="w-7 h-7 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed" aria-label="Zoom out">−</button>
+          <span className="w-10 text-center text-xs text-gray-400">{zoom}×</span>
+          <button onClick={() => changeZoom(1)} disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]} className="w-7 h-7 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed" aria-label="Zoom in">+</button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="overflow-x-auto rounded-lg bg-gray-900/50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        aria-label="Timeline"
+      >
+        <div
+          ref={trackRef}
+          onPointerDown={handleTrackPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDrag(null)}
+          className="relative select-none touch-none cursor-pointer pb-1"
+          style={{ width: `${zoom * 100}%` }}
+        >
+          <div className="relative h-5 text-[10px] text-gray-500">
+            {ticks.map(tick => (
+              <span key={tick} className="absolute top-0 h-full border-l border-gray-700 pl-1" style={{ left: toPercent(tick) }}>{formatTick(tick)}</span>
+            ))}
+          </div>
+          <div className="relative h-2 mb-1">
+            {markers.map(marker => (
+              <div
+                key={marker.id}
+                className="absolute h-full rounded-sm bg-gray-500/70"
+                style={{ left: toPercent(marker.range.start), width: toPercent(marker.range.end - marker.range.start) }}
+                title={`${marker.label}: ${marker.range.start.toFixed(2)}s – ${marker.range.end.toFixed(2)}s`}
+              />
+            ))}
+          </div>
+          <div className="relative h-12 flex bg-black">
+            {thumbnails.map((src, i) => (
+              <img key={i} src={src} alt="" draggable={false} className="h-full flex-1 min-w-0 object-cover" />
+            ))}
+            <div className="absolute inset-y-0 left-0 bg-black/60" style={{ width: toPercent(range.start) }} />
+            <div className="absolute inset-y-0 right-0 bg-black/60" style={{ left: toPercent(range.end) }} />
+            <div
+              className="absolute inset-y-0 border-y-2 border-indigo-400 pointer-events-none"
+              style={{ left: toPercent(range.start), width: toPercent(range.end - range.start) }}
+            />
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-label="In point"
+              aria-valuemin={0}
+              aria-valuemax={duration}
+              aria-valuenow={range.start}
+              onPointerDown={(e) => { e.stopPropagation(); beginDrag(e, 'start'); }}
+              onKeyDown={(e) => handleHandleKeyDown(e, 'start')}
+              className="absolute inset-y-0 w-3 -ml-3 bg-indigo-500 rounded-l cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-white"
+              style={{ left: toPercent(range.start) }}
+            />
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-label="Out point"
+              aria-valuemin={0}
+              aria-valuemax={duration}
+              aria-valuenow={range.end}
+              onPointerDown={(e) => { e.stopPropagation(); beginDrag(e, 'end'); }}
+              onKeyDown={(e) => handleHandleKeyDown(e, 'end')}
+              className="absolute inset-y-0 w-3 bg-cyan-400 rounded-r cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-white"
+              style={{ left: toPercent(range.end) }}
+            />
+          </div>
+          <div className="absolute top-0 bottom-0 w-px bg-red-400 pointer-events-none" style={{ left: toPercent(playhead) }} />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Click the timeline, then use ←/→ to step one frame (Shift: 1s), I/O to set the in/out point at the playhead, L to loop the range and +/− to zoom. Grey bars are the other segments.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { type FrameTransform, type Rotation } from '../types';
+
+interface TransformControlsProps {
+  transform: FrameTransform;
+  isEditingCrop: boolean;
+  outputSize: { width: number; height: number } | null;
+  onToggleCropEditing: () => void;
+  onChange: (transform: FrameTransform) => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors';
+const activeButtonClassName = 'px-3 py-1.5 bg-cyan-600 text-sm text-white rounded-md hover:bg-cyan-500 transition-colors';
+
+export const TransformControls: React.FC<TransformControlsProps> = ({ transform, isEditingCrop, outputSize, onToggleCropEditing, onChange }) => {
+  const update = (changes: Partial<FrameTransform>) => onChange({ ...transform, ...changes });
+  const rotate = (degrees: number) => update({ rotation: ((transform.rotation + degrees + 360) % 360) as Rotation });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-900/50 rounded-lg">
+      <button onClick={onToggleCropEditing} className={isEditingCrop ? activeButtonClassName : buttonClassName}>
+        {isEditingCrop ? 'Done cropping' : 'Crop'}
+      </button>
+      {transform.crop && (
+        <button onClick={() => update({ crop: null })} className={buttonClassName}>Reset crop</button>
+      )}
+      <button onClick={() => rotate(-90)} className={buttonClassName} aria-label="Rotate left">⟲ 90°</button>
+      <button onClick={() => rotate(90)} className={buttonClassName} aria-label="Rotate right">⟳ 90°</button>
+      <button onClick={() => update({ flipHorizontal: !transform.flipHorizontal })} className={transform.flipHorizontal ? activeButtonClassName : buttonClassName}>
+        Flip H
+      </button>
+      <button onClick={() => update({ flipVertical: !transform.flipVertical })} className={transform.flipVertical ? activeButtonClassName : buttonClassName}>
+        Flip V
+      </button>
+      <div className="flex items-center gap-2 ml-auto">
+        <label className="text-sm">Scale: {Math.round(transform.scale * 100)}%</label>
+        <input type="range" min="0.1" max="1" step="0.05" value={transform.scale} onChange={(e) => update({ scale: parseFloat(e.target.value) })} className="w-32 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-400" />
+        {outputSize && <span className="text-xs text-gray-400">{outputSize.width}×{outputSize.height}px</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { type Segment, type VideoSource } from '../types';
+import { formatAppError } from '../services/errors';
+import { formatTimestamp } from '../services/segmentSuggestions';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface VideoLibraryProps {
+  videos: VideoSource[];
+  segments: Segment[];
+  // Video used for new and auto-suggested segments
+  activeVideoId: number | null;
+  onSelect: (id: number) => void;
+  onAddVideos: (files: File[]) => void;
+  onRemove: (id: number) => void;
+}
+
+export const VideoLibrary: React.FC<VideoLibraryProps> = ({ videos, segments, activeVideoId, onSelect, onAddVideos, onRemove }) => {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) {
+      onAddVideos(files);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-800/50 rounded-xl border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-300">Video library</span>
+        <label className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors cursor-pointer">
+          <PlusIcon />
+          Add videos
+          <input type="file" accept="video/*" multiple className="hidden" onChange={handleFileChange} />
+        </label>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {videos.map(video => {
+          const segmentCount = segments.filter(segment => segment.videoId === video.id).length;
+          const isActive = video.id === activeVideoId;
+          return (
+            <div
+              key={video.id}
+              className={`flex-shrink-0 w-44 rounded-lg border-2 bg-gray-900/50 overflow-hidden transition-colors ${isActive ? 'border-indigo-500' : 'border-gray-700 hover:border-gray-500'}`}
+            >
+              <button onClick={() => onSelect(video.id)} className="block w-full text-left" aria-pressed={isActive}>
+                <video src={video.url} preload="metadata" muted className="w-full h-24 object-cover bg-black" />
+                <div className="px-2 pt-1">
+                  <p className="text-sm text-gray-200 truncate" title={video.file.name}>{video.file.name}</p>
+                  {video.probe && (
+                    <p className="text-xs text-gray-400" title={video.probe.warnings.join('\n') || undefined}>
+                      {video.probe.width}×{video.probe.height}{video.probe.duration > 0 && ` · ${formatTimestamp(video.probe.duration)}`}
+                      {video.probe.warnings.length > 0 && <span className="text-amber-400"> · {video.probe.warnings.length === 1 ? '1 warning' : `${video.probe.warnings.length} warnings`}</span>}
+                    </p>
+                  )}
+                  {video.probeError && (
+                    <p className="text-xs text-red-400" title={`${formatAppError(video.probeError)} ${video.probeError.action}`}>Can't be used</p>
+                  )}
+                </div>
+              </button>
+              <div className="flex items-center justify-between px-2 pb-1">
+                <span className="text-xs text-gray-500">{segmentCount} {segmentCount === 1 ? 'segment' : 'segments'}</span>
+                <button
+                  onClick={() => onRemove(video.id)}
+                  disabled={segmentCount > 0 || videos.length === 1}
+                  className="text-gray-400 hover:text-red-400 disabled:text-gray-700 disabled:cursor-not-allowed transition-colors p-1"
+                  title={segmentCount > 0 ? 'Remove the segments that use this video first' : 'Remove video'}
+                  aria-label={`Remove ${video.file.name}`}
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
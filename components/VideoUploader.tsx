@@ -1,49 +1,104 @@
 
 import React, { useCallback } from 'react';
-import { UploadIcon } from './icons';
+import { UploadIcon, TrashIcon } from './icons';
+import { type ProjectSummary } from '../services/projectStore';
+import { PROJECT_ARCHIVE_EXTENSION } from '../services/projectArchive';
 
 interface VideoUploaderProps {
-  onVideoUpload: (file: File) => void;
+  onVideoUpload: (files: File[]) => void;
+  recentProjects: ProjectSummary[];
+  onOpenProject: (id: number) => void;
+  onDeleteProject: (id: number) => void;
+  onImportProject: (file: File) => void;
 }
 
-export const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoUpload }) => {
+const formatEditedAt = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoUpload, recentProjects, onOpenProject, onDeleteProject, onImportProject }) => {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onVideoUpload(file);
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      onVideoUpload(files);
     }
   };
 
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
-    const file = event.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('video/')) {
-      onVideoUpload(file);
+    // Files without a type (some .mkv and .mov) are let through; probing decides.
+    const files = Array.from<File>(event.dataTransfer.files).filter(file => !file.type || file.type.startsWith('video/'));
+    if (files.length > 0) {
+      onVideoUpload(files);
     }
   }, [onVideoUpload]);
 
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      onImportProject(file);
+    }
+  };
+
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
   };
 
   return (
-    <div className="flex items-center justify-center w-full">
-        <div 
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            className="flex flex-col items-center justify-center w-full max-w-2xl h-64 border-2 border-gray-600 border-dashed rounded-lg cursor-pointer bg-gray-800/50 hover:bg-gray-800 transition-colors"
-        >
-            <label htmlFor="dropzone-file" className="flex flex-col items-center justify-center w-full h-full cursor-pointer">
-                <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <UploadIcon />
-                    <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">Click to upload</span> or drag and drop</p>
-                    <p className="text-xs text-gray-500">Any common video format</p>
-                </div>
-                <input id="dropzone-file" type="file" className="hidden" accept="video/*" onChange={handleFileChange} />
-            </label>
-        </div>
+    <div className="space-y-8">
+      <div className="flex items-center justify-center w-full">
+          <div 
+              onDrop={handleDrop}
+              onDragOver={handleDragOver}
+              className="flex flex-col items-center justify-center w-full max-w-2xl h-64 border-2 border-gray-600 border-dashed rounded-lg cursor-pointer bg-gray-800/50 hover:bg-gray-800 transition-colors"
+          >
+              <label htmlFor="dropzone-file" className="flex flex-col items-center justify-center w-full h-full cursor-pointer">
+                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                      <UploadIcon />
+                      <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">Click to upload</span> or drag and drop</p>
+                      <p className="text-xs text-gray-500">Any common video format, one or several clips</p>
+                  </div>
+                  <input id="dropzone-file" type="file" className="hidden" accept="video/*" multiple onChange={handleFileChange} />
+              </label>
+          </div>
+      </div>
+
+      <div className="w-full max-w-2xl mx-auto">
+          <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-300">Recent projects</h2>
+              <label className="px-3 py-1.5 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors cursor-pointer">
+                  Import project
+                  <input type="file" className="hidden" accept={`${PROJECT_ARCHIVE_EXTENSION},.zip,application/zip`} onChange={handleImportChange} />
+              </label>
+          </div>
+          {recentProjects.length === 0 ? (
+              <p className="text-sm text-gray-500">Projects are saved in this browser automatically and will be listed here.</p>
+          ) : (
+              <ul className="space-y-2">
+                  {recentProjects.map(project => (
+                      <li key={project.id} className="flex items-center gap-3 p-2 bg-gray-800/50 rounded-lg border border-gray-700 hover:border-indigo-500 transition-colors">
+                          <button onClick={() => onOpenProject(project.id)} className="flex items-center gap-3 flex-grow text-left min-w-0">
+                              {project.thumbnailUrl ? (
+                                  <img src={project.thumbnailUrl} alt="" className="h-12 w-20 object-cover rounded-sm flex-shrink-0" />
+                              ) : (
+                                  <div className="h-12 w-20 bg-gray-700 rounded-sm flex-shrink-0" />
+                              )}
+                              <div className="min-w-0">
+                                  <p className="font-medium text-gray-200 truncate">{project.name}</p>
+                                  <p className="text-xs text-gray-500">
+                                      {project.segmentCount} {project.segmentCount === 1 ? 'segment' : 'segments'} · edited {formatEditedAt(project.updatedAt)}
+                                  </p>
+                              </div>
+                          </button>
+                          <button onClick={() => onDeleteProject(project.id)} className="text-gray-400 hover:text-red-400 transition-colors p-1" aria-label={`Delete ${project.name}`}>
+                              <TrashIcon />
+                          </button>
+                      </li>
+                  ))}
+              </ul>
+          )}
+      </div>
     </div>
   );
 };
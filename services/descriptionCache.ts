@@ -0,0 +1,45 @@
+import { type GifMetadata } from '../types';
+import { type DescriptionProvider } from './descriptionProvider';
+import { crc32 } from './export/crc32';
+
+const MAX_CACHE_ENTRIES = 100;
+
+// Shared by every provider instance so that changing settings back and forth
+// still hits earlier answers. Map order doubles as least-recently-used order.
+const cache = new Map<string, GifMetadata>();
+
+// crypto.subtle only exists in secure contexts, so a page served over plain
+// http, e.g. on a LAN address, falls back to a CRC of the request plus its length.
+async function hashRequest(scope: string, frameDataUrls: string[]): Promise<string> {
+  const data = new TextEncoder().encode([scope, ...frameDataUrls].join('\n'));
+  if (!globalThis.crypto?.subtle) {
+    return `crc32-${crc32(data).toString(16)}-${data.length}`;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Answers repeated requests for the same frames from memory. `scope` must
+ * change whenever the answer would (model, prompt, language, ...).
+ */
+export function withResponseCache(provider: DescriptionProvider, scope: string): DescriptionProvider {
+  return {
+    ...provider,
+    generateDescription: async (frameDataUrls, options) => {
+      const key = await hashRequest(options?.style ? `${scope}\n${JSON.stringify(options.style)}` : scope, frameDataUrls);
+      const cached = cache.get(key);
+      if (cached && !options?.skipCache) {
+        cache.delete(key);
+        cache.set(key, cached);
+        return cached;
+      }
+      const metadata = await provider.generateDescription(frameDataUrls, options);
+      cache.set(key, metadata);
+      if (cache.size > MAX_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return metadata;
+    },
+  };
+}
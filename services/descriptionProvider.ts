@@ -0,0 +1,138 @@
+import { type DescriptionProviderKind, type DescriptionStyle, type DescriptionTone, type GifMetadata } from '../types';
+import { type FrameSamplingOptions } from './frameSampler';
+
+// Placeholders filled in by buildDescriptionPrompt, also in custom templates.
+export const PROMPT_PLACEHOLDERS = ['{language}', '{tone}'];
+
+export const DESCRIPTION_PROMPT = "These are sequential frames from a video. Describe the short action sequence depicted in these frames as if you were describing an animated GIF. Be concise, vivid, and focus on the main action. Start your description directly, without any preamble like 'This GIF shows...'. {tone} Write all text in {language}.";
+
+// Appended to every prompt, custom ones included, so the reply can be parsed.
+const METADATA_INSTRUCTIONS = "Reply with a JSON object with these fields: \"title\" (at most six words), \"altText\" (one sentence for screen readers), \"description\" (the description), \"hashtags\" (three to six keywords without '#'), \"fileName\" (a short lowercase file name with hyphens, no extension).";
+
+export const DESCRIPTION_TONES: Record<DescriptionTone, { label: string; instruction: string }> = {
+  neutral: { label: 'Neutral', instruction: 'Keep the tone neutral and factual.' },
+  funny: { label: 'Funny', instruction: 'Be playful and witty, like the caption of a popular meme.' },
+  technical: { label: 'Technical', instruction: 'Be precise and technical: name the objects, motions and camera moves exactly.' },
+};
+
+export const DEFAULT_DESCRIPTION_STYLE: DescriptionStyle = { language: 'English', tone: 'neutral', promptTemplate: '' };
+
+// JSON Schema of GifMetadata, for APIs that accept one with the request.
+export const GIF_METADATA_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    altText: { type: 'string' },
+    description: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } },
+    fileName: { type: 'string' },
+  },
+  required: ['title', 'altText', 'description', 'hashtags', 'fileName'],
+};
+
+export function buildDescriptionPrompt(style: DescriptionStyle): string {
+  const template = style.promptTemplate.trim() || DESCRIPTION_PROMPT;
+  const prompt = template
+    .replaceAll('{language}', style.language.trim() || DEFAULT_DESCRIPTION_STYLE.language)
+    .replaceAll('{tone}', DESCRIPTION_TONES[style.tone].instruction);
+  return `${prompt}\n\n${METADATA_INSTRUCTIONS}`;
+}
+
+export const MOMENT_RANKING_PROMPT = "Each image below is a still from a candidate moment of the same video, labelled with its index. Rate how well each moment would work as a short, shareable animated GIF (0 = dull, 10 = perfect), and give each a short, catchy title of at most six words. Rate every moment.";
+
+// Thrown by providers; `transient` marks failures worth retrying (rate limits, 5xx, network).
+export class DescriptionError extends Error {
+  constructor(message: string, public readonly transient: boolean) {
+    super(message);
+    this.name = 'DescriptionError';
+  }
+}
+
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** Lowercase, hyphenated and safe to use as a file name on any system. */
+export function toFileNameStem(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * Reads the model's reply into GifMetadata. Models that ignore the requested
+ * format still get their text used as the description.
+ */
+export function parseGifMetadata(text: string): GifMetadata {
+  const json = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    // Plain text; handled below.
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    if (!json) throw new DescriptionError("The AI model returned an empty description.", false);
+    return { title: '', altText: '', description: json, hashtags: [], fileName: '' };
+  }
+  const fields: Partial<Record<keyof GifMetadata, unknown>> = parsed;
+  const asText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  return {
+    title: asText(fields.title),
+    altText: asText(fields.altText),
+    description: asText(fields.description),
+    hashtags: Array.isArray(fields.hashtags)
+      ? fields.hashtags.map(asText).map(tag => tag.replace(/^#+/, '')).filter(Boolean)
+      : [],
+    fileName: toFileNameStem(asText(fields.fileName)),
+  };
+}
+
+export interface MomentRanking {
+  // Index into the list of moments that was ranked
+  index: number;
+  score: number;
+  title: string;
+}
+
+export interface DescriptionRequestOptions {
+  // Ask the model again even if the same frames were described before
+  skipCache?: boolean;
+  // Replaces the provider's own language, tone and prompt for this request
+  style?: DescriptionStyle;
+}
+
+export interface DescriptionProvider {
+  kind: DescriptionProviderKind;
+  // How selected frames are reduced before they are sent; DEFAULT_FRAME_SAMPLING when unset.
+  sampling?: FrameSamplingOptions;
+  generateDescription: (frameDataUrls: string[], options?: DescriptionRequestOptions) => Promise<GifMetadata>;
+  // Optional: rates candidate moments, one preview image each, by how GIF-worthy they are.
+  rankMoments?: (previewDataUrls: string[]) => Promise<MomentRanking[]>;
+}
+
+// Used when no AI backend is configured: GIFs are still produced, just without a description.
+export const noDescriptionProvider: DescriptionProvider = {
+  kind: 'none',
+  generateDescription: async () => ({ title: '', altText: '', description: '', hashtags: [], fileName: '' }),
+};
+
+// Answers instantly with text made from the request, for scripted runs that
+// should not call a model, e.g. checking a pipeline end to end.
+export const mockDescriptionProvider: DescriptionProvider = {
+  kind: 'mock',
+  generateDescription: async (frameDataUrls, options) => {
+    const { language, tone } = options?.style ?? DEFAULT_DESCRIPTION_STYLE;
+    return {
+      title: `Mock clip of ${frameDataUrls.length} keyframes`,
+      altText: `An animation summarized from ${frameDataUrls.length} keyframes.`,
+      description: `Placeholder description in ${language} with a ${tone} tone.`,
+      hashtags: ['mock', 'gif'],
+      fileName: `mock-clip-${frameDataUrls.length}`,
+    };
+  },
+};
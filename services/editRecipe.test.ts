@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { createRecipeLink, migrateRecipe, parseRecipe, readRecipeFromHash, RECIPE_TEMPLATES, serializeRecipe, validateRecipe } from './editRecipe';
+
+const [reactionGif] = RECIPE_TEMPLATES;
+
+// The template as plain JSON, as a pasted or loaded recipe arrives
+const asJson = (): Record<string, any> => JSON.parse(serializeRecipe(reactionGif));
+
+describe('validateRecipe', () => {
+  it('accepts a recipe it wrote', () => {
+    expect(parseRecipe(serializeRecipe(reactionGif))).toEqual(reactionGif);
+  });
+
+  it('rejects what is not a recipe', () => {
+    expect(() => validateRecipe({ name: 'x' })).toThrow('not a Video to GIF edit recipe');
+    expect(() => validateRecipe([])).toThrow('not a Video to GIF edit recipe');
+    expect(() => parseRecipe('{')).toThrow('not valid JSON');
+  });
+
+  it('rejects missing and future versions', () => {
+    expect(() => validateRecipe({ ...asJson(), version: 0 })).toThrow('no valid version');
+    expect(() => validateRecipe({ ...asJson(), version: 1.5 })).toThrow('no valid version');
+    expect(() => validateRecipe({ ...asJson(), version: 2 })).toThrow('newer version');
+  });
+
+  it('lists every problem', () => {
+    const recipe = asJson();
+    recipe.timeRange = { start: 4, end: 2 };
+    recipe.output.quality = 99;
+    recipe.output.dither = 'sparkles';
+    expect(() => validateRecipe(recipe)).toThrow(
+      'The recipe is invalid: timeRange.end must be after timeRange.start. output.quality must be a whole number between 1 and 30. output.dither must be one of none, floyd-steinberg, ordered.',
+    );
+  });
+
+  it('drops unknown fields', () => {
+    const recipe = asJson();
+    recipe.extra = true;
+    recipe.timeRange.extra = true;
+    recipe.output.extra = true;
+    recipe.output.optimization.extra = true;
+    recipe.prompt = { language: 'German', tone: 'neutral', promptTemplate: '', extra: true };
+    const validated = validateRecipe(recipe);
+    expect(validated).not.toHaveProperty('extra');
+    expect(validated.timeRange).not.toHaveProperty('extra');
+    expect(validated.output).not.toHaveProperty('extra');
+    expect(validated.output.optimization).not.toHaveProperty('extra');
+    expect(validated.prompt).toEqual({ language: 'German', tone: 'neutral', promptTemplate: '' });
+  });
+
+  it('fills in output settings missing from the recipe', () => {
+    const recipe = asJson();
+    delete recipe.output.maxFileSizeKb;
+    delete recipe.output.optimization;
+    const validated = validateRecipe(recipe);
+    expect(validated.output.maxFileSizeKb).toBeNull();
+    expect(validated.output.optimization.enabled).toBe(false);
+  });
+});
+
+describe('migrateRecipe', () => {
+  const migrations = {
+    1: (recipe: Record<string, unknown>) => ({ ...recipe, renamed: recipe.old, old: undefined }),
+    2: (recipe: Record<string, unknown>) => ({ ...recipe, added: true }),
+  };
+
+  it('runs each step from the recipe version to the target', () => {
+    expect(migrateRecipe({ version: 1, old: 'x' }, 1, migrations, 3)).toEqual({ version: 3, renamed: 'x', old: undefined, added: true });
+    expect(migrateRecipe({ version: 2 }, 2, migrations, 3)).toEqual({ version: 3, added: true });
+  });
+
+  it('leaves a current recipe alone', () => {
+    const recipe = { version: 3 };
+    expect(migrateRecipe(recipe, 3, migrations, 3)).toBe(recipe);
+  });
+
+  it('fails when a step is missing', () => {
+    expect(() => migrateRecipe({ version: 1 }, 1, { 2: migrations[2] }, 3)).toThrow('version 1 can no longer be read');
+  });
+});
+
+describe('recipe links', () => {
+  it('round-trips a recipe through the URL hash', () => {
+    const recipe = { ...reactionGif, name: 'Ünïcödé 🎉 +/=' };
+    const url = new URL(createRecipeLink(recipe, 'https://example.com/app?x=1'));
+    expect(url.search).toBe('?x=1');
+    expect(url.hash).toMatch(/^#recipe=[\w-]+$/);
+    expect(readRecipeFromHash(url.hash)).toEqual(recipe);
+  });
+
+  it('is null without a recipe in the hash', () => {
+    expect(readRecipeFromHash('')).toBeNull();
+    expect(readRecipeFromHash('#other=1')).toBeNull();
+  });
+
+  it('rejects a damaged link', () => {
+    expect(() => readRecipeFromHash('#recipe=%%%')).toThrow('damaged');
+    expect(() => readRecipeFromHash('#recipe=bm90IGpzb24')).toThrow('not valid JSON');
+  });
+});
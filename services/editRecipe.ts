@@ -0,0 +1,290 @@
+import { type DescriptionStyle, type DitherMode, type ExportFormat, type GifOptimization, type LoopMode, type OutputSettings, type PaletteMode, type Segment } from '../types';
+import { DESCRIPTION_TONES } from './descriptionProvider';
+import { EXPORT_FORMATS } from './export/exportFormats';
+import { EXTRACTION_FPS_OPTIONS } from './frameExtractor';
+import { DEFAULT_OUTPUT_SETTINGS } from './gifOutput';
+import { createSegment } from './segments';
+
+const RECIPE_FORMAT = 'video-to-gif-recipe';
+const RECIPE_VERSION = 1;
+const HASH_PARAMETER = 'recipe';
+
+export const RECIPE_FILE_EXTENSION = '.gifrecipe.json';
+
+/**
+ * The settings that reproduce a segment's output on the same or another
+ * video, without its frames or results. Serialized as versioned JSON.
+ */
+export interface EditRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  name: string;
+  timeRange: { start: number; end: number };
+  extractionFps: number;
+  // Strip positions of the selected frames after extraction; null selects none
+  frameSelection: number[] | null;
+  output: OutputSettings;
+  exportFormat: ExportFormat;
+  // Language, tone and prompt for the description; null uses the provider settings
+  prompt: DescriptionStyle | null;
+}
+
+export type RecipeMigration = (recipe: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] turns a version n recipe into a version n + 1 one. Add a step
+// here whenever the shape changes, and bump RECIPE_VERSION.
+const MIGRATIONS: Record<number, RecipeMigration> = {};
+
+const DITHER_MODES: DitherMode[] = ['none', 'floyd-steinberg', 'ordered'];
+const LOOP_MODES: LoopMode[] = ['infinite', 'once', 'count'];
+const PALETTE_MODES: PaletteMode[] = ['per-frame', 'global'];
+
+/** Captures a segment's edit recipe. `fallbackPrompt` is recorded when the segment has no prompt of its own. */
+export function createRecipe(segment: Segment, fallbackPrompt: DescriptionStyle | null = null): EditRecipe {
+  const selected = new Set(segment.selectedFrameIds);
+  const positions = segment.frames.flatMap((frame, i) => selected.has(frame.id) ? [i] : []);
+  return {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    name: segment.title,
+    timeRange: { ...segment.timeRange },
+    extractionFps: segment.extractionFps,
+    frameSelection: positions.length > 0 ? positions : segment.pendingFrameSelection,
+    output: segment.output,
+    exportFormat: segment.exportFormat,
+    prompt: segment.descriptionStyle ?? fallbackPrompt,
+  };
+}
+
+/**
+ * Runs the migration steps from `version` up to `targetVersion`, stamping
+ * each step's version on the result.
+ */
+export function migrateRecipe(
+  recipe: Record<string, unknown>,
+  version: number,
+  migrations: Record<number, RecipeMigration> = MIGRATIONS,
+  targetVersion = RECIPE_VERSION,
+): Record<string, unknown> {
+  for (; version < targetVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`Recipes of version ${version} can no longer be read.`);
+    recipe = { ...migrate(recipe), version: version + 1 };
+  }
+  return recipe;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks parsed JSON against the current recipe schema after migrating it,
+ * and throws an error listing every problem found. Output fields added after
+ * the recipe was written get their defaults.
+ */
+export function validateRecipe(data: unknown): EditRecipe {
+  if (!isRecord(data) || data.format !== RECIPE_FORMAT) {
+    throw new Error('This is not a Video to GIF edit recipe.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The recipe has no valid version number.');
+  }
+  if (data.version > RECIPE_VERSION) {
+    throw new Error('This recipe was saved by a newer version of the app.');
+  }
+  const recipe = migrateRecipe(data, data.version);
+
+  const problems: string[] = [];
+  const checkNumber = (value: unknown, path: string, { min = -Infinity, max = Infinity, integer = false } = {}) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      problems.push(`${path} must be ${integer ? 'a whole number' : 'a number'} ${range}.`);
+    }
+  };
+  const checkOneOf = (value: unknown, path: string, allowed: readonly unknown[]) => {
+    if (!allowed.includes(value)) problems.push(`${path} must be one of ${allowed.join(', ')}.`);
+  };
+
+  const name = recipe.name ?? '';
+  if (typeof name !== 'string') problems.push('name must be text.');
+
+  const timeRange = isRecord(recipe.timeRange) ? recipe.timeRange : {};
+  checkNumber(timeRange.start, 'timeRange.start', { min: 0 });
+  checkNumber(timeRange.end, 'timeRange.end', { min: 0 });
+  if (typeof timeRange.start === 'number' && typeof timeRange.end === 'number' && timeRange.end <= timeRange.start) {
+    problems.push('timeRange.end must be after timeRange.start.');
+  }
+  checkOneOf(recipe.extractionFps, 'extractionFps', EXTRACTION_FPS_OPTIONS);
+
+  const selection = recipe.frameSelection ?? null;
+  if (selection !== null && (!Array.isArray(selection) || !selection.every(i => Number.isInteger(i) && i >= 0))) {
+    problems.push('frameSelection must be null or a list of frame positions.');
+  }
+
+  const output = { ...DEFAULT_OUTPUT_SETTINGS, ...(isRecord(recipe.output) ? recipe.output : {}) };
+  checkNumber(output.width, 'output.width', { min: 1, integer: true });
+  checkNumber(output.height, 'output.height', { min: 1, integer: true });
+  if (typeof output.lockAspect !== 'boolean') problems.push('output.lockAspect must be true or false.');
+  checkNumber(output.fps, 'output.fps', { min: 1, max: 60, integer: true });
+  checkNumber(output.quality, 'output.quality', { min: 1, max: 30, integer: true });
+  checkOneOf(output.dither, 'output.dither', DITHER_MODES);
+  checkOneOf(output.loop, 'output.loop', LOOP_MODES);
+  checkNumber(output.loopCount, 'output.loopCount', { min: 2, integer: true });
+  if (output.maxFileSizeKb !== null) checkNumber(output.maxFileSizeKb, 'output.maxFileSizeKb', { min: 1 });
+  const optimization = { ...DEFAULT_OUTPUT_SETTINGS.optimization, ...(isRecord(output.optimization) ? output.optimization : {}) };
+  if (typeof optimization.enabled !== 'boolean') problems.push('output.optimization.enabled must be true or false.');
+  checkNumber(optimization.tolerance, 'output.optimization.tolerance', { min: 0, max: 255 });
+  if (typeof optimization.deltaFrames !== 'boolean') problems.push('output.optimization.deltaFrames must be true or false.');
+  checkOneOf(optimization.palette, 'output.optimization.palette', PALETTE_MODES);
+
+  checkOneOf(recipe.exportFormat, 'exportFormat', EXPORT_FORMATS);
+
+  const prompt = recipe.prompt ?? null;
+  if (prompt !== null) {
+    if (!isRecord(prompt) || typeof prompt.language !== 'string' || typeof prompt.promptTemplate !== 'string') {
+      problems.push('prompt must be null or have a language and a promptTemplate.');
+    } else {
+      checkOneOf(prompt.tone, 'prompt.tone', Object.keys(DESCRIPTION_TONES));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`The recipe is invalid: ${problems.join(' ')}`);
+  }
+  // Checked above; only the known fields are kept.
+  const { start, end } = timeRange as EditRecipe['timeRange'];
+  const checkedOutput = output as OutputSettings;
+  const checkedOptimization = optimization as GifOptimization;
+  const style = prompt as DescriptionStyle | null;
+  return {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    name: name as string,
+    timeRange: { start, end },
+    extractionFps: recipe.extractionFps as number,
+    frameSelection: selection as number[] | null,
+    output: {
+      width: checkedOutput.width,
+      height: checkedOutput.height,
+      lockAspect: checkedOutput.lockAspect,
+      fps: checkedOutput.fps,
+      quality: checkedOutput.quality,
+      dither: checkedOutput.dither,
+      loop: checkedOutput.loop,
+      loopCount: checkedOutput.loopCount,
+      maxFileSizeKb: checkedOutput.maxFileSizeKb,
+      optimization: {
+        enabled: checkedOptimization.enabled,
+        tolerance: checkedOptimization.tolerance,
+        deltaFrames: checkedOptimization.deltaFrames,
+        palette: checkedOptimization.palette,
+      },
+    },
+    exportFormat: recipe.exportFormat as ExportFormat,
+    prompt: style && { language: style.language, tone: style.tone, promptTemplate: style.promptTemplate },
+  };
+}
+
+export function parseRecipe(text: string): EditRecipe {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The recipe is not valid JSON.');
+  }
+  return validateRecipe(data);
+}
+
+export const serializeRecipe = (recipe: EditRecipe) => JSON.stringify(recipe, null, 2);
+
+// Recipes travel in the URL hash as base64url-encoded UTF-8 JSON.
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/** A link to the current page that carries the recipe in its hash. */
+export function createRecipeLink(recipe: EditRecipe, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.hash = `${HASH_PARAMETER}=${toBase64Url(JSON.stringify(recipe))}`;
+  return url.toString();
+}
+
+/** The recipe in a URL hash written by `createRecipeLink`, or null when there is none. */
+export function readRecipeFromHash(hash: string): EditRecipe | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAMETER);
+  if (!encoded) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    throw new Error('The recipe link is damaged.');
+  }
+  return parseRecipe(text);
+}
+
+/**
+ * The changes that apply a recipe to a segment. Frames and results belong to
+ * the old settings and are dropped; the recipe's frame selection is picked
+ * once frames are extracted again.
+ */
+export function applyRecipe(segment: Segment, recipe: EditRecipe): Partial<Segment> {
+  const defaults = createSegment(segment.videoId);
+  return {
+    title: recipe.name,
+    status: 'idle',
+    timeRange: { ...recipe.timeRange },
+    extractionFps: recipe.extractionFps,
+    frames: [],
+    selectedFrameIds: [],
+    pendingFrameSelection: recipe.frameSelection,
+    gifMetadata: null,
+    output: { ...recipe.output, fps: Math.min(recipe.output.fps, recipe.extractionFps) },
+    exportFormat: recipe.exportFormat,
+    descriptionStyle: recipe.prompt,
+    resultUrl: undefined,
+    resultBlob: undefined,
+    resultSize: undefined,
+    resultFormat: undefined,
+    unoptimizedBlob: undefined,
+    error: undefined,
+    playback: { ...segment.playback, frameDelays: {} },
+    encoding: defaults.encoding,
+    description: defaults.description,
+  };
+}
+
+/** A new segment on `videoId` set up from a recipe or template. */
+export function createSegmentFromRecipe(videoId: number, recipe: EditRecipe): Segment {
+  const segment = createSegment(videoId);
+  return { ...segment, ...applyRecipe(segment, recipe) };
+}
+
+/** Ids of the extracted frames at the recipe's strip positions; positions past the end are skipped. */
+export const resolveFrameSelection = (frames: Segment['frames'], positions: number[]) =>
+  positions.flatMap(i => i < frames.length ? [frames[i].id] : []);
+
+const template = (name: string, duration: number, extractionFps: number, output: Partial<OutputSettings>, exportFormat: ExportFormat = 'gif'): EditRecipe => ({
+  format: RECIPE_FORMAT,
+  version: RECIPE_VERSION,
+  name,
+  timeRange: { start: 0, end: duration },
+  extractionFps,
+  frameSelection: null,
+  output: { ...DEFAULT_OUTPUT_SETTINGS, ...output },
+  exportFormat,
+  prompt: null,
+});
+
+// Starting points offered when a segment is added.
+export const RECIPE_TEMPLATES: EditRecipe[] = [
+  template('Reaction GIF', 3, 15, { width: 360, height: 203, fps: 12, maxFileSizeKb: 2048, optimization: { ...DEFAULT_OUTPUT_SETTINGS.optimization, enabled: true } }),
+  template('Chat sticker', 2, 10, { width: 240, height: 240, lockAspect: false, fps: 10, maxFileSizeKb: 500, optimization: { enabled: true, tolerance: 8, deltaFrames: true, palette: 'global' } }),
+  template('High quality loop', 4, 25, { width: 640, height: 360, fps: 20, quality: 1, dither: 'floyd-steinberg' }),
+  template('Social video', 6, 30, { width: 720, height: 405, fps: 30 }, 'webm'),
+];
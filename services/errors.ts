@@ -0,0 +1,41 @@
+import { type AppError, type ErrorKind } from '../types';
+import { DescriptionError } from './descriptionProvider';
+
+export const ERROR_ACTIONS: Record<ErrorKind, string> = {
+  'unsupported-format': 'Convert the video to MP4 (H.264) or WebM and add it again.',
+  'decode-failed': 'The file may be damaged or use an unusual codec. Re-encode it, or try another browser.',
+  'timeout': 'Try a shorter time range or a lower extraction rate. Videos with few keyframes seek slowly; re-encoding them helps.',
+  'canvas-unavailable': 'The browser ran out of graphics resources. Close other tabs and reload the page.',
+  'out-of-memory': 'Lower the output size or frame rate, or select fewer frames.',
+  'provider': 'Check the description provider settings, such as the API key or server URL.',
+  'provider-busy': 'The description service is busy. Try again in a moment.',
+  'network': 'Check your internet connection and try again.',
+  'unknown': 'Try again. If it keeps failing, reload the page.',
+};
+
+// Thrown by media processing with a kind the UI can act on.
+export class ProcessingError extends Error {
+  constructor(message: string, public readonly kind: ErrorKind) {
+    super(message);
+    this.name = 'ProcessingError';
+  }
+}
+
+function getErrorKind(error: unknown): ErrorKind {
+  if (error instanceof ProcessingError) return error.kind;
+  if (error instanceof DescriptionError) return error.transient ? 'provider-busy' : 'provider';
+  // Typed array and canvas allocations fail with a RangeError when memory runs out.
+  if (error instanceof RangeError) return 'out-of-memory';
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return 'network';
+  return 'unknown';
+}
+
+/** Describes a caught error for the UI: `message` says what failed, the kind decides the suggested action. */
+export function toAppError(error: unknown, message: string): AppError {
+  const kind = getErrorKind(error);
+  const detail = error instanceof Error ? error.message : typeof error === 'string' ? error : undefined;
+  return { kind, message, detail: detail || undefined, action: ERROR_ACTIONS[kind] };
+}
+
+/** The error as one line of text, for places that only show a message. */
+export const formatAppError = (error: AppError) => error.detail ? `${error.message} ${error.detail}` : error.message;
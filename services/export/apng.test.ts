@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { encodePng } from '../headless/png';
+import { encodeApng } from './apng';
+import { crc32 } from './crc32';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  crc: number;
+  // CRC over the type and data, as the PNG specification defines it
+  expectedCrc: number;
+}
+
+function readChunks(png: Uint8Array): Chunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    chunks.push({
+      type: String.fromCharCode(...png.subarray(offset + 4, offset + 8)),
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crc: view.getUint32(offset + 8 + length),
+      expectedCrc: crc32(png.subarray(offset + 4, offset + 8 + length)),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+// Rebuilds a PNG with its image data split over `parts` IDAT chunks.
+function splitIdat(png: Uint8Array, parts: number): Uint8Array {
+  const out: number[] = [...png.subarray(0, 8)];
+  const push = (type: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set([...type].map(c => c.charCodeAt(0)), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    out.push(...chunk);
+  };
+  for (const chunk of readChunks(png)) {
+    if (chunk.type !== 'IDAT') {
+      push(chunk.type, chunk.data);
+      continue;
+    }
+    const step = Math.ceil(chunk.data.length / parts);
+    for (let i = 0; i < chunk.data.length; i += step) push('IDAT', chunk.data.subarray(i, i + step));
+  }
+  return new Uint8Array(out);
+}
+
+const solid = (value: number, width = 3, height = 2) =>
+  encodePng(new Uint8ClampedArray(width * height * 4).fill(value), width, height);
+
+const uint32 = (data: Uint8Array, offset: number) => new DataView(data.buffer, data.byteOffset).getUint32(offset);
+const uint16 = (data: Uint8Array, offset: number) => new DataView(data.buffer, data.byteOffset).getUint16(offset);
+
+describe('encodeApng', () => {
+  it('writes the frame count, plays and a frame control per frame', () => {
+    const apng = encodeApng([
+      { png: solid(0), delay: 100 },
+      { png: solid(128), delay: 40 },
+      { png: solid(255), delay: 250 },
+    ], 2);
+    const chunks = readChunks(apng);
+    expect(apng.subarray(0, 8)).toEqual(new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]));
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+
+    const actl = chunks[1].data;
+    expect([uint32(actl, 0), uint32(actl, 4)]).toEqual([3, 2]);
+
+    const fctls = chunks.filter(chunk => chunk.type === 'fcTL').map(chunk => chunk.data);
+    expect(fctls.map(fctl => [uint32(fctl, 4), uint32(fctl, 8)])).toEqual([[3, 2], [3, 2], [3, 2]]);
+    expect(fctls.map(fctl => uint16(fctl, 20) / uint16(fctl, 22))).toEqual([0.1, 0.04, 0.25]);
+  });
+
+  it('numbers frame controls and frame data in one sequence', () => {
+    const apng = encodeApng([
+      { png: splitIdat(solid(0, 40, 40), 2), delay: 100 },
+      { png: splitIdat(solid(128, 40, 40), 3), delay: 100 },
+      { png: solid(255, 40, 40), delay: 100 },
+    ], 0);
+    const chunks = readChunks(apng);
+    expect(chunks.map(chunk => chunk.type)).toEqual([
+      'IHDR', 'acTL',
+      'fcTL', 'IDAT', 'IDAT',
+      'fcTL', 'fdAT', 'fdAT', 'fdAT',
+      'fcTL', 'fdAT',
+      'IEND',
+    ]);
+    const sequence = chunks
+      .filter(chunk => chunk.type === 'fcTL' || chunk.type === 'fdAT')
+      .map(chunk => uint32(chunk.data, 0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it('carries the image data over unchanged and writes valid CRCs', () => {
+    const second = solid(200);
+    const apng = encodeApng([{ png: solid(10), delay: 100 }, { png: second, delay: 100 }], 0);
+    const chunks = readChunks(apng);
+    for (const chunk of chunks) expect(chunk.crc, chunk.type).toBe(chunk.expectedCrc);
+
+    const idat = readChunks(second).find(chunk => chunk.type === 'IDAT')!;
+    const fdat = chunks.find(chunk => chunk.type === 'fdAT')!;
+    expect(fdat.data.subarray(4)).toEqual(idat.data);
+  });
+
+  it('rejects an empty animation and frames that are not PNGs', () => {
+    expect(() => encodeApng([], 0)).toThrow('without frames');
+    expect(() => encodeApng([{ png: new Uint8Array(16), delay: 100 }], 0)).toThrow('not a valid PNG');
+  });
+});
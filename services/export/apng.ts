@@ -0,0 +1,101 @@
+import { crc32 } from './crc32';
+
+// Assembles an animated PNG from per-frame PNG files (as produced by
+// canvas.toBlob('image/png')). All frames must share the same size and format.
+
+export interface ApngFrame {
+  png: Uint8Array;
+  // Display time in milliseconds
+  delay: number;
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+function readChunks(png: Uint8Array): PngChunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function writeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * @param plays number of times the animation plays; 0 loops forever
+ */
+export function encodeApng(frames: ApngFrame[], plays: number): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error('Cannot encode an APNG without frames.');
+  }
+  const parsed = frames.map(frame => readChunks(frame.png));
+  const ihdr = parsed[0].find(chunk => chunk.type === 'IHDR');
+  if (!ihdr) {
+    throw new Error('Frame is not a valid PNG.');
+  }
+  const width = new DataView(ihdr.data.buffer, ihdr.data.byteOffset).getUint32(0);
+  const height = new DataView(ihdr.data.buffer, ihdr.data.byteOffset).getUint32(4);
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE, writeChunk('IHDR', ihdr.data)];
+
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, frames.length);
+  new DataView(actl.buffer).setUint32(4, plays);
+  parts.push(writeChunk('acTL', actl));
+
+  let sequence = 0;
+  frames.forEach((frame, index) => {
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint32(12, 0); // x offset
+    view.setUint32(16, 0); // y offset
+    view.setUint16(20, Math.min(0xffff, Math.round(frame.delay)));
+    view.setUint16(22, 1000);
+    fctl[24] = 0; // dispose: none
+    fctl[25] = 0; // blend: source
+    parts.push(writeChunk('fcTL', fctl));
+
+    for (const chunk of parsed[index]) {
+      if (chunk.type !== 'IDAT') continue;
+      if (index === 0) {
+        parts.push(writeChunk('IDAT', chunk.data));
+      } else {
+        const fdat = new Uint8Array(4 + chunk.data.length);
+        new DataView(fdat.buffer).setUint32(0, sequence++);
+        fdat.set(chunk.data, 4);
+        parts.push(writeChunk('fdAT', fdat));
+      }
+    }
+  });
+
+  parts.push(writeChunk('IEND', new Uint8Array(0)));
+
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
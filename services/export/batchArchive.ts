@@ -0,0 +1,40 @@
+import { type Segment, type VideoSource } from '../../types';
+import { getOutputFileName } from '../gifOutput';
+import { getSelectedFrames } from '../segments';
+import { createZip, jsonEntry, type ZipEntry } from './zip';
+
+export const BATCH_ARCHIVE_NAME = 'video-to-gif-segments.zip';
+const MANIFEST_NAME = 'manifest.json';
+
+/**
+ * Bundles every rendered segment into one ZIP with a manifest listing each
+ * file's title, description and the part of the video it came from.
+ */
+export async function createBatchArchive(segments: Segment[], videos: VideoSource[]): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+
+  for (const segment of segments) {
+    if (!segment.resultBlob || !segment.resultFormat) continue;
+    const file = getOutputFileName(segment.id, { exportFormat: segment.resultFormat });
+    const frames = getSelectedFrames(segment);
+    entries.push({ name: file, data: new Uint8Array(await segment.resultBlob.arrayBuffer()) });
+    manifest.push({
+      file,
+      title: segment.title,
+      description: segment.gifMetadata?.description ?? '',
+      altText: segment.gifMetadata?.altText ?? '',
+      hashtags: segment.gifMetadata?.hashtags ?? [],
+      format: segment.resultFormat,
+      video: videos.find(video => video.id === segment.videoId)?.file.name ?? null,
+      size: segment.resultBlob.size,
+      timeRange: segment.timeRange,
+      frameRange: frames.length > 0
+        ? { start: frames[0].timestamp, end: frames[frames.length - 1].timestamp, count: frames.length }
+        : null,
+    });
+  }
+
+  entries.push(jsonEntry(MANIFEST_NAME, { createdAt: new Date().toISOString(), segments: manifest }));
+  return createZip(entries);
+}
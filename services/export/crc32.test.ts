@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(bytes(''))).toBe(0);
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(bytes('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+    expect(crc32(new Uint8Array([0]))).toBe(0xd202ef8d);
+    expect(crc32(new Uint8Array(32).fill(0xff))).toBe(0xff6cab0b);
+  });
+
+  it('continues from an earlier CRC', () => {
+    const whole = bytes('123456789');
+    expect(crc32(whole.subarray(4), crc32(whole.subarray(0, 4)))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,148 @@
+import { type ExportFormat, type OutputSettings } from '../../types';
+import { imageDataToBlob } from '../frameImage';
+import { renderGif } from '../gif/renderGif';
+import { type RenderControl } from '../renderControl';
+import { encodeApng } from './apng';
+import { encodeSpriteSheet } from './spriteSheet';
+import { encodeWebm, getWebmMimeType } from './webm';
+import { encodeAnimatedWebp } from './webp';
+import { createZip, jsonEntry } from './zip';
+
+export interface ExportFrame {
+  imageData: ImageData;
+  // Display time in milliseconds
+  delay: number;
+}
+
+export interface ExportOptions extends RenderControl {
+  output: OutputSettings;
+  // File name without extension, used for files inside archives
+  baseName: string;
+}
+
+export interface Exporter {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  // How the result can be previewed in the page
+  preview: 'image' | 'video' | 'none';
+  isSupported: () => boolean;
+  encode: (frames: ExportFrame[], options: ExportOptions) => Promise<Blob>;
+}
+
+/** NETSCAPE2.0 repeat value: 0 loops forever, -1 plays once, n repeats n more times. */
+export function toGifRepeat({ loop, loopCount }: OutputSettings): number {
+  if (loop === 'infinite') return 0;
+  if (loop === 'once' || loopCount <= 1) return -1;
+  return loopCount - 1;
+}
+
+/** Total number of plays as used by APNG, WebP and sprite sheets: 0 loops forever. */
+export function toPlayCount({ loop, loopCount }: OutputSettings): number {
+  if (loop === 'infinite') return 0;
+  return loop === 'once' ? 1 : Math.max(1, loopCount);
+}
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+let webpEncodingSupported: boolean | null = null;
+
+// Only some browsers can encode WebP from a canvas; others silently return PNG.
+function canEncodeWebp(): boolean {
+  if (webpEncodingSupported === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpEncodingSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpEncodingSupported;
+}
+
+// Encodes each frame as a still image, one at a time so that progress and
+// cancellation are checked between frames.
+async function encodeStills(frames: ExportFrame[], type: string, { signal, onProgress }: RenderControl, quality?: number): Promise<Uint8Array[]> {
+  const stills: Uint8Array[] = [];
+  for (const frame of frames) {
+    signal?.throwIfAborted();
+    stills.push(await toBytes(await imageDataToBlob(frame.imageData, type, quality)));
+    onProgress?.(stills.length / frames.length);
+  }
+  return stills;
+}
+
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  gif: {
+    format: 'gif',
+    label: 'GIF',
+    extension: 'gif',
+    preview: 'image',
+    isSupported: () => true,
+    encode: (frames, { output, ...control }) => renderGif(frames, {
+      quality: output.quality,
+      dither: output.dither,
+      repeat: toGifRepeat(output),
+      optimization: output.optimization,
+    }, control),
+  },
+  webm: {
+    format: 'webm',
+    label: 'WebM video',
+    extension: 'webm',
+    preview: 'video',
+    isSupported: () => getWebmMimeType() !== undefined,
+    encode: (frames, control) => encodeWebm(frames, control),
+  },
+  webp: {
+    format: 'webp',
+    label: 'Animated WebP',
+    extension: 'webp',
+    preview: 'image',
+    isSupported: canEncodeWebp,
+    encode: async (frames, options) => {
+      const webps = await encodeStills(frames, 'image/webp', options, 0.9);
+      const stills = webps.map((webp, i) => ({ webp, delay: frames[i].delay }));
+      const { width, height } = frames[0].imageData;
+      return new Blob([encodeAnimatedWebp(stills, width, height, toPlayCount(options.output))], { type: 'image/webp' });
+    },
+  },
+  apng: {
+    format: 'apng',
+    label: 'APNG',
+    extension: 'png',
+    preview: 'image',
+    isSupported: () => true,
+    encode: async (frames, options) => {
+      const pngs = await encodeStills(frames, 'image/png', options);
+      const apng = encodeApng(pngs.map((png, i) => ({ png, delay: frames[i].delay })), toPlayCount(options.output));
+      return new Blob([apng], { type: 'image/apng' });
+    },
+  },
+  'png-zip': {
+    format: 'png-zip',
+    label: 'PNG frames (ZIP)',
+    extension: 'zip',
+    preview: 'none',
+    isSupported: () => true,
+    encode: async (frames, options) => {
+      const { baseName } = options;
+      const pngs = await encodeStills(frames, 'image/png', options);
+      const names = pngs.map((_, i) => `${baseName}-${String(i + 1).padStart(3, '0')}.png`);
+      return createZip([
+        ...pngs.map((data, i) => ({ name: names[i], data })),
+        jsonEntry(`${baseName}.json`, { frames: names.map((file, i) => ({ file, duration: Math.round(frames[i].delay) })) }),
+      ]);
+    },
+  },
+  'sprite-sheet': {
+    format: 'sprite-sheet',
+    label: 'Sprite sheet + JSON',
+    extension: 'zip',
+    preview: 'none',
+    isSupported: () => true,
+    encode: (frames, { output, baseName, signal }) => {
+      signal?.throwIfAborted();
+      return encodeSpriteSheet(frames, toPlayCount(output), baseName);
+    },
+  },
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
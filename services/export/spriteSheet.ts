@@ -0,0 +1,59 @@
+import { imageDataToBlob } from '../frameImage';
+import { type ExportFrame } from './exportFormats';
+import { createZip, jsonEntry } from './zip';
+
+export interface SpriteSheetFrame {
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  duration: number;
+}
+
+export interface SpriteSheetMetadata {
+  image: string;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  rows: number;
+  // Number of plays; 0 loops forever
+  loops: number;
+  frames: SpriteSheetFrame[];
+}
+
+/** A single PNG grid of all frames plus a JSON description of where each frame sits. */
+export async function encodeSpriteSheet(frames: ExportFrame[], loops: number, baseName: string): Promise<Blob> {
+  const { width, height } = frames[0].imageData;
+  const columns = Math.ceil(Math.sqrt(frames.length));
+  const rows = Math.ceil(frames.length / columns);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * width;
+  canvas.height = rows * height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not create a 2D canvas context.');
+  }
+
+  const metadata: SpriteSheetMetadata = {
+    image: `${baseName}.png`,
+    frameWidth: width,
+    frameHeight: height,
+    columns,
+    rows,
+    loops,
+    frames: frames.map((frame, index) => {
+      const x = (index % columns) * width;
+      const y = Math.floor(index / columns) * height;
+      context.putImageData(frame.imageData, x, y);
+      return { index, x, y, width, height, duration: Math.round(frame.delay) };
+    }),
+  };
+
+  const sheet = await imageDataToBlob(context.getImageData(0, 0, canvas.width, canvas.height), 'image/png');
+  return createZip([
+    { name: metadata.image, data: new Uint8Array(await sheet.arrayBuffer()) },
+    jsonEntry(`${baseName}.json`, metadata),
+  ]);
+}
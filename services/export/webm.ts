@@ -0,0 +1,59 @@
+import { type ExportFrame } from './exportFormats';
+import { type RenderControl } from '../renderControl';
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const BITS_PER_PIXEL_PER_SECOND = 4;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export function getWebmMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Records frames into a WebM video with MediaRecorder. Recording happens in
+ * real time, so this takes as long as the animation itself. Looping is left to
+ * the player.
+ */
+export async function encodeWebm(frames: ExportFrame[], { signal, onProgress }: RenderControl = {}): Promise<Blob> {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) {
+    throw new Error('This browser cannot record WebM video.');
+  }
+  const { width, height } = frames[0].imageData;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not create a 2D canvas context.');
+  }
+
+  // A frame rate of 0 means frames are only captured when requested.
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: width * height * BITS_PER_PIXEL_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  try {
+    for (const [i, frame] of frames.entries()) {
+      signal?.throwIfAborted();
+      context.putImageData(frame.imageData, 0, 0);
+      track.requestFrame();
+      await wait(frame.delay);
+      onProgress?.((i + 1) / frames.length);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    track.stop();
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
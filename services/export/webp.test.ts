@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAnimatedWebp } from './webp';
+
+interface Chunk {
+  fourCC: string;
+  data: Uint8Array;
+}
+
+const ascii = (value: string) => [...value].map(c => c.charCodeAt(0));
+
+// A still WebP around made-up chunks; the container writer never decodes the pixels.
+function stillWebp(chunks: Record<string, number[]>): Uint8Array {
+  const body: number[] = ascii('WEBP');
+  for (const [fourCC, data] of Object.entries(chunks)) {
+    body.push(...ascii(fourCC), data.length & 0xff, (data.length >> 8) & 0xff, 0, 0, ...data);
+    if (data.length & 1) body.push(0);
+  }
+  return new Uint8Array([...ascii('RIFF'), body.length & 0xff, (body.length >> 8) & 0xff, 0, 0, ...body]);
+}
+
+// Reads the chunks in `bytes` from `start` on, checking that each odd-sized one is padded.
+function readChunks(bytes: Uint8Array, start: number): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = start;
+  while (offset < bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourCC: String.fromCharCode(...bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    if (size & 1) expect(bytes[offset + 8 + size]).toBe(0);
+    offset += 8 + size + (size & 1);
+  }
+  expect(offset).toBe(bytes.length);
+  return chunks;
+}
+
+const uint24 = (data: Uint8Array, offset: number) => data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+
+describe('encodeAnimatedWebp', () => {
+  const lossy = stillWebp({ 'VP8 ': [1, 2, 3, 4, 5] });
+  const withAlpha = stillWebp({ VP8X: new Array(10).fill(0), ALPH: [9, 9, 9], 'VP8 ': [6, 7, 8, 9] });
+
+  it('writes a RIFF header whose size covers the rest of the file', () => {
+    const webp = encodeAnimatedWebp([{ webp: lossy, delay: 100 }, { webp: lossy, delay: 50 }], 320, 240, 0);
+    expect(String.fromCharCode(...webp.subarray(0, 4))).toBe('RIFF');
+    expect(new DataView(webp.buffer).getUint32(4, true)).toBe(webp.length - 8);
+    expect(String.fromCharCode(...webp.subarray(8, 12))).toBe('WEBP');
+    expect(webp.length % 2).toBe(0);
+    expect(readChunks(webp, 12).map(chunk => chunk.fourCC)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+  });
+
+  it('sets the canvas size, animation flag and loop count', () => {
+    const webp = encodeAnimatedWebp([{ webp: lossy, delay: 100 }], 320, 240, 3);
+    const [vp8x, anim] = readChunks(webp, 12);
+    expect(vp8x.data).toHaveLength(10);
+    expect(vp8x.data[0]).toBe(0x02);
+    expect([uint24(vp8x.data, 4) + 1, uint24(vp8x.data, 7) + 1]).toEqual([320, 240]);
+    expect(new DataView(anim.data.buffer, anim.data.byteOffset).getUint16(4, true)).toBe(3);
+  });
+
+  it('sets the alpha flag when a frame has an alpha channel', () => {
+    const webp = encodeAnimatedWebp([{ webp: lossy, delay: 100 }, { webp: withAlpha, delay: 100 }], 16, 16, 0);
+    expect(readChunks(webp, 12)[0].data[0]).toBe(0x02 | 0x10);
+  });
+
+  it('wraps each frame with its size and duration, keeping only its image chunks', () => {
+    const webp = encodeAnimatedWebp([{ webp: lossy, delay: 100 }, { webp: withAlpha, delay: 40 }], 16, 8, 0);
+    const frames = readChunks(webp, 12).filter(chunk => chunk.fourCC === 'ANMF');
+
+    expect(frames.map(frame => [uint24(frame.data, 6) + 1, uint24(frame.data, 9) + 1])).toEqual([[16, 8], [16, 8]]);
+    expect(frames.map(frame => uint24(frame.data, 12))).toEqual([100, 40]);
+
+    const [first, second] = frames.map(frame => readChunks(frame.data, 16));
+    expect(first).toEqual([{ fourCC: 'VP8 ', data: new Uint8Array([1, 2, 3, 4, 5]) }]);
+    expect(second).toEqual([
+      { fourCC: 'ALPH', data: new Uint8Array([9, 9, 9]) },
+      { fourCC: 'VP8 ', data: new Uint8Array([6, 7, 8, 9]) },
+    ]);
+  });
+
+  it('rejects an empty animation and frames that are not WebP images', () => {
+    expect(() => encodeAnimatedWebp([], 16, 16, 0)).toThrow('without frames');
+    expect(() => encodeAnimatedWebp([{ webp: new Uint8Array(16), delay: 100 }], 16, 16, 0)).toThrow('not a valid WebP');
+  });
+});
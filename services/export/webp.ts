@@ -0,0 +1,100 @@
+// Assembles an animated WebP from still WebP images (as produced by
+// canvas.toBlob('image/webp')), following the RIFF container layout in the
+// WebP specification: VP8X + ANIM + one ANMF chunk per frame.
+
+export interface WebpFrame {
+  webp: Uint8Array;
+  // Display time in milliseconds
+  delay: number;
+}
+
+interface RiffChunk {
+  fourCC: string;
+  data: Uint8Array;
+}
+
+const ANIMATION_FLAG = 0x02;
+const ALPHA_FLAG = 0x10;
+// Chunks from a still image that carry its pixels; anything else (VP8X, ICCP, EXIF) is dropped.
+const FRAME_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+function readChunks(webp: Uint8Array): RiffChunk[] {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const fourCC = (offset: number) => String.fromCharCode(...webp.subarray(offset, offset + 4));
+  if (fourCC(0) !== 'RIFF' || fourCC(8) !== 'WEBP') {
+    throw new Error('Frame is not a valid WebP image.');
+  }
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourCC: fourCC(offset), data: webp.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+function chunkLength(data: Uint8Array) {
+  return 8 + data.length + (data.length & 1);
+}
+
+function writeChunk(out: Uint8Array, offset: number, fourCC: string, data: Uint8Array): number {
+  for (let i = 0; i < 4; i++) out[offset + i] = fourCC.charCodeAt(i);
+  new DataView(out.buffer).setUint32(offset + 4, data.length, true);
+  out.set(data, offset + 8);
+  return offset + chunkLength(data);
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+}
+
+/**
+ * @param loops number of times the animation plays; 0 loops forever
+ */
+export function encodeAnimatedWebp(frames: WebpFrame[], width: number, height: number, loops: number): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error('Cannot encode a WebP animation without frames.');
+  }
+
+  let hasAlpha = false;
+  const anmfChunks = frames.map(frame => {
+    const imageChunks = readChunks(frame.webp).filter(chunk => FRAME_CHUNKS.has(chunk.fourCC));
+    hasAlpha ||= imageChunks.some(chunk => chunk.fourCC === 'ALPH' || chunk.fourCC === 'VP8L');
+    const payloadLength = imageChunks.reduce((sum, chunk) => sum + chunkLength(chunk.data), 0);
+    const anmf = new Uint8Array(16 + payloadLength);
+    writeUint24(anmf, 0, 0); // x / 2
+    writeUint24(anmf, 3, 0); // y / 2
+    writeUint24(anmf, 6, width - 1);
+    writeUint24(anmf, 9, height - 1);
+    writeUint24(anmf, 12, Math.min(0xffffff, Math.round(frame.delay)));
+    anmf[15] = 0x02; // do not blend, no disposal
+    let offset = 16;
+    for (const chunk of imageChunks) {
+      offset = writeChunk(anmf, offset, chunk.fourCC, chunk.data);
+    }
+    return anmf;
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = ANIMATION_FLAG | (hasAlpha ? ALPHA_FLAG : 0);
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, loops, true); // background colour stays transparent black
+
+  const bodyLength = 4 + chunkLength(vp8x) + chunkLength(anim) + anmfChunks.reduce((sum, chunk) => sum + chunkLength(chunk), 0);
+  const out = new Uint8Array(8 + bodyLength);
+  out.set([0x52, 0x49, 0x46, 0x46]); // RIFF
+  new DataView(out.buffer).setUint32(4, bodyLength, true);
+  out.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+  let offset = writeChunk(out, 12, 'VP8X', vp8x);
+  offset = writeChunk(out, offset, 'ANIM', anim);
+  for (const chunk of anmfChunks) {
+    offset = writeChunk(out, offset, 'ANMF', chunk);
+  }
+  return out;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+import { createZip, jsonEntry, readZip, type ZipEntry } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const ENTRIES: ZipEntry[] = [
+  { name: 'frames/frame-001.png', data: new Uint8Array([137, 80, 78, 71, 0, 255]) },
+  { name: 'clip «größe».json', data: text('{"title":"Größe"}') },
+  { name: 'empty.txt', data: new Uint8Array(0) },
+];
+
+async function bytesOf(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+}
+
+describe('createZip', () => {
+  it('writes an end record that points at the central directory', async () => {
+    const { bytes, view } = await bytesOf(createZip(ENTRIES));
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(3);
+    expect(view.getUint16(end + 10, true)).toBe(3);
+
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+
+  it('records the name, size and CRC of every entry in both headers', async () => {
+    const { bytes, view } = await bytesOf(createZip(ENTRIES));
+    let offset = view.getUint32(bytes.length - 22 + 16, true);
+
+    for (const entry of ENTRIES) {
+      const name = text(entry.name);
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      expect(view.getUint16(offset + 8, true) & 0x0800).toBe(0x0800); // UTF-8 names
+      expect(view.getUint16(offset + 10, true)).toBe(0); // stored
+      expect(view.getUint32(offset + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(offset + 20, true)).toBe(entry.data.length);
+      expect(view.getUint32(offset + 24, true)).toBe(entry.data.length);
+      expect(bytes.subarray(offset + 46, offset + 46 + name.length)).toEqual(name);
+
+      const local = view.getUint32(offset + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(local + 18, true)).toBe(entry.data.length);
+      expect(view.getUint16(local + 26, true)).toBe(name.length);
+      const dataStart = local + 30 + name.length;
+      expect(bytes.subarray(dataStart, dataStart + entry.data.length)).toEqual(entry.data);
+
+      offset += 46 + name.length;
+    }
+  });
+
+  it('writes an empty archive as a lone end record', async () => {
+    const { bytes, view } = await bytesOf(createZip([]));
+    expect(bytes).toHaveLength(22);
+    expect(view.getUint16(8, true)).toBe(0);
+  });
+});
+
+describe('readZip', () => {
+  it('reads back what createZip wrote', async () => {
+    const entries = await readZip(createZip([...ENTRIES, jsonEntry('recipe.json', { version: 1 })]));
+    expect(entries.map(entry => entry.name)).toEqual([...ENTRIES.map(entry => entry.name), 'recipe.json']);
+    entries.slice(0, ENTRIES.length).forEach((entry, i) => expect(entry.data).toEqual(ENTRIES[i].data));
+    expect(JSON.parse(new TextDecoder().decode(entries[3].data))).toEqual({ version: 1 });
+  });
+
+  it('rejects a file that is not a ZIP archive', async () => {
+    await expect(readZip(new Blob([new Uint8Array(40)]))).rejects.toThrow('not a ZIP archive');
+  });
+});
@@ -0,0 +1,35 @@
+import { loadVideo, waitForSeek } from './frameExtractor';
+
+const FILMSTRIP_HEIGHT = 48;
+const FILMSTRIP_QUALITY = 0.6;
+
+/**
+ * Captures `count` evenly spaced thumbnails across the whole video for the
+ * timeline track. Each thumbnail is taken from the middle of its slot.
+ */
+export async function captureFilmstrip(videoUrl: string, count: number, signal?: AbortSignal): Promise<string[]> {
+  const video = await loadVideo(videoUrl, signal);
+  try {
+    const { duration, videoWidth, videoHeight } = video;
+    if (!Number.isFinite(duration) || duration <= 0 || !videoWidth) return [];
+
+    const canvas = document.createElement('canvas');
+    canvas.height = FILMSTRIP_HEIGHT;
+    canvas.width = Math.max(1, Math.round(FILMSTRIP_HEIGHT * videoWidth / videoHeight));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not create a 2D canvas context.');
+    }
+
+    const thumbnails: string[] = [];
+    for (let i = 0; i < count; i++) {
+      await waitForSeek(video, (i + 0.5) * duration / count, signal);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbnails.push(canvas.toDataURL('image/jpeg', FILMSTRIP_QUALITY));
+    }
+    return thumbnails;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,32 @@
+import { type AdjustmentKind, type FilterPreset, type FrameFilter } from '../types';
+
+const STORAGE_KEY = 'video-to-gif:filter-presets';
+
+const adjustment = (id: number, kind: AdjustmentKind, amount: number): FrameFilter => ({ id, kind, enabled: true, amount });
+
+export const BUILT_IN_FILTER_PRESETS: FilterPreset[] = [
+  { id: 1, name: 'Black & white', filters: [adjustment(1, 'grayscale', 1), adjustment(2, 'contrast', 0.2)] },
+  { id: 2, name: 'Vintage', filters: [adjustment(1, 'sepia', 0.6), adjustment(2, 'contrast', -0.1), adjustment(3, 'vignette', 0.5)] },
+  { id: 3, name: 'Punchy', filters: [adjustment(1, 'contrast', 0.25), adjustment(2, 'saturation', 0.4), adjustment(3, 'sharpen', 0.5)] },
+  { id: 4, name: 'Dreamy', filters: [adjustment(1, 'brightness', 0.08), adjustment(2, 'blur', 1), adjustment(3, 'saturation', -0.2)] },
+];
+
+export function loadFilterPresets(): FilterPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFilterPresets(presets: FilterPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    // LUT tables can be large enough to exceed the storage quota.
+    console.error("Failed to save filter presets.", e);
+  }
+}
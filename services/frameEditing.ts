@@ -0,0 +1,52 @@
+import { type Segment } from '../types';
+
+// The parts of a segment that frame edits touch. Edits return them as a patch
+// for `onUpdate`.
+export type FrameEdit = Pick<Segment, 'frames' | 'selectedFrameIds' | 'playback'>;
+
+const withoutDelays = (frameDelays: Record<number, number>, ids: Set<number>) =>
+  Object.fromEntries(Object.entries(frameDelays).filter(([id]) => !ids.has(Number(id))));
+
+/** Removes frames from the strip along with their selection and custom delays. */
+export function deleteFrames(segment: FrameEdit, ids: number[]): FrameEdit {
+  const removed = new Set(ids);
+  return {
+    frames: segment.frames.filter(f => !removed.has(f.id)),
+    selectedFrameIds: segment.selectedFrameIds.filter(id => !removed.has(id)),
+    playback: { ...segment.playback, frameDelays: withoutDelays(segment.playback.frameDelays, removed) },
+  };
+}
+
+/**
+ * Inserts a copy of each frame right after it. The copies keep the original's
+ * custom delay and become the new selection, so they can be moved straight away.
+ */
+export function duplicateFrames(segment: FrameEdit, ids: number[]): FrameEdit {
+  const duplicated = new Set(ids);
+  const frameDelays = { ...segment.playback.frameDelays };
+  const copyIds: number[] = [];
+  const frames = segment.frames.flatMap(frame => {
+    if (!duplicated.has(frame.id)) return [frame];
+    const copy = { ...frame, id: Math.random() };
+    if (frameDelays[frame.id] !== undefined) frameDelays[copy.id] = frameDelays[frame.id];
+    copyIds.push(copy.id);
+    return [frame, copy];
+  });
+  return { frames, selectedFrameIds: copyIds, playback: { ...segment.playback, frameDelays } };
+}
+
+/**
+ * Moves each of the given frames one place left (-1) or right (1). Groups move
+ * together and stop at the ends of the strip.
+ */
+export function moveFrames(segment: FrameEdit, ids: number[], offset: -1 | 1): FrameEdit {
+  const moving = new Set(ids);
+  const frames = [...segment.frames];
+  const indices = frames.map((_, i) => i);
+  for (const i of offset < 0 ? indices : indices.reverse()) {
+    const target = i + offset;
+    if (!moving.has(frames[i].id) || target < 0 || target >= frames.length || moving.has(frames[target].id)) continue;
+    [frames[i], frames[target]] = [frames[target], frames[i]];
+  }
+  return { frames, selectedFrameIds: segment.selectedFrameIds, playback: segment.playback };
+}
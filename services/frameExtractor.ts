@@ -0,0 +1,250 @@
+import { type Frame, type FrameTransform } from '../types';
+import { drawTransformedFrame } from './frameTransform';
+import { ProcessingError } from './errors';
+
+export interface ExtractionOptions {
+  start: number;
+  end: number;
+  fps: number;
+  transform: FrameTransform;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  // How long to wait for a seek or the next decoded frame before giving up
+  timeoutMs?: number;
+}
+
+export type ExtractionStrategy = 'frame-callback' | 'seek';
+
+export const EXTRACTION_FPS_OPTIONS = [5, 10, 15, 20, 25, 30];
+export const DEFAULT_EXTRACTION_FPS = 10;
+
+const THUMBNAIL_HEIGHT = 96;
+const THUMBNAIL_QUALITY = 0.7;
+const FRAME_QUALITY = 0.92;
+// Tolerance when matching presented frames against target times.
+const TIME_EPSILON = 0.001;
+// Browsers sometimes never finish a seek or stall playback on damaged files.
+export const DEFAULT_FRAME_TIMEOUT_MS = 10000;
+const LOAD_TIMEOUT_MS = 30000;
+
+type FrameCallbackVideo = HTMLVideoElement & {
+  requestVideoFrameCallback: (callback: (now: number, metadata: { mediaTime: number }) => void) => number;
+  cancelVideoFrameCallback: (handle: number) => void;
+};
+
+export function getExtractionStrategy(video: HTMLVideoElement): ExtractionStrategy {
+  return 'requestVideoFrameCallback' in video ? 'frame-callback' : 'seek';
+}
+
+/**
+ * Target timestamps for a range, computed from the frame index rather than by
+ * repeatedly adding the interval, so they don't drift.
+ */
+export function getFrameTimes(start: number, end: number, fps: number): number[] {
+  const count = Math.floor((end - start) * fps + TIME_EPSILON) + 1;
+  return Array.from({ length: Math.max(0, count) }, (_, i) => start + i / fps);
+}
+
+const abortError = () => new DOMException('Frame extraction was cancelled.', 'AbortError');
+
+const canvasError = () => new ProcessingError('Could not create a 2D canvas context.', 'canvas-unavailable');
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    // toBlob gives null when the canvas is too large to encode.
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new ProcessingError('Failed to encode frame.', 'out-of-memory')), 'image/jpeg', quality);
+  });
+}
+
+/** Why a video element failed, as an error the UI can suggest a fix for. */
+export function getMediaError(video: HTMLVideoElement): ProcessingError {
+  switch (video.error?.code) {
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return new ProcessingError("This browser can't play the video's format or codec.", 'unsupported-format');
+    case MediaError.MEDIA_ERR_DECODE:
+      return new ProcessingError('The video could not be decoded.', 'decode-failed');
+    default:
+      return new ProcessingError('The video could not be loaded.', 'decode-failed');
+  }
+}
+
+/** Loads a detached, muted video element for reading frames in the background. */
+export function loadVideo(url: string, signal?: AbortSignal, timeoutMs = LOAD_TIMEOUT_MS): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      video.removeAttribute('src');
+      reject(error);
+    };
+    const onAbort = () => fail(new DOMException('Loading the video was cancelled.', 'AbortError'));
+    const timer = setTimeout(() => fail(new ProcessingError('The video took too long to load.', 'timeout')), timeoutMs);
+    video.onloadeddata = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(video);
+    };
+    video.onerror = () => fail(getMediaError(video));
+    signal?.addEventListener('abort', onAbort);
+    video.src = url;
+  });
+}
+
+export function waitForSeek(video: HTMLVideoElement, time: number, signal?: AbortSignal, timeoutMs = DEFAULT_FRAME_TIMEOUT_MS): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(getMediaError(video));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new ProcessingError(`The video did not respond when seeking to ${time.toFixed(2)}s.`, 'timeout'));
+    }, timeoutMs);
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    video.currentTime = time;
+  });
+}
+
+let thumbnailCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Snapshots a canvas as a frame: a strip thumbnail plus a full-resolution
+ * JPEG. The canvas is read synchronously, so the caller can draw the next
+ * frame straight away.
+ */
+export function frameFromCanvas(canvas: HTMLCanvasElement, timestamp: number, id = Math.random()): Promise<Frame> {
+  if (!thumbnailCanvas) {
+    thumbnailCanvas = document.createElement('canvas');
+  }
+  const thumbnailContext = thumbnailCanvas.getContext('2d');
+  if (!thumbnailContext) {
+    return Promise.reject(canvasError());
+  }
+  thumbnailCanvas.height = Math.min(THUMBNAIL_HEIGHT, canvas.height);
+  thumbnailCanvas.width = Math.max(1, Math.round(canvas.width * thumbnailCanvas.height / canvas.height));
+  thumbnailContext.drawImage(canvas, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+  const thumbnailUrl = thumbnailCanvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+  return canvasToBlob(canvas, FRAME_QUALITY).then(blob => ({ id, timestamp, thumbnailUrl, blob }));
+}
+
+// Draws the video's current frame with the transform applied and snapshots it.
+function createFrameCapture(video: HTMLVideoElement, transform: FrameTransform) {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw canvasError();
+  }
+
+  return (timestamp: number): Promise<Frame> => {
+    drawTransformedFrame(canvas, context, video, video.videoWidth, video.videoHeight, transform);
+    return frameFromCanvas(canvas, timestamp);
+  };
+}
+
+async function extractBySeeking(video: HTMLVideoElement, times: number[], options: ExtractionOptions): Promise<Frame[]> {
+  const capture = createFrameCapture(video, options.transform);
+  const frames: Frame[] = [];
+  for (let i = 0; i < times.length; i++) {
+    await waitForSeek(video, times[i], options.signal, options.timeoutMs);
+    frames.push(await capture(times[i]));
+    options.onProgress?.((i + 1) / times.length);
+  }
+  return frames;
+}
+
+// Plays the range once and grabs presented frames as they reach each target
+// time. Faster than seeking and exact to the frame the browser decoded.
+async function extractDuringPlayback(video: FrameCallbackVideo, times: number[], options: ExtractionOptions): Promise<Frame[]> {
+  const { signal, onProgress, timeoutMs = DEFAULT_FRAME_TIMEOUT_MS } = options;
+  const capture = createFrameCapture(video, options.transform);
+  await waitForSeek(video, times[0], signal, timeoutMs);
+
+  const pending: Promise<Frame>[] = [];
+  await new Promise<void>((resolve, reject) => {
+    let handle = 0;
+    let stallTimer = 0;
+    // Restarted on every presented frame; fires when playback stops making progress.
+    // Hidden tabs get no frame callbacks, so it is paused until the tab shows again.
+    const watchForStall = () => {
+      clearTimeout(stallTimer);
+      if (document.hidden) return;
+      stallTimer = window.setTimeout(() => finish(new ProcessingError('Playback stalled while extracting frames.', 'timeout')), timeoutMs);
+    };
+    const finish = (error?: Error) => {
+      clearTimeout(stallTimer);
+      video.pause();
+      video.cancelVideoFrameCallback(handle);
+      video.removeEventListener('ended', onEnded);
+      video.removeEventListener('error', onError);
+      document.removeEventListener('visibilitychange', watchForStall);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onEnded = () => {
+      // The last targets can sit past the final presented frame; reuse it.
+      while (pending.length < times.length) {
+        pending.push(capture(times[pending.length]));
+      }
+      finish();
+    };
+    const onAbort = () => finish(abortError());
+    const onError = () => finish(getMediaError(video));
+    const onFrame = (_now: number, metadata: { mediaTime: number }) => {
+      watchForStall();
+      while (pending.length < times.length && times[pending.length] <= metadata.mediaTime + TIME_EPSILON) {
+        pending.push(capture(times[pending.length]));
+      }
+      onProgress?.(pending.length / times.length);
+      if (pending.length >= times.length) {
+        finish();
+      } else {
+        handle = video.requestVideoFrameCallback(onFrame);
+      }
+    };
+
+    video.addEventListener('ended', onEnded);
+    video.addEventListener('error', onError);
+    document.addEventListener('visibilitychange', watchForStall);
+    signal?.addEventListener('abort', onAbort);
+    watchForStall();
+    handle = video.requestVideoFrameCallback(onFrame);
+    video.play().catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+  });
+
+  return Promise.all(pending);
+}
+
+/** Extracts frames between `start` and `end` at `fps`, using the fastest strategy the browser supports. */
+export async function extractFrames(video: HTMLVideoElement, options: ExtractionOptions): Promise<Frame[]> {
+  const times = getFrameTimes(options.start, options.end, options.fps);
+  if (times.length === 0) return [];
+  if (options.signal?.aborted) throw abortError();
+
+  return getExtractionStrategy(video) === 'frame-callback'
+    ? extractDuringPlayback(video as FrameCallbackVideo, times, options)
+    : extractBySeeking(video, times, options);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
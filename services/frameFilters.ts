@@ -0,0 +1,225 @@
+import { type AdjustmentFilter, type AdjustmentKind, type FrameFilter, type LutFilter } from '../types';
+import { loadImage } from './frameImage';
+
+interface FilterDefinition {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultAmount: number;
+}
+
+export const FILTER_DEFINITIONS: Record<AdjustmentKind, FilterDefinition> = {
+  brightness: { label: 'Brightness', min: -1, max: 1, step: 0.05, defaultAmount: 0.1 },
+  contrast: { label: 'Contrast', min: -1, max: 1, step: 0.05, defaultAmount: 0.2 },
+  saturation: { label: 'Saturation', min: -1, max: 1, step: 0.05, defaultAmount: 0.3 },
+  grayscale: { label: 'Grayscale', min: 0, max: 1, step: 0.05, defaultAmount: 1 },
+  sepia: { label: 'Sepia', min: 0, max: 1, step: 0.05, defaultAmount: 0.8 },
+  sharpen: { label: 'Sharpen', min: 0, max: 2, step: 0.1, defaultAmount: 0.6 },
+  blur: { label: 'Blur', min: 0, max: 8, step: 0.5, defaultAmount: 2 },
+  vignette: { label: 'Vignette', min: 0, max: 1, step: 0.05, defaultAmount: 0.5 },
+};
+
+// LUT strength is a 0-1 mix with the unfiltered colour.
+export const LUT_AMOUNT_RANGE = { min: 0, max: 1, step: 0.05 };
+
+// Blur and sharpen radii are given for a frame this wide and scale with the
+// actual width, so thumbnails, preview and output look alike.
+const REFERENCE_WIDTH = 480;
+const MAX_LUT_SIZE = 65;
+const FILTERED_THUMBNAIL_QUALITY = 0.8;
+
+let nextFilterId = 0;
+const newFilterId = () => Date.now() + nextFilterId++;
+
+export function createFilter(kind: AdjustmentKind): AdjustmentFilter {
+  return { id: newFilterId(), kind, enabled: true, amount: FILTER_DEFINITIONS[kind].defaultAmount };
+}
+
+/** Copies of `filters` with fresh ids, e.g. when applying a preset to a segment. */
+export const cloneFilters = (filters: FrameFilter[]): FrameFilter[] =>
+  filters.map(filter => ({ ...filter, id: newFilterId() }));
+
+/** Reads an Adobe/Resolve .cube 3D LUT. Input domains other than 0-1 are not supported. */
+export function parseCubeLut(text: string, name: string): LutFilter {
+  let size = 0;
+  const table: number[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...values] = line.split(/\s+/);
+    if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(values[0], 10);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported; use a 3D .cube file.');
+    } else if (/^[-+\d.]/.test(keyword)) {
+      table.push(parseFloat(keyword), parseFloat(values[0]), parseFloat(values[1]));
+    }
+  }
+  if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+    throw new Error('The file has no valid LUT_3D_SIZE.');
+  }
+  if (table.length !== size ** 3 * 3 || table.some(value => !Number.isFinite(value))) {
+    throw new Error(`Expected ${size ** 3} colour entries for a ${size}-point LUT.`);
+  }
+  return { id: newFilterId(), kind: 'lut', enabled: true, amount: 1, name, size, table };
+}
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+function mapPixels(data: Uint8ClampedArray, map: (r: number, g: number, b: number, out: number[]) => void) {
+  const out = [0, 0, 0];
+  for (let p = 0; p < data.length; p += 4) {
+    map(data[p], data[p + 1], data[p + 2], out);
+    data[p] = out[0];
+    data[p + 1] = out[1];
+    data[p + 2] = out[2];
+  }
+}
+
+// Box blur, run three times to approximate a Gaussian.
+function blurPixels(data: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+  const r = Math.round(radius);
+  if (r < 1) return data.slice();
+  let source = data.slice();
+  let target = new Uint8ClampedArray(data.length);
+  const pass = (horizontal: boolean) => {
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    for (let line = 0; line < lines; line++) {
+      for (let channel = 0; channel < 3; channel++) {
+        const at = (i: number) => {
+          const clamped = i < 0 ? 0 : i >= length ? length - 1 : i;
+          return ((horizontal ? line * width + clamped : clamped * width + line) * 4) + channel;
+        };
+        let sum = 0;
+        for (let i = -r; i <= r; i++) sum += source[at(i)];
+        for (let i = 0; i < length; i++) {
+          target[at(i)] = sum / (2 * r + 1);
+          sum += source[at(i + r + 1)] - source[at(i - r)];
+        }
+      }
+    }
+    for (let p = 3; p < data.length; p += 4) target[p] = source[p];
+    [source, target] = [target, source];
+  };
+  for (let i = 0; i < 3; i++) {
+    pass(true);
+    pass(false);
+  }
+  return source;
+}
+
+function applyLut(data: Uint8ClampedArray, { size, table, amount }: LutFilter) {
+  const max = size - 1;
+  const entry = (r: number, g: number, b: number, channel: number) => table[((b * size + g) * size + r) * 3 + channel];
+  mapPixels(data, (r, g, b, out) => {
+    const x = r / 255 * max, y = g / 255 * max, z = b / 255 * max;
+    const x0 = Math.floor(x), y0 = Math.floor(y), z0 = Math.floor(z);
+    const x1 = Math.min(max, x0 + 1), y1 = Math.min(max, y0 + 1), z1 = Math.min(max, z0 + 1);
+    const fx = x - x0, fy = y - y0, fz = z - z0;
+    const source = [r, g, b];
+    for (let c = 0; c < 3; c++) {
+      const c00 = entry(x0, y0, z0, c) * (1 - fx) + entry(x1, y0, z0, c) * fx;
+      const c10 = entry(x0, y1, z0, c) * (1 - fx) + entry(x1, y1, z0, c) * fx;
+      const c01 = entry(x0, y0, z1, c) * (1 - fx) + entry(x1, y0, z1, c) * fx;
+      const c11 = entry(x0, y1, z1, c) * (1 - fx) + entry(x1, y1, z1, c) * fx;
+      const value = ((c00 * (1 - fy) + c10 * fy) * (1 - fz) + (c01 * (1 - fy) + c11 * fy) * fz) * 255;
+      out[c] = source[c] + (value - source[c]) * amount;
+    }
+  });
+}
+
+function applyFilter(image: ImageData, filter: FrameFilter) {
+  const { data, width, height } = image;
+  const { amount } = filter;
+  const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+  switch (filter.kind) {
+    case 'brightness':
+      mapPixels(data, (r, g, b, out) => {
+        out[0] = r + amount * 255; out[1] = g + amount * 255; out[2] = b + amount * 255;
+      });
+      break;
+    case 'contrast': {
+      const factor = amount >= 0 ? 1 + amount * 2 : 1 + amount;
+      mapPixels(data, (r, g, b, out) => {
+        out[0] = (r - 128) * factor + 128; out[1] = (g - 128) * factor + 128; out[2] = (b - 128) * factor + 128;
+      });
+      break;
+    }
+    case 'saturation':
+    case 'grayscale': {
+      const factor = filter.kind === 'saturation' ? 1 + amount : 1 - amount;
+      mapPixels(data, (r, g, b, out) => {
+        const y = luma(r, g, b);
+        out[0] = y + (r - y) * factor; out[1] = y + (g - y) * factor; out[2] = y + (b - y) * factor;
+      });
+      break;
+    }
+    case 'sepia':
+      mapPixels(data, (r, g, b, out) => {
+        out[0] = r + (clampByte(0.393 * r + 0.769 * g + 0.189 * b) - r) * amount;
+        out[1] = g + (clampByte(0.349 * r + 0.686 * g + 0.168 * b) - g) * amount;
+        out[2] = b + (clampByte(0.272 * r + 0.534 * g + 0.131 * b) - b) * amount;
+      });
+      break;
+    case 'blur':
+      data.set(blurPixels(data, width, height, amount * width / REFERENCE_WIDTH));
+      break;
+    case 'sharpen': {
+      // Unsharp mask: push each pixel away from its blurred surroundings.
+      const blurred = blurPixels(data, width, height, Math.max(1, width / REFERENCE_WIDTH));
+      for (let p = 0; p < data.length; p += 4) {
+        for (let c = 0; c < 3; c++) data[p + c] = data[p + c] + (data[p + c] - blurred[p + c]) * amount;
+      }
+      break;
+    }
+    case 'vignette': {
+      const cx = width / 2, cy = height / 2;
+      const maxDistance = Math.hypot(cx, cy);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const d = Math.hypot(x - cx, y - cy) / maxDistance;
+          // Untouched in the middle, darkening smoothly towards the corners.
+          const t = Math.min(1, Math.max(0, (d - 0.4) / 0.6));
+          const factor = 1 - amount * t * t * (3 - 2 * t);
+          const p = (y * width + x) * 4;
+          data[p] *= factor; data[p + 1] *= factor; data[p + 2] *= factor;
+        }
+      }
+      break;
+    }
+    case 'lut':
+      applyLut(data, filter);
+      break;
+  }
+}
+
+export const hasActiveFilters = (filters: FrameFilter[]) => filters.some(filter => filter.enabled);
+
+/** Runs the enabled filters, in order, over everything on the canvas. */
+export function applyFilters(context: CanvasRenderingContext2D, filters: FrameFilter[]) {
+  if (!hasActiveFilters(filters)) return;
+  const { width, height } = context.canvas;
+  const image = context.getImageData(0, 0, width, height);
+  for (const filter of filters) {
+    if (filter.enabled) applyFilter(image, filter);
+  }
+  context.putImageData(image, 0, 0);
+}
+
+/** A filtered copy of an image URL (e.g. a strip thumbnail) as a JPEG data URL. */
+export async function filterImageUrl(url: string, filters: FrameFilter[]): Promise<string> {
+  const image = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create a 2D canvas context.');
+  }
+  context.drawImage(image, 0, 0);
+  applyFilters(context, filters);
+  return canvas.toDataURL('image/jpeg', FILTERED_THUMBNAIL_QUALITY);
+}
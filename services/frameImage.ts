@@ -0,0 +1,68 @@
+import { type Frame } from '../types';
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load frame image.'));
+    img.src = src;
+  });
+}
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// 'fill' stretches the frame to the output size; 'contain' keeps its aspect
+// ratio and letterboxes it in black.
+export type FrameFit = 'fill' | 'contain';
+
+/**
+ * Decodes a frame into RGBA pixels at the given size. `decorate` can draw on
+ * top of the frame (captions, watermarks) before pixels are read.
+ */
+export async function getFrameImageData(
+  frame: Frame,
+  width: number,
+  height: number,
+  decorate?: (context: CanvasRenderingContext2D) => void,
+  fit: FrameFit = 'fill',
+): Promise<ImageData> {
+  const bitmap = await createImageBitmap(frame.blob);
+  if (!scratchCanvas) {
+    scratchCanvas = document.createElement('canvas');
+  }
+  scratchCanvas.width = width;
+  scratchCanvas.height = height;
+  const context = scratchCanvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    bitmap.close();
+    throw new Error('Could not create a 2D canvas context.');
+  }
+  if (fit === 'contain') {
+    const scale = Math.min(width / bitmap.width, height / bitmap.height);
+    const drawWidth = bitmap.width * scale;
+    const drawHeight = bitmap.height * scale;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(bitmap, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  } else {
+    context.drawImage(bitmap, 0, 0, width, height);
+  }
+  bitmap.close();
+  decorate?.(context);
+  return context.getImageData(0, 0, width, height);
+}
+
+/** Encodes RGBA pixels as an image file, e.g. PNG or WebP. */
+export function imageDataToBlob(imageData: ImageData, type: string, quality?: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Could not create a 2D canvas context.'));
+  }
+  context.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Failed to encode ${type}.`)), type, quality);
+  });
+}
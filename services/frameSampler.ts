@@ -0,0 +1,124 @@
+import { type Frame } from '../types';
+import { getLuma, meanDifference } from './sceneDetection';
+
+export interface FrameSamplingOptions {
+  // Most frames sent with one description request
+  maxFrames: number;
+  // Longest side of each sent frame, in pixels
+  maxDimension: number;
+}
+
+export const DEFAULT_FRAME_SAMPLING: FrameSamplingOptions = { maxFrames: 8, maxDimension: 512 };
+export const SAMPLE_FRAME_COUNTS = [1, 2, 4, 6, 8, 12, 16, 24];
+export const SAMPLE_DIMENSIONS = [256, 384, 512, 768, 1024];
+
+export interface SampledFrame {
+  frameId: number;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface RequestCost {
+  frameCount: number;
+  // Size of the base64 images in the request body
+  bytes: number;
+  tokens: number;
+}
+
+// Frames are compared as tiny thumbnails; enough to tell motion from stillness.
+export const SIGNATURE_SIZE = 24;
+const SAMPLE_QUALITY = 0.8;
+// Gemini bills small images as one tile and larger ones per 768px tile.
+const TOKENS_PER_IMAGE_TILE = 258;
+const SMALL_IMAGE_DIMENSION = 384;
+const IMAGE_TILE_SIZE = 768;
+
+/**
+ * Picks up to `count` indices spread evenly over the accumulated visual change,
+ * so busy stretches get more keyframes than still ones. `differences[i]` is the
+ * change from frame i - 1 to frame i. The first frame is always kept.
+ */
+export function pickKeyframeIndices(differences: number[], count: number): number[] {
+  const frameCount = differences.length;
+  if (frameCount <= count) return differences.map((_, i) => i);
+  if (count === 1) return [0];
+
+  let sum = 0;
+  const cumulative = differences.map((difference, i) => (sum += i === 0 ? 0 : difference));
+  const total = cumulative[frameCount - 1];
+
+  const picked = new Set<number>();
+  for (let k = 0; k < count; k++) {
+    if (total === 0) {
+      picked.add(Math.round(k * (frameCount - 1) / (count - 1)));
+      continue;
+    }
+    const target = total * k / (count - 1);
+    picked.add(cumulative.findIndex(value => value >= target));
+  }
+  return [...picked].sort((a, b) => a - b);
+}
+
+function createContext(width: number, height: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create a 2D canvas context.');
+  }
+  return context;
+}
+
+/**
+ * Reduces the frames sent to the description model: representative keyframes
+ * picked by visual difference, downscaled to at most `maxDimension`.
+ */
+export async function sampleKeyframes(frames: Frame[], options: FrameSamplingOptions): Promise<SampledFrame[]> {
+  if (frames.length === 0) return [];
+  const signature = createContext(SIGNATURE_SIZE, SIGNATURE_SIZE);
+
+  let indices = frames.map((_, i) => i);
+  if (frames.length > options.maxFrames) {
+    const differences: number[] = [];
+    let previous: Float32Array | null = null;
+    for (const frame of frames) {
+      const bitmap = await createImageBitmap(frame.blob);
+      signature.drawImage(bitmap, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+      bitmap.close();
+      const luma = getLuma(signature, SIGNATURE_SIZE, SIGNATURE_SIZE);
+      differences.push(previous ? meanDifference(previous, luma) : 0);
+      previous = luma;
+    }
+    indices = pickKeyframeIndices(differences, options.maxFrames);
+  }
+
+  const samples: SampledFrame[] = [];
+  for (const index of indices) {
+    const frame = frames[index];
+    const bitmap = await createImageBitmap(frame.blob);
+    const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = createContext(width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    samples.push({ frameId: frame.id, dataUrl: context.canvas.toDataURL('image/jpeg', SAMPLE_QUALITY), width, height });
+  }
+  return samples;
+}
+
+export function estimateImageTokens(width: number, height: number): number {
+  if (width <= SMALL_IMAGE_DIMENSION && height <= SMALL_IMAGE_DIMENSION) return TOKENS_PER_IMAGE_TILE;
+  return Math.ceil(width / IMAGE_TILE_SIZE) * Math.ceil(height / IMAGE_TILE_SIZE) * TOKENS_PER_IMAGE_TILE;
+}
+
+/** Rough size of a description request made of these samples; the prompt is not counted. */
+export function estimateRequestCost(samples: SampledFrame[]): RequestCost {
+  return {
+    frameCount: samples.length,
+    bytes: samples.reduce((sum, sample) => sum + sample.dataUrl.length, 0),
+    tokens: samples.reduce((sum, sample) => sum + estimateImageTokens(sample.width, sample.height), 0),
+  };
+}
@@ -0,0 +1,59 @@
+import { type FrameTransform } from '../types';
+
+export const DEFAULT_FRAME_TRANSFORM: FrameTransform = {
+  crop: null,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  scale: 1,
+};
+
+const MIN_SIZE = 1;
+
+function getSourceRect(sourceWidth: number, sourceHeight: number, transform: FrameTransform) {
+  const crop = transform.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  return {
+    x: crop.x * sourceWidth,
+    y: crop.y * sourceHeight,
+    width: Math.max(MIN_SIZE, crop.width * sourceWidth),
+    height: Math.max(MIN_SIZE, crop.height * sourceHeight),
+  };
+}
+
+/** Size of a frame after crop, scale and rotation. */
+export function getTransformedSize(sourceWidth: number, sourceHeight: number, transform: FrameTransform) {
+  const rect = getSourceRect(sourceWidth, sourceHeight, transform);
+  const width = Math.max(MIN_SIZE, Math.round(rect.width * transform.scale));
+  const height = Math.max(MIN_SIZE, Math.round(rect.height * transform.scale));
+  const rotated = transform.rotation === 90 || transform.rotation === 270;
+  return rotated ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Draws `source` onto `canvas` with the transform applied, resizing the canvas
+ * to the transformed frame size.
+ */
+export function drawTransformedFrame(
+  canvas: HTMLCanvasElement,
+  context: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: FrameTransform,
+) {
+  const rect = getSourceRect(sourceWidth, sourceHeight, transform);
+  const { width, height } = getTransformedSize(sourceWidth, sourceHeight, transform);
+  canvas.width = width;
+  canvas.height = height;
+
+  const rotated = transform.rotation === 90 || transform.rotation === 270;
+  const drawWidth = rotated ? height : width;
+  const drawHeight = rotated ? width : height;
+
+  context.save();
+  context.translate(width / 2, height / 2);
+  context.rotate((transform.rotation * Math.PI) / 180);
+  context.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+  context.drawImage(source, rect.x, rect.y, rect.width, rect.height, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  context.restore();
+}
@@ -1,14 +1,20 @@
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { type DescriptionStyle, type GifMetadata } from "../types";
+import { DEFAULT_DESCRIPTION_STYLE, MOMENT_RANKING_PROMPT, DescriptionError, buildDescriptionPrompt, isTransientStatus, parseGifMetadata, type DescriptionProvider, type MomentRanking } from "./descriptionProvider";
 
-import { GoogleGenAI } from "@google/genai";
+// Clients are created lazily so that a missing key only fails the request
+// that needs it, not the whole app at import time.
+const clients = new Map<string, GoogleGenAI>();
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+function getClient(apiKey: string): GoogleGenAI {
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
 function dataUrlToGeminiPart(dataUrl: string) {
   // data:image/jpeg;base64,....
   const [header, data] = dataUrl.split(',');
@@ -21,28 +27,106 @@ function dataUrlToGeminiPart(dataUrl: string) {
   };
 }
 
-export async function generateDescriptionForFrames(frameDataUrls: string[]): Promise<string> {
+const GIF_METADATA_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    altText: { type: Type.STRING },
+    description: { type: Type.STRING },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    fileName: { type: Type.STRING },
+  },
+  required: ['title', 'altText', 'description', 'hashtags', 'fileName'],
+};
+
+export async function generateDescriptionForFrames(
+  frameDataUrls: string[],
+  apiKey: string | undefined = process.env.API_KEY,
+  style: DescriptionStyle = DEFAULT_DESCRIPTION_STYLE,
+): Promise<GifMetadata> {
+  if (!apiKey) {
+    throw new DescriptionError("No Gemini API key configured.", false);
+  }
+
   const model = 'gemini-2.5-flash';
-  
-  const prompt = "These are sequential frames from a video. Describe the short action sequence depicted in these frames as if you were describing an animated GIF. Be concise, vivid, and focus on the main action. Start your description directly, without any preamble like 'This GIF shows...'";
-  
+
   const imageParts = frameDataUrls.map(dataUrlToGeminiPart);
-  
+
   const contents = {
       parts: [
-        { text: prompt },
+        { text: buildDescriptionPrompt(style) },
         ...imageParts
       ]
   };
 
+  let text: string | undefined;
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient(apiKey).models.generateContent({
         model,
         contents,
+        config: { responseMimeType: 'application/json', responseSchema: GIF_METADATA_SCHEMA },
     });
-    return response.text;
+    text = response.text;
   } catch (error) {
     console.error("Error calling Gemini API:", error);
-    throw new Error("The AI model failed to generate a description.");
+    // Anything that is not an API error (e.g. a dropped connection) is worth another try.
+    const transient = error instanceof ApiError ? isTransientStatus(error.status) : true;
+    throw new DescriptionError("The AI model failed to generate a description.", transient);
   }
+  return parseGifMetadata(text ?? '');
+}
+
+const MOMENT_RANKING_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.INTEGER },
+      score: { type: Type.NUMBER },
+      title: { type: Type.STRING },
+    },
+    required: ['index', 'score', 'title'],
+  },
+};
+
+export async function rankMomentsWithGemini(previewDataUrls: string[], apiKey: string | undefined = process.env.API_KEY): Promise<MomentRanking[]> {
+  if (!apiKey) {
+    throw new DescriptionError("No Gemini API key configured.", false);
+  }
+
+  const contents = {
+    parts: [
+      { text: MOMENT_RANKING_PROMPT },
+      ...previewDataUrls.flatMap((dataUrl, index) => [{ text: `Moment ${index}:` }, dataUrlToGeminiPart(dataUrl)]),
+    ],
+  };
+
+  let text: string | undefined;
+  try {
+    const response = await getClient(apiKey).models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents,
+      config: { responseMimeType: 'application/json', responseSchema: MOMENT_RANKING_SCHEMA },
+    });
+    text = response.text;
+  } catch (error) {
+    console.error("Error calling Gemini API:", error);
+    const transient = error instanceof ApiError ? isTransientStatus(error.status) : true;
+    throw new DescriptionError("The AI model failed to rank the moments.", transient);
+  }
+
+  try {
+    const rankings: MomentRanking[] = JSON.parse(text ?? '[]');
+    return rankings.filter(ranking => Number.isInteger(ranking.index) && ranking.index >= 0 && ranking.index < previewDataUrls.length);
+  } catch {
+    throw new DescriptionError("The AI model returned an unreadable ranking.", false);
+  }
+}
+
+export function createGeminiProvider(apiKey: string | undefined, style: DescriptionStyle): DescriptionProvider {
+  return {
+    kind: 'gemini',
+    generateDescription: (frameDataUrls, options) => generateDescriptionForFrames(frameDataUrls, apiKey, options?.style ?? style),
+    rankMoments: (previewDataUrls) => rankMomentsWithGemini(previewDataUrls, apiKey),
+  };
 }
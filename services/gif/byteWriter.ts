@@ -0,0 +1,44 @@
+// Growable little-endian byte buffer used to assemble GIF streams.
+export class ByteWriter {
+  private buffer: Uint8Array;
+  private length = 0;
+
+  constructor(initialCapacity = 4096) {
+    this.buffer = new Uint8Array(initialCapacity);
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  writeByte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeShort(value: number) {
+    this.writeByte(value);
+    this.writeByte(value >> 8);
+  }
+
+  writeBytes(bytes: ArrayLike<number>) {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  writeString(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      this.writeByte(text.charCodeAt(i));
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
@@ -0,0 +1,27 @@
+import { encodeFrame } from './gifEncoder';
+import { type GifWorkerRequest, type GifWorkerResponse } from './protocol';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<GifWorkerRequest>) => void) | null;
+  postMessage: (message: GifWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  const { jobId, index } = request;
+  try {
+    const bytes = encodeFrame({
+      data: new Uint8ClampedArray(request.pixels),
+      width: request.width,
+      height: request.height,
+      left: request.left,
+      top: request.top,
+      delay: request.delay,
+      transparent: request.transparent ? new Uint8Array(request.transparent) : undefined,
+    }, request.options, request.palette ?? undefined);
+    scope.postMessage({ type: 'frame-encoded', jobId, index, bytes: bytes.buffer as ArrayBuffer }, [bytes.buffer as ArrayBuffer]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    scope.postMessage({ type: 'frame-error', jobId, index, message });
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { buildGlobalPalette, encodeGif, type GifFrameInput } from './gifEncoder';
+import { decodeGif, renderGifFrames } from './testing/decodeGif';
+
+const RED = [220, 30, 40];
+const GREEN = [30, 200, 60];
+const BLUE = [20, 40, 210];
+const WHITE = [250, 250, 250];
+
+// Four colour quadrants, rotated by `shift` so frames differ.
+function quadrants(width: number, height: number, shift = 0): Uint8ClampedArray {
+  const colors = [RED, GREEN, BLUE, WHITE];
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const quadrant = (y < height / 2 ? 0 : 2) + (x < width / 2 ? 0 : 1);
+      data.set([...colors[(quadrant + shift) % 4], 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+// Largest per-channel difference, ignoring alpha
+function maxDifference(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (i % 4 !== 3) max = Math.max(max, Math.abs(a[i] - b[i]));
+  }
+  return max;
+}
+
+const options = { quality: 1, dither: 'none' as const };
+// NeuQuant lands close to, not exactly on, the source colours. It needs a
+// few thousand pixels to settle, so colour checks use frames at least that big.
+const COLOR_TOLERANCE = 8;
+
+describe('encodeGif', () => {
+  it('writes the canvas size, frame delays and pixels', () => {
+    const frames: GifFrameInput[] = [0, 1, 2].map(shift => ({ data: quadrants(64, 48, shift), width: 64, height: 48, delay: 100 + shift * 50 }));
+    const gif = decodeGif(encodeGif(frames, { ...options, repeat: 0 }));
+
+    expect(gif).toMatchObject({ width: 64, height: 48, globalPalette: null, repeat: 0 });
+    expect(gif.frames.map(frame => frame.delay)).toEqual([100, 150, 200]);
+    renderGifFrames(gif).forEach((pixels, i) => {
+      expect(maxDifference(pixels, frames[i].data)).toBeLessThanOrEqual(COLOR_TOLERANCE);
+    });
+  });
+
+  it.each([
+    [0, 0],
+    [3, 3],
+    [-1, null],
+  ])('writes repeat %i as %s in the NETSCAPE extension', (repeat, expected) => {
+    const frame = { data: quadrants(4, 4), width: 4, height: 4, delay: 100 };
+    expect(decodeGif(encodeGif([frame], { ...options, repeat })).repeat).toBe(expected);
+  });
+
+  it('rounds delays to hundredths of a second', () => {
+    const frame = { data: quadrants(4, 4), width: 4, height: 4, delay: 67 };
+    expect(decodeGif(encodeGif([frame], { ...options, repeat: 0 })).frames[0].delay).toBe(70);
+  });
+
+  it('places smaller frames at their offset and keeps transparent pixels from the frame below', () => {
+    const base = { data: quadrants(64, 64), width: 64, height: 64, delay: 100 };
+    // A 2×2 patch at (3, 1) whose left column is transparent
+    const patch: GifFrameInput = {
+      data: Uint8ClampedArray.from([...BLUE, 255, ...WHITE, 255, ...BLUE, 255, ...WHITE, 255]),
+      width: 2,
+      height: 2,
+      left: 3,
+      top: 1,
+      delay: 100,
+      transparent: Uint8Array.of(1, 0, 1, 0),
+    };
+    const gif = decodeGif(encodeGif([base, patch], { ...options, repeat: 0 }));
+    expect(gif.frames[1]).toMatchObject({ left: 3, top: 1, width: 2, height: 2 });
+    expect(gif.frames[1].transparentIndex).toBeGreaterThanOrEqual(0);
+
+    const expected = Uint8ClampedArray.from(base.data);
+    expected.set([...WHITE, 255], (1 * 64 + 4) * 4);
+    expected.set([...WHITE, 255], (2 * 64 + 4) * 4);
+    expect(maxDifference(renderGifFrames(gif)[1], expected)).toBeLessThanOrEqual(COLOR_TOLERANCE);
+  });
+
+  it('uses a global palette instead of per-frame ones', () => {
+    const frames: GifFrameInput[] = [0, 1].map(shift => ({ data: quadrants(48, 48, shift), width: 48, height: 48, delay: 100 }));
+    const palette = buildGlobalPalette(frames, options);
+    const bytes = encodeGif(frames, { ...options, repeat: 0, palette });
+    const gif = decodeGif(bytes);
+
+    expect(gif.globalPalette).toEqual(palette.colors);
+    gif.frames.forEach(frame => expect(frame.palette).toBe(gif.globalPalette));
+    renderGifFrames(gif).forEach((pixels, i) => {
+      expect(maxDifference(pixels, frames[i].data)).toBeLessThanOrEqual(COLOR_TOLERANCE);
+    });
+  });
+
+  it('refuses to encode without frames', () => {
+    expect(() => encodeGif([], { ...options, repeat: 0 })).toThrow();
+  });
+});
@@ -0,0 +1,321 @@
+import { ByteWriter } from './byteWriter';
+import { writeLzwImageData } from './lzw';
+import { NeuQuant } from './neuQuant';
+import { type DitherMode } from '../../types';
+
+// Pure GIF89a encoder. Nothing in here touches the DOM, so it runs the same in
+// a Web Worker, on the main thread or in Node.
+
+export interface GifFrameInput {
+  // RGBA pixels, e.g. ImageData.data
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+  // Display time in milliseconds
+  delay: number;
+  // Position on the canvas, for frames smaller than the animation
+  left?: number;
+  top?: number;
+  // 1 for each pixel left transparent so the previous frame shows through
+  transparent?: Uint8Array;
+}
+
+export interface GifFrameOptions {
+  // NeuQuant sample factor: 1 is best quality, 30 is fastest.
+  quality: number;
+  dither: DitherMode;
+}
+
+export interface GifStreamOptions {
+  width: number;
+  height: number;
+  // 0 loops forever, -1 plays once, n > 0 repeats n times.
+  repeat: number;
+  // Written as the global colour table when frames share one palette
+  palette?: GlobalPalette;
+}
+
+// One palette shared by every frame of an animation.
+export interface GlobalPalette {
+  // 256 RGB triplets
+  colors: Uint8Array;
+  // Kept free of colours so it can mark transparent pixels
+  transparentIndex: number;
+}
+
+export interface QuantizedFrame {
+  palette: Uint8Array;
+  indices: Uint8Array;
+  // -1 when the frame has no transparent pixels
+  transparentIndex: number;
+}
+
+const PALETTE_SIZE = 256;
+const GIF_TRAILER = 0x3b;
+// Pixels sampled from all frames to build a global palette
+const MAX_GLOBAL_PALETTE_SAMPLES = 500_000;
+// Graphic control extension flags
+const DISPOSE_DO_NOT = 1 << 2;
+const HAS_TRANSPARENCY = 1;
+
+// 4x4 Bayer matrix, normalised to [-0.5, 0.5) and scaled by ORDERED_DITHER_STRENGTH.
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => v / 16 - 0.5);
+const ORDERED_DITHER_STRENGTH = 32;
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+
+type ColorLookup = (r: number, g: number, b: number) => number;
+
+function nearestColor(palette: Uint8Array, r: number, g: number, b: number, exclude: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < PALETTE_SIZE; i++) {
+    if (i === exclude) continue;
+    const distance = Math.abs(palette[i * 3] - r) + Math.abs(palette[i * 3 + 1] - g) + Math.abs(palette[i * 3 + 2] - b);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  }
+  return best;
+}
+
+// Nearest-colour search over a fixed palette, cached per colour.
+function createPaletteLookup(palette: Uint8Array, exclude: number): ColorLookup {
+  const cache = new Map<number, number>();
+  return (r, g, b) => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      index = nearestColor(palette, r, g, b, exclude);
+      cache.set(key, index);
+    }
+    return index;
+  };
+}
+
+// RGB triplets of the pixels, skipping transparent ones.
+function toRgb(data: Uint8ClampedArray | Uint8Array, transparent?: Uint8Array): Uint8Array {
+  const pixelCount = data.length / 4;
+  const rgb = new Uint8Array(pixelCount * 3);
+  let j = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    if (transparent?.[i]) continue;
+    rgb[j++] = data[i * 4];
+    rgb[j++] = data[i * 4 + 1];
+    rgb[j++] = data[i * 4 + 2];
+  }
+  return rgb.subarray(0, j);
+}
+
+function indexPixels(rgb: Uint8Array, width: number, lookup: ColorLookup, palette: Uint8Array, dither: DitherMode): Uint8Array {
+  const pixelCount = rgb.length / 3;
+  const indices = new Uint8Array(pixelCount);
+
+  if (dither === 'ordered') {
+    for (let i = 0, j = 0; i < pixelCount; i++, j += 3) {
+      const offset = BAYER_4X4[((Math.floor(i / width) & 3) << 2) | ((i % width) & 3)] * ORDERED_DITHER_STRENGTH;
+      indices[i] = lookup(clampByte(rgb[j] + offset), clampByte(rgb[j + 1] + offset), clampByte(rgb[j + 2] + offset));
+    }
+    return indices;
+  }
+
+  if (dither === 'floyd-steinberg') {
+    const height = pixelCount / width;
+    const error = new Float32Array(rgb.length);
+    for (let i = 0; i < rgb.length; i++) error[i] = rgb[i];
+
+    const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+      if (x < 0 || x >= width || y >= height) return;
+      const k = (y * width + x) * 3;
+      error[k] += er * weight;
+      error[k + 1] += eg * weight;
+      error[k + 2] += eb * weight;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const j = i * 3;
+        const r = clampByte(error[j]);
+        const g = clampByte(error[j + 1]);
+        const b = clampByte(error[j + 2]);
+        const index = lookup(r, g, b);
+        indices[i] = index;
+        const er = r - palette[index * 3];
+        const eg = g - palette[index * 3 + 1];
+        const eb = b - palette[index * 3 + 2];
+        spread(x + 1, y, er, eg, eb, 7 / 16);
+        spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+        spread(x, y + 1, er, eg, eb, 5 / 16);
+        spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+      }
+    }
+    return indices;
+  }
+
+  for (let i = 0, j = 0; i < pixelCount; i++, j += 3) {
+    indices[i] = lookup(rgb[j], rgb[j + 1], rgb[j + 2]);
+  }
+  return indices;
+}
+
+const toSampleFactor = (quality: number) => Math.max(1, Math.min(30, Math.round(quality)));
+
+/**
+ * Builds a palette for one frame and maps its pixels to it. Transparent pixels
+ * don't take part in building the palette; the least used entry is then freed
+ * up for them and its pixels moved to their next nearest colour.
+ */
+export function quantizeFrame(data: Uint8ClampedArray | Uint8Array, width: number, options: GifFrameOptions, transparent?: Uint8Array): QuantizedFrame {
+  const quantizer = new NeuQuant(toRgb(data, transparent), toSampleFactor(options.quality));
+  quantizer.buildColormap();
+  const palette = quantizer.getColormap();
+  const rgb = toRgb(data);
+  const indices = indexPixels(rgb, width, (r, g, b) => quantizer.lookupRGB(r, g, b), palette, options.dither);
+  if (!transparent) return { palette, indices, transparentIndex: -1 };
+
+  const usage = new Uint32Array(PALETTE_SIZE);
+  indices.forEach((index, i) => { if (!transparent[i]) usage[index]++; });
+  const transparentIndex = usage.indexOf(Math.min(...usage));
+  for (let i = 0; i < indices.length; i++) {
+    if (transparent[i]) {
+      indices[i] = transparentIndex;
+    } else if (indices[i] === transparentIndex) {
+      indices[i] = nearestColor(palette, rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2], transparentIndex);
+    }
+  }
+  return { palette, indices, transparentIndex };
+}
+
+/**
+ * One palette for a whole animation, built from pixels sampled evenly across
+ * all frames. The least used entry is reserved for transparency.
+ */
+export function buildGlobalPalette(frames: GifFrameInput[], options: GifFrameOptions): GlobalPalette {
+  const total = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+  const stride = Math.max(1, Math.ceil(total / MAX_GLOBAL_PALETTE_SAMPLES));
+  const samples: number[] = [];
+  // The stride carries on across frames, so small frames still get sampled.
+  let start = 0;
+  for (const frame of frames) {
+    const pixelCount = frame.width * frame.height;
+    let i = start;
+    for (; i < pixelCount; i += stride) {
+      if (frame.transparent?.[i]) continue;
+      samples.push(frame.data[i * 4], frame.data[i * 4 + 1], frame.data[i * 4 + 2]);
+    }
+    start = i - pixelCount;
+  }
+
+  const rgb = Uint8Array.from(samples);
+  const quantizer = new NeuQuant(rgb, toSampleFactor(options.quality));
+  quantizer.buildColormap();
+  const usage = new Uint32Array(PALETTE_SIZE);
+  for (let j = 0; j < rgb.length; j += 3) {
+    usage[quantizer.lookupRGB(rgb[j], rgb[j + 1], rgb[j + 2])]++;
+  }
+  return { colors: quantizer.getColormap(), transparentIndex: usage.indexOf(Math.min(...usage)) };
+}
+
+/** Header, logical screen descriptor, optional global palette and (when looping) the NETSCAPE2.0 extension. */
+export function encodeGifHeader({ width, height, repeat, palette }: GifStreamOptions): Uint8Array {
+  const out = new ByteWriter(64 + PALETTE_SIZE * 3);
+  out.writeString('GIF89a');
+  out.writeShort(width);
+  out.writeShort(height);
+  if (palette) {
+    // Global colour table of 2^(7+1) entries, 8 bits per channel.
+    out.writeByte(0x80 | 0x70 | 7);
+    out.writeByte(0); // background colour index
+    out.writeByte(0); // pixel aspect ratio
+    out.writeBytes(palette.colors);
+  } else {
+    // No global colour table; every frame carries its own palette.
+    out.writeByte(0);
+    out.writeByte(0); // background colour index
+    out.writeByte(0); // pixel aspect ratio
+  }
+
+  if (repeat >= 0) {
+    out.writeByte(0x21);
+    out.writeByte(0xff);
+    out.writeByte(11);
+    out.writeString('NETSCAPE2.0');
+    out.writeByte(3);
+    out.writeByte(1);
+    out.writeShort(repeat);
+    out.writeByte(0);
+  }
+  return out.toUint8Array();
+}
+
+/**
+ * Graphic control extension, image descriptor, local palette (unless the
+ * animation has a global one) and LZW data for one frame.
+ */
+export function encodeFrame(frame: GifFrameInput, options: GifFrameOptions, globalPalette?: GlobalPalette): Uint8Array {
+  const { transparent } = frame;
+  let palette: Uint8Array | null = null;
+  let indices: Uint8Array;
+  let transparentIndex: number;
+  if (globalPalette) {
+    ({ transparentIndex } = globalPalette);
+    indices = indexPixels(toRgb(frame.data), frame.width, createPaletteLookup(globalPalette.colors, transparentIndex), globalPalette.colors, options.dither);
+    if (transparent) indices.forEach((_, i) => { if (transparent[i]) indices[i] = transparentIndex; });
+  } else {
+    ({ palette, indices, transparentIndex } = quantizeFrame(frame.data, frame.width, options, transparent));
+  }
+  const out = new ByteWriter(indices.length / 2 + 1024);
+
+  out.writeByte(0x21);
+  out.writeByte(0xf9);
+  out.writeByte(4);
+  // Frames with transparency draw over the previous one, which must stay in place.
+  out.writeByte(transparent ? DISPOSE_DO_NOT | HAS_TRANSPARENCY : 0);
+  out.writeShort(Math.round(frame.delay / 10));
+  out.writeByte(transparent ? transparentIndex : 0);
+  out.writeByte(0);
+
+  out.writeByte(0x2c);
+  out.writeShort(frame.left ?? 0);
+  out.writeShort(frame.top ?? 0);
+  out.writeShort(frame.width);
+  out.writeShort(frame.height);
+  if (palette) {
+    // Local colour table of 2^(7+1) entries, not interlaced.
+    out.writeByte(0x80 | 7);
+    out.writeBytes(palette);
+    for (let i = palette.length; i < PALETTE_SIZE * 3; i++) {
+      out.writeByte(0);
+    }
+  } else {
+    out.writeByte(0);
+  }
+
+  writeLzwImageData(indices, 8, out);
+  return out.toUint8Array();
+}
+
+export function concatGif(header: Uint8Array, frames: Uint8Array[]): Uint8Array {
+  const length = header.length + frames.reduce((sum, f) => sum + f.length, 0) + 1;
+  const result = new Uint8Array(length);
+  result.set(header, 0);
+  let offset = header.length;
+  for (const frame of frames) {
+    result.set(frame, offset);
+    offset += frame.length;
+  }
+  result[offset] = GIF_TRAILER;
+  return result;
+}
+
+/** Encodes a whole animation synchronously. The first frame sets the canvas size. */
+export function encodeGif(frames: GifFrameInput[], options: GifFrameOptions & { repeat: number; palette?: GlobalPalette }): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error('Cannot encode a GIF without frames.');
+  }
+  const { width, height } = frames[0];
+  const header = encodeGifHeader({ width, height, repeat: options.repeat, palette: options.palette });
+  return concatGif(header, frames.map(frame => encodeFrame(frame, options, options.palette)));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ByteWriter } from './byteWriter';
+import { writeLzwImageData } from './lzw';
+import { decodeLzw, readImageData } from './testing/decodeGif';
+
+// Deterministic pseudo-random indices below `alphabet`.
+function randomIndices(length: number, alphabet: number, seed = 1): Uint8Array {
+  let state = seed;
+  return Uint8Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) >>> 0;
+    return (state >>> 16) % alphabet;
+  });
+}
+
+function roundTrip(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out = new ByteWriter(16);
+  writeLzwImageData(indices, minCodeSize, out);
+  const { minCodeSize: written, data } = readImageData(out.toUint8Array(), 0);
+  expect(written).toBe(minCodeSize);
+  return decodeLzw(data, minCodeSize, indices.length);
+}
+
+describe('writeLzwImageData', () => {
+  it('writes only clear and end codes for an empty image', () => {
+    expect(roundTrip(new Uint8Array(0), 8)).toEqual(new Uint8Array(0));
+  });
+
+  it('round-trips a single pixel', () => {
+    expect(roundTrip(Uint8Array.of(200), 8)).toEqual(Uint8Array.of(200));
+  });
+
+  // Lengths chosen so the code table stops just before, at and after the
+  // points where codes grow from 9 to 10 bits and the table fills up.
+  it.each([250, 256, 257, 258, 300, 512, 1000, 4000, 20000])('round-trips %i random 8-bit indices', length => {
+    const indices = randomIndices(length, 256, length);
+    expect(roundTrip(indices, 8)).toEqual(indices);
+  });
+
+  it('round-trips long runs that grow every code size up to 12 bits', () => {
+    // A run of one value adds one table entry per emitted code, each a step
+    // longer, so 4096 codes need about 8 million pixels; half a million
+    // still crosses 9, 10 and 11 bits. Mixing in a second value fills the rest.
+    const run = new Uint8Array(500_000).fill(7);
+    expect(roundTrip(run, 8)).toEqual(run);
+    const mixed = randomIndices(200_000, 2, 7);
+    expect(roundTrip(mixed, 8)).toEqual(mixed);
+  });
+
+  it.each([2, 4, 7])('round-trips with a minimum code size of %i', minCodeSize => {
+    const indices = randomIndices(30000, 1 << minCodeSize, minCodeSize);
+    expect(roundTrip(indices, minCodeSize)).toEqual(indices);
+  });
+
+  it('resets the table with a clear code once all 4096 codes are used', () => {
+    const indices = randomIndices(50000, 256, 3);
+    const out = new ByteWriter();
+    writeLzwImageData(indices, 8, out);
+    const { data } = readImageData(out.toUint8Array(), 0);
+    const stats = { resets: 0 };
+    expect(decodeLzw(data, 8, indices.length, stats)).toEqual(indices);
+    expect(stats.resets).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,287 @@
+// NeuQuant neural-net colour quantizer (Anthony Dekker, 1994), adapted from
+// the public-domain port used by gif.js. Builds a 256 colour palette from RGB
+// pixels and maps colours to their nearest palette index.
+
+const NET_SIZE = 256;
+const MAX_NET_POS = NET_SIZE - 1;
+
+const NET_BIAS_SHIFT = 4;
+const N_CYCLES = 100;
+
+const INT_BIAS_SHIFT = 16;
+const INT_BIAS = 1 << INT_BIAS_SHIFT;
+const GAMMA_SHIFT = 10;
+const BETA_SHIFT = 10;
+const BETA = INT_BIAS >> BETA_SHIFT;
+const BETA_GAMMA = INT_BIAS << (GAMMA_SHIFT - BETA_SHIFT);
+
+const INIT_RAD = NET_SIZE >> 3;
+const RADIUS_BIAS_SHIFT = 6;
+const RADIUS_BIAS = 1 << RADIUS_BIAS_SHIFT;
+const INIT_RADIUS = INIT_RAD * RADIUS_BIAS;
+const RADIUS_DEC = 30;
+
+const ALPHA_BIAS_SHIFT = 10;
+const INIT_ALPHA = 1 << ALPHA_BIAS_SHIFT;
+const RAD_BIAS_SHIFT = 8;
+const RAD_BIAS = 1 << RAD_BIAS_SHIFT;
+const ALPHA_RAD_BIAS = 1 << (ALPHA_BIAS_SHIFT + RAD_BIAS_SHIFT);
+
+// Primes near 500, used to step through the image in a scattered order.
+const PRIME_1 = 499;
+const PRIME_2 = 491;
+const PRIME_3 = 487;
+const PRIME_4 = 503;
+const MIN_PICTURE_BYTES = 3 * PRIME_4;
+
+export class NeuQuant {
+  private network: Float64Array[] = [];
+  private netIndex = new Int32Array(256);
+  private bias = new Int32Array(NET_SIZE);
+  private freq = new Int32Array(NET_SIZE);
+  private radPower = new Int32Array(NET_SIZE >> 3);
+
+  /**
+   * @param pixels RGB triplets
+   * @param sampleFactor 1 (best, slowest) to 30 (fastest)
+   */
+  constructor(private readonly pixels: ArrayLike<number>, private sampleFactor: number) {
+    for (let i = 0; i < NET_SIZE; i++) {
+      const v = (i << (NET_BIAS_SHIFT + 8)) / NET_SIZE;
+      this.network[i] = new Float64Array([v, v, v, 0]);
+      this.freq[i] = INT_BIAS / NET_SIZE;
+      this.bias[i] = 0;
+    }
+  }
+
+  buildColormap() {
+    this.learn();
+    this.unbiasNet();
+    this.buildIndex();
+  }
+
+  /** Palette as 256 RGB triplets, ordered by palette index. */
+  getColormap(): Uint8Array {
+    const map = new Uint8Array(NET_SIZE * 3);
+    const index = new Int32Array(NET_SIZE);
+    for (let i = 0; i < NET_SIZE; i++) {
+      index[this.network[i][3]] = i;
+    }
+    let k = 0;
+    for (let l = 0; l < NET_SIZE; l++) {
+      const n = this.network[index[l]];
+      map[k++] = n[0];
+      map[k++] = n[1];
+      map[k++] = n[2];
+    }
+    return map;
+  }
+
+  /** Nearest palette index for a colour. Only valid after `buildColormap`. */
+  lookupRGB(r: number, g: number, b: number): number {
+    const network = this.network;
+    let bestDistance = 1000;
+    let best = -1;
+    let i = this.netIndex[g];
+    let j = i - 1;
+
+    while (i < NET_SIZE || j >= 0) {
+      if (i < NET_SIZE) {
+        const p = network[i];
+        let dist = p[1] - g;
+        if (dist >= bestDistance) {
+          i = NET_SIZE;
+        } else {
+          i++;
+          if (dist < 0) dist = -dist;
+          dist += Math.abs(p[0] - r);
+          if (dist < bestDistance) {
+            dist += Math.abs(p[2] - b);
+            if (dist < bestDistance) {
+              bestDistance = dist;
+              best = p[3];
+            }
+          }
+        }
+      }
+      if (j >= 0) {
+        const p = network[j];
+        let dist = g - p[1];
+        if (dist >= bestDistance) {
+          j = -1;
+        } else {
+          j--;
+          if (dist < 0) dist = -dist;
+          dist += Math.abs(p[0] - r);
+          if (dist < bestDistance) {
+            dist += Math.abs(p[2] - b);
+            if (dist < bestDistance) {
+              bestDistance = dist;
+              best = p[3];
+            }
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  private unbiasNet() {
+    for (let i = 0; i < NET_SIZE; i++) {
+      const n = this.network[i];
+      n[0] >>= NET_BIAS_SHIFT;
+      n[1] >>= NET_BIAS_SHIFT;
+      n[2] >>= NET_BIAS_SHIFT;
+      n[3] = i;
+    }
+  }
+
+  private alterSingle(alpha: number, i: number, r: number, g: number, b: number) {
+    const n = this.network[i];
+    n[0] -= (alpha * (n[0] - r)) / INIT_ALPHA;
+    n[1] -= (alpha * (n[1] - g)) / INIT_ALPHA;
+    n[2] -= (alpha * (n[2] - b)) / INIT_ALPHA;
+  }
+
+  private alterNeighbours(radius: number, i: number, r: number, g: number, b: number) {
+    const lo = Math.abs(i - radius);
+    const hi = Math.min(i + radius, NET_SIZE);
+    let j = i + 1;
+    let k = i - 1;
+    let m = 1;
+
+    while (j < hi || k > lo) {
+      const a = this.radPower[m++];
+      if (j < hi) {
+        const p = this.network[j++];
+        p[0] -= (a * (p[0] - r)) / ALPHA_RAD_BIAS;
+        p[1] -= (a * (p[1] - g)) / ALPHA_RAD_BIAS;
+        p[2] -= (a * (p[2] - b)) / ALPHA_RAD_BIAS;
+      }
+      if (k > lo) {
+        const p = this.network[k--];
+        p[0] -= (a * (p[0] - r)) / ALPHA_RAD_BIAS;
+        p[1] -= (a * (p[1] - g)) / ALPHA_RAD_BIAS;
+        p[2] -= (a * (p[2] - b)) / ALPHA_RAD_BIAS;
+      }
+    }
+  }
+
+  // Finds the closest neuron, biased towards rarely used ones, and updates frequencies.
+  private contest(r: number, g: number, b: number): number {
+    let bestDistance = ~(1 << 31);
+    let bestBiasDistance = bestDistance;
+    let bestPos = -1;
+    let bestBiasPos = bestPos;
+
+    for (let i = 0; i < NET_SIZE; i++) {
+      const n = this.network[i];
+      const dist = Math.abs(n[0] - r) + Math.abs(n[1] - g) + Math.abs(n[2] - b);
+      if (dist < bestDistance) {
+        bestDistance = dist;
+        bestPos = i;
+      }
+      const biasDistance = dist - (this.bias[i] >> (INT_BIAS_SHIFT - NET_BIAS_SHIFT));
+      if (biasDistance < bestBiasDistance) {
+        bestBiasDistance = biasDistance;
+        bestBiasPos = i;
+      }
+      const betaFreq = this.freq[i] >> BETA_SHIFT;
+      this.freq[i] -= betaFreq;
+      this.bias[i] += betaFreq << GAMMA_SHIFT;
+    }
+    this.freq[bestPos] += BETA;
+    this.bias[bestPos] -= BETA_GAMMA;
+    return bestBiasPos;
+  }
+
+  // Sorts the network by green and builds the index used by `lookupRGB`.
+  private buildIndex() {
+    const network = this.network;
+    let previousColor = 0;
+    let startPos = 0;
+
+    for (let i = 0; i < NET_SIZE; i++) {
+      const p = network[i];
+      let smallPos = i;
+      let smallValue = p[1];
+      for (let j = i + 1; j < NET_SIZE; j++) {
+        if (network[j][1] < smallValue) {
+          smallPos = j;
+          smallValue = network[j][1];
+        }
+      }
+      if (i !== smallPos) {
+        network[i] = network[smallPos];
+        network[smallPos] = p;
+      }
+      if (smallValue !== previousColor) {
+        this.netIndex[previousColor] = (startPos + i) >> 1;
+        for (let j = previousColor + 1; j < smallValue; j++) {
+          this.netIndex[j] = i;
+        }
+        previousColor = smallValue;
+        startPos = i;
+      }
+    }
+    this.netIndex[previousColor] = (startPos + MAX_NET_POS) >> 1;
+    for (let j = previousColor + 1; j < 256; j++) {
+      this.netIndex[j] = MAX_NET_POS;
+    }
+  }
+
+  private updateRadPower(rad: number, alpha: number) {
+    for (let i = 0; i < rad; i++) {
+      this.radPower[i] = alpha * (((rad * rad - i * i) * RAD_BIAS) / (rad * rad));
+    }
+  }
+
+  private learn() {
+    const pixels = this.pixels;
+    const lengthCount = pixels.length;
+    const alphaDec = 30 + (this.sampleFactor - 1) / 3;
+    const samplePixels = lengthCount / (3 * this.sampleFactor);
+    const delta = ~~(samplePixels / N_CYCLES) || 1;
+    let alpha = INIT_ALPHA;
+    let radius = INIT_RADIUS;
+    let rad = radius >> RADIUS_BIAS_SHIFT;
+    if (rad <= 1) rad = 0;
+    this.updateRadPower(rad, alpha);
+
+    let step: number;
+    if (lengthCount < MIN_PICTURE_BYTES) {
+      this.sampleFactor = 1;
+      step = 3;
+    } else if (lengthCount % PRIME_1 !== 0) {
+      step = 3 * PRIME_1;
+    } else if (lengthCount % PRIME_2 !== 0) {
+      step = 3 * PRIME_2;
+    } else if (lengthCount % PRIME_3 !== 0) {
+      step = 3 * PRIME_3;
+    } else {
+      step = 3 * PRIME_4;
+    }
+
+    let pix = 0;
+    for (let i = 0; i < samplePixels; ) {
+      const r = (pixels[pix] & 0xff) << NET_BIAS_SHIFT;
+      const g = (pixels[pix + 1] & 0xff) << NET_BIAS_SHIFT;
+      const b = (pixels[pix + 2] & 0xff) << NET_BIAS_SHIFT;
+      const j = this.contest(r, g, b);
+      this.alterSingle(alpha, j, r, g, b);
+      if (rad !== 0) this.alterNeighbours(rad, j, r, g, b);
+
+      pix += step;
+      if (pix >= lengthCount) pix -= lengthCount;
+      i++;
+
+      if (i % delta === 0) {
+        alpha -= alpha / alphaDec;
+        radius -= radius / RADIUS_DEC;
+        rad = radius >> RADIUS_BIAS_SHIFT;
+        if (rad <= 1) rad = 0;
+        this.updateRadPower(rad, alpha);
+      }
+    }
+  }
+}
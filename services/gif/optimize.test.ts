@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { buildGlobalPalette, encodeGif, type GifFrameInput } from './gifEncoder';
+import { optimizeFrames, prepareGifFrames } from './optimize';
+import { decodeGif, renderGifFrames } from './testing/decodeGif';
+
+// Big enough for NeuQuant to settle on the exact colours
+const WIDTH = 64;
+const HEIGHT = 48;
+
+function solid(color: number[]): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...color, 255], i);
+  return data;
+}
+
+// A copy of `data` with the rectangle painted in `color`
+function paint(data: Uint8ClampedArray, x: number, y: number, width: number, height: number, color: number[]): Uint8ClampedArray {
+  const copy = Uint8ClampedArray.from(data);
+  for (let row = y; row < y + height; row++) {
+    for (let column = x; column < x + width; column++) copy.set([...color, 255], (row * WIDTH + column) * 4);
+  }
+  return copy;
+}
+
+const frame = (data: Uint8ClampedArray, delay = 100): GifFrameInput => ({ data, width: WIDTH, height: HEIGHT, delay });
+
+const GREY = [120, 120, 120];
+const ORANGE = [240, 140, 20];
+
+describe('optimizeFrames', () => {
+  it('merges frames without visible change into the previous delay', () => {
+    const background = solid(GREY);
+    const changed = paint(background, 0, 0, 2, 2, ORANGE);
+    const frames = [frame(background), frame(background.slice(), 50), frame(changed), frame(changed.slice(), 30)];
+    const optimized = optimizeFrames(frames, { tolerance: 0, deltaFrames: false });
+    expect(optimized.map(f => f.delay)).toEqual([150, 130]);
+  });
+
+  it('treats differences within the tolerance as unchanged', () => {
+    const background = solid(GREY);
+    const noisy = solid([123, 118, 121]);
+    expect(optimizeFrames([frame(background), frame(noisy)], { tolerance: 4, deltaFrames: true })).toHaveLength(1);
+    expect(optimizeFrames([frame(background), frame(noisy)], { tolerance: 2, deltaFrames: true })).toHaveLength(2);
+  });
+
+  it('crops delta frames to the changed rectangle and marks unchanged pixels inside it transparent', () => {
+    const background = solid(GREY);
+    // Two changed pixels at opposite corners of a 4×3 rectangle from (3, 2)
+    const changed = paint(paint(background, 3, 2, 1, 1, ORANGE), 6, 4, 1, 1, ORANGE);
+    const [, delta] = optimizeFrames([frame(background), frame(changed)], { tolerance: 0, deltaFrames: true });
+
+    expect(delta).toMatchObject({ left: 3, top: 2, width: 4, height: 3 });
+    expect(Array.from(delta.transparent!)).toEqual([
+      0, 1, 1, 1,
+      1, 1, 1, 1,
+      1, 1, 1, 0,
+    ]);
+    expect(Array.from(delta.data.subarray(0, 3))).toEqual(ORANGE);
+  });
+
+  it('keeps full frames without delta frames', () => {
+    const background = solid(GREY);
+    const [, full] = optimizeFrames([frame(background), frame(paint(background, 1, 1, 1, 1, ORANGE))], { tolerance: 0, deltaFrames: false });
+    expect(full).toMatchObject({ width: WIDTH, height: HEIGHT });
+    expect(full.left ?? 0).toBe(0);
+    expect(full.transparent).toBeUndefined();
+  });
+
+  it('compares with what is on screen so small changes cannot pile up', () => {
+    const steps = [0, 3, 6, 9].map(offset => frame(solid(GREY.map(channel => channel + offset))));
+    // Each step is within the tolerance of the one before, but not of the first
+    const optimized = optimizeFrames(steps, { tolerance: 4, deltaFrames: false });
+    expect(optimized).toHaveLength(2);
+    expect(optimized[1].data[0]).toBe(126);
+  });
+
+  it('decodes to the original frames', () => {
+    const background = solid(GREY);
+    const frames = [
+      frame(background),
+      frame(paint(background, 2, 2, 3, 2, ORANGE)),
+      frame(paint(background, 5, 1, 4, 4, ORANGE)),
+      frame(paint(background, 5, 1, 4, 4, ORANGE)),
+    ];
+    const options = { quality: 1, dither: 'none' as const };
+    const prepared = prepareGifFrames(frames, options, { enabled: true, tolerance: 0, deltaFrames: true, palette: 'per-frame' });
+    const gif = decodeGif(encodeGif(prepared.frames, { ...options, repeat: 0, palette: prepared.palette }));
+
+    expect(gif.frames).toHaveLength(3);
+    const rendered = renderGifFrames(gif);
+    [0, 1, 2].forEach(i => {
+      for (let p = 0; p < frames[i].data.length; p++) {
+        if (p % 4 !== 3) expect(Math.abs(rendered[i][p] - frames[i].data[p])).toBeLessThanOrEqual(8);
+      }
+    });
+  });
+});
+
+describe('buildGlobalPalette', () => {
+  it('holds the colours of every frame and reserves an unused entry for transparency', () => {
+    const frames = [frame(solid(GREY)), frame(solid(ORANGE)), frame(paint(solid(GREY), 0, 0, 32, 48, [20, 60, 220]))];
+    const { colors, transparentIndex } = buildGlobalPalette(frames, { quality: 1, dither: 'none' });
+
+    expect(colors).toHaveLength(256 * 3);
+    expect(transparentIndex).toBeGreaterThanOrEqual(0);
+    expect(transparentIndex).toBeLessThan(256);
+    for (const color of [GREY, ORANGE, [20, 60, 220]]) {
+      let nearest = Infinity;
+      for (let i = 0; i < 256; i++) {
+        if (i === transparentIndex) continue;
+        const distance = Math.max(...color.map((channel, c) => Math.abs(colors[i * 3 + c] - channel)));
+        nearest = Math.min(nearest, distance);
+      }
+      expect(nearest).toBeLessThanOrEqual(8);
+    }
+  });
+
+  it('skips transparent pixels when sampling', () => {
+    const opaque = frame(solid(GREY));
+    const patch: GifFrameInput = { ...frame(solid(ORANGE)), transparent: new Uint8Array(WIDTH * HEIGHT).fill(1) };
+    const { colors } = buildGlobalPalette([opaque, patch], { quality: 1, dither: 'none' });
+    for (let i = 0; i < 256; i++) {
+      // Nothing orange made it in
+      expect(colors[i * 3] > 200 && colors[i * 3 + 2] < 60).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import { type GifOptimization } from '../../types';
+import { buildGlobalPalette, type GifFrameInput, type GifFrameOptions, type GlobalPalette } from './gifEncoder';
+
+export interface PreparedGifFrames {
+  frames: GifFrameInput[];
+  palette?: GlobalPalette;
+}
+
+/**
+ * Merges frames without visible change into the previous frame's delay and,
+ * with `deltaFrames`, crops each remaining frame to the rectangle that changed,
+ * leaving unchanged pixels inside it transparent. Frames are compared with
+ * what is on screen at that point, so small changes can't pile up unseen.
+ */
+export function optimizeFrames(frames: GifFrameInput[], { tolerance, deltaFrames }: Pick<GifOptimization, 'tolerance' | 'deltaFrames'>): GifFrameInput[] {
+  if (frames.length === 0) return [];
+  const { width, height } = frames[0];
+  const screen = Uint8ClampedArray.from(frames[0].data);
+  const changed = new Uint8Array(width * height);
+  const output: GifFrameInput[] = [{ ...frames[0] }];
+
+  for (const frame of frames.slice(1)) {
+    const { data } = frame;
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x, p = i * 4;
+        const differs = Math.abs(data[p] - screen[p]) > tolerance
+          || Math.abs(data[p + 1] - screen[p + 1]) > tolerance
+          || Math.abs(data[p + 2] - screen[p + 2]) > tolerance;
+        changed[i] = differs ? 1 : 0;
+        if (!differs) continue;
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        bottom = y;
+      }
+    }
+
+    if (right < 0) {
+      output[output.length - 1].delay += frame.delay;
+      continue;
+    }
+    if (!deltaFrames) {
+      screen.set(data);
+      output.push({ ...frame });
+      continue;
+    }
+
+    const rectWidth = right - left + 1, rectHeight = bottom - top + 1;
+    const rect = new Uint8ClampedArray(rectWidth * rectHeight * 4);
+    const transparent = new Uint8Array(rectWidth * rectHeight);
+    let hasTransparency = false;
+    for (let y = 0; y < rectHeight; y++) {
+      for (let x = 0; x < rectWidth; x++) {
+        const i = (top + y) * width + left + x, j = y * rectWidth + x;
+        if (!changed[i]) {
+          transparent[j] = 1;
+          hasTransparency = true;
+          continue;
+        }
+        for (let c = 0; c < 4; c++) {
+          rect[j * 4 + c] = data[i * 4 + c];
+          screen[i * 4 + c] = data[i * 4 + c];
+        }
+      }
+    }
+    output.push({ data: rect, width: rectWidth, height: rectHeight, delay: frame.delay, left, top, transparent: hasTransparency ? transparent : undefined });
+  }
+  return output;
+}
+
+/** Applies the optimization settings, building the shared palette when one is asked for. */
+export function prepareGifFrames(frames: GifFrameInput[], options: GifFrameOptions, optimization?: GifOptimization): PreparedGifFrames {
+  if (!optimization?.enabled) return { frames };
+  const optimized = optimizeFrames(frames, optimization);
+  return {
+    frames: optimized,
+    palette: optimization.palette === 'global' ? buildGlobalPalette(optimized, options) : undefined,
+  };
+}
@@ -0,0 +1,37 @@
+import { type GifFrameOptions, type GlobalPalette } from './gifEncoder';
+
+// Messages exchanged between the main thread and gif.worker.ts.
+
+export interface EncodeFrameRequest {
+  type: 'encode-frame';
+  jobId: number;
+  index: number;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  delay: number;
+  // RGBA pixels, transferred rather than copied
+  pixels: ArrayBuffer;
+  // One byte per pixel, 1 where the previous frame shows through
+  transparent: ArrayBuffer | null;
+  options: GifFrameOptions;
+  palette: GlobalPalette | null;
+}
+
+export interface EncodeFrameResult {
+  type: 'frame-encoded';
+  jobId: number;
+  index: number;
+  bytes: ArrayBuffer;
+}
+
+export interface EncodeFrameError {
+  type: 'frame-error';
+  jobId: number;
+  index: number;
+  message: string;
+}
+
+export type GifWorkerRequest = EncodeFrameRequest;
+export type GifWorkerResponse = EncodeFrameResult | EncodeFrameError;
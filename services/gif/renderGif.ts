@@ -0,0 +1,106 @@
+import { type GifOptimization } from '../../types';
+import { concatGif, encodeGifHeader, type GifFrameOptions } from './gifEncoder';
+import { prepareGifFrames } from './optimize';
+import { GifWorkerPool } from './workerPool';
+import { renderCancelledError, type RenderControl } from '../renderControl';
+
+export interface GifRenderFrame {
+  imageData: ImageData;
+  delay: number;
+}
+
+export interface GifRenderOptions extends GifFrameOptions {
+  repeat: number;
+  optimization?: GifOptimization;
+}
+
+const MAX_WORKERS = 4;
+
+let pool: GifWorkerPool | null = null;
+let nextJobId = 1;
+
+function getPool(): GifWorkerPool {
+  if (!pool) {
+    pool = new GifWorkerPool(Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1)));
+  }
+  return pool;
+}
+
+/**
+ * Encodes frames in the shared worker pool and resolves with the finished GIF.
+ * Progress is the fraction of frames encoded so far; aborting, or a frame
+ * failing, drops the frames that are still queued.
+ */
+export async function renderGif(frames: GifRenderFrame[], options: GifRenderOptions, control: RenderControl = {}): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('Cannot encode a GIF without frames.');
+  }
+  const { signal, priority = 0, onProgress } = control;
+  signal?.throwIfAborted();
+  const { width, height } = frames[0].imageData;
+  const jobId = nextJobId++;
+  const frameOptions: GifFrameOptions = { quality: options.quality, dither: options.dither };
+  const prepared = prepareGifFrames(
+    frames.map(({ imageData, delay }) => ({ data: imageData.data, width, height, delay })),
+    frameOptions,
+    options.optimization,
+  );
+  let completed = 0;
+
+  const onAbort = () => getPool().cancelJob(jobId, renderCancelledError());
+  signal?.addEventListener('abort', onAbort);
+  try {
+    const encoded = await Promise.all(prepared.frames.map(async (frame, index) => {
+      // Copy so the caller's ImageData stays usable after its buffer is transferred.
+      const pixels = frame.data.slice().buffer as ArrayBuffer;
+      const bytes = await getPool().encodeFrame({
+        type: 'encode-frame',
+        jobId,
+        index,
+        width: frame.width,
+        height: frame.height,
+        left: frame.left ?? 0,
+        top: frame.top ?? 0,
+        delay: frame.delay,
+        pixels,
+        transparent: frame.transparent ? frame.transparent.buffer as ArrayBuffer : null,
+        options: frameOptions,
+        palette: prepared.palette ?? null,
+      }, priority);
+      completed++;
+      onProgress?.(completed / prepared.frames.length);
+      return new Uint8Array(bytes);
+    }));
+
+    const gif = concatGif(encodeGifHeader({ width, height, repeat: options.repeat, palette: prepared.palette }), encoded);
+    return new Blob([gif], { type: 'image/gif' });
+  } catch (error) {
+    // One failed frame fails the GIF, so the rest need not be encoded.
+    getPool().cancelJob(jobId, error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Encodes one frame in the worker pool and resolves with its size in bytes,
+ * for size estimates. Runs behind queued renders unless given a priority.
+ */
+export async function measureEncodedFrame(imageData: ImageData, options: GifFrameOptions, priority = -1): Promise<number> {
+  const bytes = await getPool().encodeFrame({
+    type: 'encode-frame',
+    jobId: nextJobId++,
+    index: 0,
+    width: imageData.width,
+    height: imageData.height,
+    left: 0,
+    top: 0,
+    delay: 0,
+    pixels: imageData.data.slice().buffer as ArrayBuffer,
+    transparent: null,
+    options,
+    palette: null,
+  }, priority);
+  return bytes.byteLength;
+}
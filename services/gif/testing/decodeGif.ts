@@ -0,0 +1,184 @@
+// Small GIF89a decoder for tests: enough of the format to read back what
+// gifEncoder writes and check it pixel by pixel.
+
+export interface DecodedGifFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  // Milliseconds
+  delay: number;
+  // -1 when the frame has no transparent colour
+  transparentIndex: number;
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  globalPalette: Uint8Array | null;
+  // NETSCAPE2.0 repeat count; null without the extension
+  repeat: number | null;
+  frames: DecodedGifFrame[];
+}
+
+export interface LzwStats {
+  // Clear codes after the leading one, i.e. table resets
+  resets: number;
+}
+
+/** Decodes GIF LZW data, already joined from its sub-blocks. */
+export function decodeLzw(data: Uint8Array, minCodeSize: number, pixelCount: number, stats?: LzwStats): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  const output = new Uint8Array(pixelCount);
+  let written = 0;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: eoiCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let offset = 0;
+  let isFirstCode = true;
+  while (true) {
+    while (bitCount < codeSize) {
+      if (offset >= data.length) throw new Error('LZW data ended without an end-of-information code.');
+      bitBuffer |= data[offset++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+    const wasFirstCode = isFirstCode;
+    isFirstCode = false;
+
+    if (code === clearCode) {
+      if (!wasFirstCode && stats) stats.resets++;
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === eoiCode) break;
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+    } else if (code === table.length && previous) {
+      entry = [...previous, previous[0]];
+    } else {
+      throw new Error(`Invalid LZW code ${code} with ${table.length} table entries.`);
+    }
+    for (const value of entry) {
+      if (written >= pixelCount) throw new Error('LZW data decodes to more pixels than the image has.');
+      output[written++] = value;
+    }
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  if (written !== pixelCount) throw new Error(`LZW data decodes to ${written} of ${pixelCount} pixels.`);
+  return output;
+}
+
+/** Reads the minimum code size and sub-blocks at `offset`; returns the joined data and the offset after it. */
+export function readImageData(bytes: Uint8Array, offset: number): { minCodeSize: number; data: Uint8Array; end: number } {
+  const minCodeSize = bytes[offset++];
+  const blocks: number[] = [];
+  for (let size = bytes[offset++]; size > 0; size = bytes[offset++]) {
+    blocks.push(...bytes.subarray(offset, offset + size));
+    offset += size;
+  }
+  return { minCodeSize, data: Uint8Array.from(blocks), end: offset };
+}
+
+export function decodeGif(bytes: Uint8Array): DecodedGif {
+  const text = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+  const short = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  if (text(0, 6) !== 'GIF89a') throw new Error('Not a GIF89a file.');
+
+  const width = short(6);
+  const height = short(8);
+  const flags = bytes[10];
+  let offset = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (flags & 0x80) {
+    const size = 3 * 2 ** ((flags & 7) + 1);
+    globalPalette = bytes.slice(offset, offset + size);
+    offset += size;
+  }
+
+  let repeat: number | null = null;
+  let delay = 0;
+  let transparentIndex = -1;
+  const frames: DecodedGifFrame[] = [];
+  while (bytes[offset] !== 0x3b) {
+    if (offset >= bytes.length) throw new Error('GIF ended without a trailer.');
+    const introducer = bytes[offset++];
+    if (introducer === 0x21) {
+      const label = bytes[offset++];
+      if (label === 0xf9) {
+        const packed = bytes[offset + 1];
+        delay = short(offset + 2) * 10;
+        transparentIndex = packed & 1 ? bytes[offset + 4] : -1;
+      } else if (label === 0xff && text(offset + 1, 11) === 'NETSCAPE2.0') {
+        repeat = short(offset + 14);
+      }
+      // Skip the extension's sub-blocks
+      for (let size = bytes[offset++]; size > 0; size = bytes[offset++]) offset += size;
+    } else if (introducer === 0x2c) {
+      const left = short(offset);
+      const top = short(offset + 2);
+      const frameWidth = short(offset + 4);
+      const frameHeight = short(offset + 6);
+      const frameFlags = bytes[offset + 8];
+      offset += 9;
+      let palette = globalPalette;
+      if (frameFlags & 0x80) {
+        const size = 3 * 2 ** ((frameFlags & 7) + 1);
+        palette = bytes.slice(offset, offset + size);
+        offset += size;
+      }
+      if (!palette) throw new Error('Frame has no colour table.');
+      const image = readImageData(bytes, offset);
+      offset = image.end;
+      const indices = decodeLzw(image.data, image.minCodeSize, frameWidth * frameHeight);
+      frames.push({ left, top, width: frameWidth, height: frameHeight, delay, transparentIndex, palette, indices });
+      delay = 0;
+      transparentIndex = -1;
+    } else {
+      throw new Error(`Unexpected block 0x${introducer.toString(16)} at byte ${offset - 1}.`);
+    }
+  }
+  return { width, height, globalPalette, repeat, frames };
+}
+
+/**
+ * RGBA pixels of every frame as shown: each frame is drawn over the previous
+ * one, its transparent pixels leaving what was there.
+ */
+export function renderGifFrames(gif: DecodedGif): Uint8ClampedArray[] {
+  const screen = new Uint8ClampedArray(gif.width * gif.height * 4);
+  return gif.frames.map(frame => {
+    for (let y = 0; y < frame.height; y++) {
+      for (let x = 0; x < frame.width; x++) {
+        const index = frame.indices[y * frame.width + x];
+        if (index === frame.transparentIndex) continue;
+        const p = ((frame.top + y) * gif.width + frame.left + x) * 4;
+        screen[p] = frame.palette[index * 3];
+        screen[p + 1] = frame.palette[index * 3 + 1];
+        screen[p + 2] = frame.palette[index * 3 + 2];
+        screen[p + 3] = 255;
+      }
+    }
+    return screen.slice();
+  });
+}
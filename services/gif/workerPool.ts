@@ -0,0 +1,80 @@
+import { type EncodeFrameRequest, type GifWorkerResponse } from './protocol';
+
+interface Task {
+  request: EncodeFrameRequest;
+  priority: number;
+  resolve: (bytes: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+}
+
+// Fixed-size pool of encoder workers. Frames are queued by priority, first in
+// first out within a priority, and handed to the first idle worker; each worker
+// encodes one frame at a time.
+export class GifWorkerPool {
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, Task>();
+  private readonly queue: Task[] = [];
+  private workerCount = 0;
+
+  constructor(private readonly size: number) {}
+
+  encodeFrame(request: EncodeFrameRequest, priority = 0): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const position = this.queue.findIndex(task => task.priority < priority);
+      this.queue.splice(position < 0 ? this.queue.length : position, 0, { request, priority, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /** Drops the queued frames of a job. Frames already being encoded still finish. */
+  cancelJob(jobId: number, reason: Error) {
+    for (let i = this.queue.length - 1; i >= 0; i--) {
+      if (this.queue[i].request.jobId === jobId) {
+        this.queue.splice(i, 1)[0].reject(reason);
+      }
+    }
+  }
+
+  private createWorker(): Worker {
+    const worker = new Worker(new URL('./gif.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<GifWorkerResponse>) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      if (task) {
+        const response = event.data;
+        if (response.type === 'frame-encoded') {
+          task.resolve(response.bytes);
+        } else {
+          task.reject(new Error(response.message));
+        }
+      }
+      this.dispatch();
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      worker.terminate();
+      this.workerCount--;
+      task?.reject(new Error(event.message || 'GIF encoder worker crashed.'));
+      this.dispatch();
+    };
+    this.workerCount++;
+    return worker;
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      let worker = this.idle.pop();
+      if (!worker && this.workerCount < this.size) {
+        worker = this.createWorker();
+      }
+      if (!worker) return;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      const { pixels, transparent } = task.request;
+      worker.postMessage(task.request, transparent ? [pixels, transparent] : [pixels]);
+    }
+  }
+}
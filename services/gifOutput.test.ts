@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWithinSizeLimit } from './gifOutput';
+
+// Pretends every pixel costs one byte.
+const byPixelCount = (width: number, height: number) => ({ width, height, size: width * height });
+
+describe('encodeWithinSizeLimit', () => {
+  it('encodes once at the output size without a limit', async () => {
+    const sizes: number[][] = [];
+    const { encoded, fitsSizeLimit } = await encodeWithinSizeLimit({ width: 400, height: 300, maxFileSizeKb: null }, (width, height) => {
+      sizes.push([width, height]);
+      return byPixelCount(width, height);
+    });
+    expect(sizes).toEqual([[400, 300]]);
+    expect(encoded.size).toBe(120000);
+    expect(fitsSizeLimit).toBe(true);
+  });
+
+  it('scales down, keeping the aspect ratio, until the result fits', async () => {
+    const { encoded, fitsSizeLimit } = await encodeWithinSizeLimit({ width: 400, height: 300, maxFileSizeKb: 50 }, byPixelCount);
+    expect(encoded.size).toBeLessThanOrEqual(50 * 1024);
+    expect(encoded.width / encoded.height).toBeCloseTo(4 / 3, 1);
+    expect(fitsSizeLimit).toBe(true);
+  });
+
+  it('gives up after a few attempts and reports the miss', async () => {
+    let calls = 0;
+    // Never gets smaller than the limit
+    const { encoded, fitsSizeLimit } = await encodeWithinSizeLimit({ width: 400, height: 300, maxFileSizeKb: 1 }, async (width, height) => {
+      calls++;
+      return { width, height, size: 1_000_000 };
+    });
+    expect(calls).toBeLessThanOrEqual(4);
+    expect(encoded.width).toBeGreaterThanOrEqual(32);
+    expect(fitsSizeLimit).toBe(false);
+  });
+
+  it('stops at the minimum width and reports the miss', async () => {
+    const sizes: number[] = [];
+    const { encoded, fitsSizeLimit } = await encodeWithinSizeLimit({ width: 64, height: 48, maxFileSizeKb: 1 }, (width, height) => {
+      sizes.push(width);
+      return { width, height, size: 9000 };
+    });
+    expect(sizes).toEqual([64]);
+    expect(encoded.width).toBe(64);
+    expect(fitsSizeLimit).toBe(false);
+  });
+});
@@ -0,0 +1,307 @@
+import { type ExportFormat, type Frame, type OutputSettings, type PlaybackSettings, type Segment } from '../types';
+import { encodeGifHeader } from './gif/gifEncoder';
+import { measureEncodedFrame } from './gif/renderGif';
+import { getFrameImageData, type FrameFit } from './frameImage';
+import { drawLayers, loadLayerImages } from './overlayLayers';
+import { applyFilters } from './frameFilters';
+import { EXPORTERS, toGifRepeat, type ExportFrame } from './export/exportFormats';
+import { type RenderControl } from './renderControl';
+import { toFileNameStem } from './descriptionProvider';
+
+export const DEFAULT_OUTPUT_WIDTH = 480;
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  width: DEFAULT_OUTPUT_WIDTH,
+  height: 270,
+  lockAspect: true,
+  fps: 10,
+  quality: 10,
+  dither: 'none',
+  loop: 'infinite',
+  loopCount: 3,
+  maxFileSizeKb: null,
+  optimization: {
+    enabled: false,
+    tolerance: 4,
+    deltaFrames: true,
+    palette: 'per-frame',
+  },
+};
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  direction: 'forward',
+  speed: 1,
+  frameDelays: {},
+  holdLastFrameMs: 0,
+};
+
+// The parts of a segment that affect the rendered output.
+export type RenderSettings = Pick<Segment, 'extractionFps' | 'output' | 'filters' | 'layers' | 'playback' | 'exportFormat'>;
+
+// One segment's contribution to a stitched animation.
+export interface StitchPart {
+  frames: Frame[];
+  renderSettings: RenderSettings;
+}
+
+// A rendered file. With GIF optimization on, the same frames are also
+// encoded without it so the two sizes can be compared.
+export interface RenderedOutput {
+  blob: Blob;
+  unoptimizedBlob?: Blob;
+  // False when the file is still over the size limit at the smallest size tried
+  fitsSizeLimit: boolean;
+}
+
+export interface SizeLimitedEncoding<T> {
+  encoded: T;
+  fitsSizeLimit: boolean;
+}
+
+export interface FramePlanEntry {
+  // Index into the selected frames
+  index: number;
+  delay: number;
+}
+
+// Browsers replace delays below 20ms with 100ms, so never go below it.
+const MIN_FRAME_DELAY_MS = 20;
+
+const MAX_FIT_ATTEMPTS = 4;
+const MIN_OUTPUT_WIDTH = 32;
+
+export const exceedsSizeLimit = (bytes: number, { maxFileSizeKb }: Pick<OutputSettings, 'maxFileSizeKb'>) =>
+  maxFileSizeKb !== null && bytes > maxFileSizeKb * 1024;
+
+/** Output settings sized to the source video, never upscaling it. */
+export function fitOutputToSource(settings: OutputSettings, sourceWidth: number, sourceHeight: number): OutputSettings {
+  const width = Math.min(DEFAULT_OUTPUT_WIDTH, sourceWidth);
+  return { ...settings, width, height: Math.round(width * sourceHeight / sourceWidth) };
+}
+
+/**
+ * Indices of the frames to keep for the output frame rate, out of `frameCount`
+ * frames extracted at `extractionFps`. Output can only drop frames; it never
+ * invents frames between two extracted ones.
+ */
+export function resampleFrameIndices(frameCount: number, extractionFps: number, outputFps: number): number[] {
+  if (outputFps >= extractionFps || frameCount === 0) {
+    return Array.from({ length: frameCount }, (_, i) => i);
+  }
+  const duration = frameCount / extractionFps;
+  const count = Math.max(1, Math.round(duration * outputFps));
+  return Array.from({ length: count }, (_, i) => Math.min(frameCount - 1, Math.round(i * extractionFps / outputFps)));
+}
+
+/**
+ * Resolves which selected frame is shown at each step of the animation and for
+ * how long: resampling, per-frame delays, direction, speed and the final hold.
+ */
+export function buildFramePlan(
+  frames: Pick<Frame, 'id'>[],
+  { extractionFps, output, playback }: Pick<RenderSettings, 'extractionFps' | 'output' | 'playback'>,
+): FramePlanEntry[] {
+  const baseDelay = 1000 / Math.min(output.fps, extractionFps);
+  const forward = resampleFrameIndices(frames.length, extractionFps, output.fps);
+
+  let order: number[];
+  if (playback.direction === 'reverse') {
+    order = [...forward].reverse();
+  } else if (playback.direction === 'boomerang') {
+    // Skip both end frames on the way back so they aren't shown twice in a row when looping.
+    order = [...forward, ...forward.slice(1, -1).reverse()];
+  } else {
+    order = forward;
+  }
+
+  const plan = order.map(index => ({
+    index,
+    delay: Math.max(MIN_FRAME_DELAY_MS, (playback.frameDelays[frames[index].id] ?? baseDelay) / playback.speed),
+  }));
+  if (plan.length > 0) {
+    plan[plan.length - 1].delay += playback.holdLastFrameMs;
+  }
+  return plan;
+}
+
+export function getPlanDuration(plan: FramePlanEntry[]): number {
+  return plan.reduce((sum, entry) => sum + entry.delay, 0);
+}
+
+/**
+ * Estimates the GIF size by really encoding one representative frame with
+ * the current settings and multiplying it by the output frame count. Frame
+ * merging and delta frames are not accounted for, so with optimization on
+ * this is an upper bound.
+ */
+export async function estimateGifSize(frames: Frame[], renderSettings: RenderSettings): Promise<number> {
+  const { output: settings, filters, layers } = renderSettings;
+  const plan = buildFramePlan(frames, renderSettings);
+  if (plan.length === 0) return 0;
+  const sampleIndex = plan[Math.floor(plan.length / 2)].index;
+  const images = await loadLayerImages(layers);
+  const imageData = await getFrameImageData(frames[sampleIndex], settings.width, settings.height,
+    context => {
+      applyFilters(context, filters);
+      drawLayers(context, layers, sampleIndex, images);
+    });
+  // Quantizing a large frame takes long enough to stall the page, so it runs in a worker.
+  const frameBytes = await measureEncodedFrame(imageData, { quality: settings.quality, dither: settings.dither });
+  const headerBytes = encodeGifHeader({ width: settings.width, height: settings.height, repeat: toGifRepeat(settings) }).length;
+  return headerBytes + frameBytes * plan.length + 1;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+/** File name for a segment's output; `suggestedName`, e.g. from the AI metadata, wins when it is usable. */
+export function getOutputFileName(segmentId: number, renderSettings: Pick<Segment, 'exportFormat'>, suggestedName = ''): string {
+  const stem = toFileNameStem(suggestedName) || `video-to-gif-${segmentId}`;
+  return `${stem}.${EXPORTERS[renderSettings.exportFormat].extension}`;
+}
+
+/** Decodes the planned frames at the given size with overlay layers composited on top. */
+async function composeFrames(
+  frames: Frame[],
+  plan: FramePlanEntry[],
+  width: number,
+  height: number,
+  renderSettings: RenderSettings,
+  { signal, onProgress }: RenderControl = {},
+  fit: FrameFit = 'fill',
+): Promise<ExportFrame[]> {
+  const { filters, layers } = renderSettings;
+  const images = await loadLayerImages(layers);
+  let completed = 0;
+  return Promise.all(plan.map(async ({ index, delay }) => {
+    signal?.throwIfAborted();
+    const imageData = await getFrameImageData(frames[index], width, height,
+      context => {
+        applyFilters(context, filters);
+        drawLayers(context, layers, index, images);
+      }, fit);
+    completed++;
+    onProgress?.(completed / plan.length);
+    return { imageData, delay };
+  }));
+}
+
+/**
+ * Encodes at the output size, then scales down and encodes again while the
+ * result is over `maxFileSizeKb`. Gives up after a few attempts or below a
+ * minimum width, returning the last result with `fitsSizeLimit` false. Used
+ * by the browser and headless renderers; `signal` is checked before each attempt.
+ */
+export async function encodeWithinSizeLimit<T extends { size: number }>(
+  settings: Pick<OutputSettings, 'width' | 'height' | 'maxFileSizeKb'>,
+  encodeAtSize: (width: number, height: number) => T | Promise<T>,
+  signal?: AbortSignal,
+): Promise<SizeLimitedEncoding<T>> {
+  let { width, height } = settings;
+  const maxBytes = settings.maxFileSizeKb ? settings.maxFileSizeKb * 1024 : null;
+  signal?.throwIfAborted();
+  let encoded = await encodeAtSize(width, height);
+  for (let attempt = 1; attempt < MAX_FIT_ATTEMPTS && maxBytes && encoded.size > maxBytes; attempt++) {
+    // Size scales roughly with pixel count; aim slightly below the target.
+    const scale = Math.sqrt(maxBytes / encoded.size) * 0.95;
+    const nextWidth = Math.round(width * scale);
+    if (nextWidth < MIN_OUTPUT_WIDTH) break;
+    height = Math.max(1, Math.round(height * nextWidth / width));
+    width = nextWidth;
+    signal?.throwIfAborted();
+    encoded = await encodeAtSize(width, height);
+  }
+  return { encoded, fitsSizeLimit: !maxBytes || encoded.size <= maxBytes };
+}
+
+type ComposeAtSize = (width: number, height: number, control: RenderControl) => Promise<ExportFrame[]>;
+
+// Share of the progress bar spent decoding and compositing frames; the rest is encoding.
+const COMPOSE_PROGRESS_SHARE = 0.3;
+
+// Encodes the composed frames, scaling them down and trying again while the
+// result is over the size limit. With `compareUnoptimized`, an optimized GIF's
+// final frames are encoded a second time without optimization.
+async function exportWithinSizeLimit(
+  compose: ComposeAtSize,
+  exportFormat: ExportFormat,
+  settings: OutputSettings,
+  baseName: string,
+  control: RenderControl,
+  compareUnoptimized = false,
+): Promise<RenderedOutput> {
+  const exporter = EXPORTERS[exportFormat];
+  if (!exporter.isSupported()) {
+    throw new Error(`${exporter.label} export is not supported in this browser.`);
+  }
+  const comparing = compareUnoptimized && exportFormat === 'gif' && settings.optimization.enabled;
+  const encodeShare = (1 - COMPOSE_PROGRESS_SHARE) / (comparing ? 2 : 1);
+  const { signal, onProgress } = control;
+  let exportFrames: ExportFrame[] = [];
+
+  const { encoded: blob, fitsSizeLimit } = await encodeWithinSizeLimit(settings, async (width, height) => {
+    exportFrames = await compose(width, height, {
+      signal,
+      onProgress: progress => onProgress?.(progress * COMPOSE_PROGRESS_SHARE),
+    });
+    return exporter.encode(exportFrames, {
+      ...control,
+      output: settings,
+      baseName,
+      onProgress: progress => onProgress?.(COMPOSE_PROGRESS_SHARE + progress * encodeShare),
+    });
+  }, signal);
+  if (!comparing) return { blob, fitsSizeLimit };
+
+  const unoptimizedBlob = await exporter.encode(exportFrames, {
+    ...control,
+    output: { ...settings, optimization: { ...settings.optimization, enabled: false } },
+    baseName,
+    onProgress: progress => onProgress?.(COMPOSE_PROGRESS_SHARE + encodeShare + progress * encodeShare),
+  });
+  return { blob, unoptimizedBlob, fitsSizeLimit };
+}
+
+export async function renderSegmentOutput(frames: Frame[], renderSettings: RenderSettings, baseName: string, control: RenderControl = {}): Promise<RenderedOutput> {
+  const plan = buildFramePlan(frames, renderSettings);
+  if (plan.length === 0) {
+    throw new Error('No frames selected.');
+  }
+  return exportWithinSizeLimit(
+    (width, height, composeControl) => composeFrames(frames, plan, width, height, renderSettings, composeControl),
+    renderSettings.exportFormat,
+    renderSettings.output,
+    baseName,
+    control,
+    true,
+  );
+}
+
+/**
+ * Joins the frames of several segments, in order, into one animation. Each
+ * part keeps its own timing and overlays; all are letterboxed into the first
+ * part's output size and encoded with its output settings.
+ */
+export async function renderStitchedOutput(parts: StitchPart[], exportFormat: ExportFormat, baseName: string, control: RenderControl = {}): Promise<RenderedOutput> {
+  const plans = parts.map(part => buildFramePlan(part.frames, part.renderSettings));
+  const total = plans.reduce((sum, plan) => sum + plan.length, 0);
+  if (total === 0) {
+    throw new Error('No frames selected.');
+  }
+
+  const compose: ComposeAtSize = async (width, height, { signal, onProgress }) => {
+    const composed: ExportFrame[] = [];
+    for (const [i, part] of parts.entries()) {
+      const done = composed.length;
+      composed.push(...await composeFrames(part.frames, plans[i], width, height, part.renderSettings, {
+        signal,
+        onProgress: progress => onProgress?.((done + progress * plans[i].length) / total),
+      }, 'contain'));
+    }
+    return composed;
+  };
+  return exportWithinSizeLimit(compose, exportFormat, parts[0].renderSettings.output, baseName, control);
+}
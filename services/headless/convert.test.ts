@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { type DescriptionProvider, DescriptionError, mockDescriptionProvider } from '../descriptionProvider';
+import { getFrameTimes } from '../frameExtractor';
+import { decodeGif } from '../gif/testing/decodeGif';
+import { DEFAULT_OUTPUT_SETTINGS } from '../gifOutput';
+import { convertRange, type ConversionRequest } from './convert';
+import { type DecodeRequest, type FrameDecoder, type RawFrame, type VideoInfo } from './decoder';
+
+const SOURCE: VideoInfo = { duration: 2, width: 128, height: 96, fps: 10 };
+
+// A grey frame with a square that moves right by one square per frame
+function movingSquare(position: number, width: number, height: number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const size = Math.max(1, Math.floor(height / 4));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inSquare = y < size && x >= position * size && x < (position + 1) * size;
+      data.set(inSquare ? [240, 140, 20, 255] : [120, 120, 120, 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+// Stands in for ffmpeg: frames at the requested times and size, and a record of what was asked.
+function fakeDecoder(info = SOURCE, onDecode?: (request: DecodeRequest) => void) {
+  const requests: DecodeRequest[] = [];
+  const decoder: FrameDecoder = {
+    kind: 'y4m',
+    probe: async () => info,
+    decode: async (_path, request) => {
+      requests.push(request);
+      onDecode?.(request);
+      return getFrameTimes(request.start, request.end, request.fps).map((timestamp, i): RawFrame => ({
+        timestamp,
+        width: request.width,
+        height: request.height,
+        data: movingSquare(i, request.width, request.height),
+      }));
+    },
+  };
+  return { decoder, requests };
+}
+
+const request = (changes: Partial<ConversionRequest> = {}): ConversionRequest => ({
+  path: 'clip.y4m',
+  timeRange: { start: 0, end: 0.5 },
+  extractionFps: 10,
+  output: { ...DEFAULT_OUTPUT_SETTINGS, width: 64, height: 1 },
+  ...changes,
+});
+
+describe('convertRange', () => {
+  it('decodes, encodes and describes a range', async () => {
+    const { decoder, requests } = fakeDecoder();
+    const result = await convertRange(decoder, request(), { provider: mockDescriptionProvider });
+
+    // The height follows the source's aspect ratio.
+    expect(requests).toEqual([{ start: 0, end: 0.5, fps: 10, width: 64, height: 48, signal: undefined }]);
+    expect(result).toMatchObject({
+      source: SOURCE,
+      timeRange: { start: 0, end: 0.5 },
+      width: 64,
+      height: 48,
+      fitsSizeLimit: true,
+      extractedFrames: 6,
+      selectedFrames: 6,
+      outputFrames: 6,
+      durationMs: 600,
+      metadata: { title: 'Mock clip of 6 keyframes' },
+    });
+    const gif = decodeGif(result.gif);
+    expect([gif.width, gif.height]).toEqual([64, 48]);
+    expect(gif.frames.map(frame => frame.delay)).toEqual([100, 100, 100, 100, 100, 100]);
+  });
+
+  it('cuts the range to the length of the video', async () => {
+    const { decoder } = fakeDecoder({ ...SOURCE, duration: 0.3 });
+    const result = await convertRange(decoder, request({ timeRange: { start: 0.1, end: 5 } }));
+    expect(result.timeRange).toEqual({ start: 0.1, end: 0.3 });
+    expect(result.extractedFrames).toBe(3);
+    expect(result.metadata).toBeNull();
+  });
+
+  it('rejects a range past the end of the video, with fractions of a second', async () => {
+    const { decoder } = fakeDecoder({ ...SOURCE, duration: 0.5 });
+    await expect(convertRange(decoder, request({ timeRange: { start: 0.9, end: 1.25 } })))
+      .rejects.toThrow('The range 0:00.9–0:01.25 is outside the video, which is 0:00.5 long.');
+  });
+
+  it('keeps only the selected frame positions, skipping ones past the end', async () => {
+    const { decoder } = fakeDecoder();
+    const result = await convertRange(decoder, request({ frameSelection: [4, 0, 99] }));
+    expect(result.selectedFrames).toBe(2);
+    expect(decodeGif(result.gif).frames).toHaveLength(2);
+
+    await expect(convertRange(decoder, request({ frameSelection: [99] }))).rejects.toThrow('matches none of the 6 extracted frames');
+  });
+
+  it('reports a file size limit it cannot reach', async () => {
+    const { decoder } = fakeDecoder();
+    const result = await convertRange(decoder, request({ output: { ...request().output, maxFileSizeKb: 0.01 } }));
+    expect(result.fitsSizeLimit).toBe(false);
+    expect(result.gif.length).toBeGreaterThan(0.01 * 1024);
+  });
+
+  it('still writes the GIF when the description fails', async () => {
+    const failing: DescriptionProvider = {
+      kind: 'gemini',
+      generateDescription: async () => { throw new DescriptionError('The API key is invalid.', false); },
+    };
+    const { decoder } = fakeDecoder();
+    const result = await convertRange(decoder, request(), { provider: failing });
+    expect(result.gif.length).toBeGreaterThan(0);
+    expect(result.metadata).toBeNull();
+    expect(result.descriptionError).toMatchObject({ kind: 'provider', detail: 'The API key is invalid.' });
+  });
+
+  it('stops encoding once the signal is aborted', async () => {
+    const controller = new AbortController();
+    // Aborted after decoding, as if SIGINT arrived while frames were being read
+    const { decoder } = fakeDecoder(SOURCE, () => setImmediate(() => controller.abort()));
+    await expect(convertRange(decoder, request({ signal: controller.signal }))).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,168 @@
+import { type AppError, type DescriptionStyle, type GifMetadata, type OutputSettings, type PlaybackSettings } from '../../types';
+import { DescriptionError, type DescriptionProvider } from '../descriptionProvider';
+import { toAppError } from '../errors';
+import { toGifRepeat } from '../export/exportFormats';
+import { DEFAULT_FRAME_SAMPLING, pickKeyframeIndices, SIGNATURE_SIZE, type FrameSamplingOptions } from '../frameSampler';
+import { encodeGif } from '../gif/gifEncoder';
+import { prepareGifFrames } from '../gif/optimize';
+import { buildFramePlan, DEFAULT_PLAYBACK_SETTINGS, encodeWithinSizeLimit, getPlanDuration, type FramePlanEntry } from '../gifOutput';
+import { toLuma } from '../motion/stabilization';
+import { meanDifference } from '../sceneDetection';
+import { followAspect } from '../segmentEditing';
+import { DESCRIPTION_RETRIES, DESCRIPTION_RETRY_DELAY_MS } from '../segmentPipeline';
+import { formatPreciseTimestamp } from '../segmentSuggestions';
+import { withRetry } from '../retry';
+import { resizeRgba, type FrameDecoder, type RawFrame, type VideoInfo } from './decoder';
+import { toPngDataUrl } from './png';
+
+export interface ConversionRequest {
+  path: string;
+  timeRange: { start: number; end: number };
+  extractionFps: number;
+  output: OutputSettings;
+  playback?: PlaybackSettings;
+  // Strip positions of the frames to keep, as in edit recipes; null keeps all
+  frameSelection?: number[] | null;
+  signal?: AbortSignal;
+}
+
+export interface DescriptionOptions {
+  provider: DescriptionProvider;
+  // Replaces the provider's own language, tone and prompt
+  style?: DescriptionStyle;
+}
+
+export interface ConversionResult {
+  gif: Uint8Array;
+  source: VideoInfo;
+  // The requested range, cut to the length of the video
+  timeRange: { start: number; end: number };
+  // Final size, smaller than requested when the file size limit scaled it down
+  width: number;
+  height: number;
+  // False when the GIF is still over the file size limit at the smallest size tried
+  fitsSizeLimit: boolean;
+  extractedFrames: number;
+  selectedFrames: number;
+  outputFrames: number;
+  durationMs: number;
+  metadata: GifMetadata | null;
+  // Set when the description failed; the GIF is still produced
+  descriptionError?: AppError;
+}
+
+// Encoding is synchronous, so between its steps the event loop gets a turn to
+// deliver e.g. SIGINT before the signal is checked.
+async function checkpoint(signal?: AbortSignal) {
+  await new Promise(resolve => setImmediate(resolve));
+  signal?.throwIfAborted();
+}
+
+// Encodes the planned frames as a GIF at the given size.
+async function encodeFrames(frames: RawFrame[], plan: FramePlanEntry[], output: OutputSettings, width: number, height: number, signal?: AbortSignal) {
+  await checkpoint(signal);
+  const options = { quality: output.quality, dither: output.dither };
+  const scaled = frames.map(frame => resizeRgba(frame.data, frame.width, frame.height, width, height));
+  await checkpoint(signal);
+  const prepared = prepareGifFrames(
+    plan.map(({ index, delay }) => ({ data: scaled[index], width, height, delay })),
+    options,
+    output.optimization,
+  );
+  await checkpoint(signal);
+  const gif = encodeGif(prepared.frames, { ...options, repeat: toGifRepeat(output), palette: prepared.palette });
+  return { gif, width, height, size: gif.length };
+}
+
+/** Keyframes picked by visual change, as `sampleKeyframes` does in the browser, as PNG data URLs. */
+export function sampleRawKeyframes(frames: RawFrame[], { maxFrames, maxDimension }: FrameSamplingOptions): string[] {
+  let indices = frames.map((_, i) => i);
+  if (frames.length > maxFrames) {
+    let previous: Float32Array | null = null;
+    const differences = frames.map(frame => {
+      const luma = toLuma(resizeRgba(frame.data, frame.width, frame.height, SIGNATURE_SIZE, SIGNATURE_SIZE));
+      const difference = previous ? meanDifference(previous, luma) : 0;
+      previous = luma;
+      return difference;
+    });
+    indices = pickKeyframeIndices(differences, maxFrames);
+  }
+  return indices.map(index => {
+    const frame = frames[index];
+    const scale = Math.min(1, maxDimension / Math.max(frame.width, frame.height));
+    const width = Math.max(1, Math.round(frame.width * scale));
+    const height = Math.max(1, Math.round(frame.height * scale));
+    return toPngDataUrl(resizeRgba(frame.data, frame.width, frame.height, width, height), width, height);
+  });
+}
+
+async function describeFrames(frames: RawFrame[], { provider, style }: DescriptionOptions): Promise<GifMetadata> {
+  const frameDataUrls = sampleRawKeyframes(frames, provider.sampling ?? DEFAULT_FRAME_SAMPLING);
+  return withRetry(
+    () => provider.generateDescription(frameDataUrls, { style }),
+    {
+      retries: DESCRIPTION_RETRIES,
+      baseDelayMs: DESCRIPTION_RETRY_DELAY_MS,
+      isRetryable: (error) => error instanceof DescriptionError && error.transient,
+    },
+  );
+}
+
+/**
+ * Runs one time range through the whole pipeline without a browser: decode,
+ * select, encode and, with `description`, describe. Mirrors what the segment
+ * editor does, except that filters, overlay layers and frame transforms,
+ * which need a canvas, are not applied.
+ */
+export async function convertRange(decoder: FrameDecoder, request: ConversionRequest, description?: DescriptionOptions): Promise<ConversionResult> {
+  const { path, extractionFps, frameSelection = null, playback = DEFAULT_PLAYBACK_SETTINGS, signal } = request;
+  const source = await decoder.probe(path);
+  const start = request.timeRange.start;
+  const end = source.duration > 0 ? Math.min(request.timeRange.end, source.duration) : request.timeRange.end;
+  if (!(end > start)) {
+    throw new Error(`The range ${formatPreciseTimestamp(start)}–${formatPreciseTimestamp(request.timeRange.end)} is outside the video, which is ${formatPreciseTimestamp(source.duration)} long.`);
+  }
+
+  const output = followAspect(request.output, source.width, source.height);
+  const frames = await decoder.decode(path, { start, end, fps: extractionFps, width: output.width, height: output.height, signal });
+  if (frames.length === 0) {
+    throw new Error(`No frames could be decoded between ${formatPreciseTimestamp(start)} and ${formatPreciseTimestamp(end)}.`);
+  }
+  // Positions past the end are skipped, as resolveFrameSelection does.
+  const selected = frameSelection ? frameSelection.flatMap(i => i < frames.length ? [frames[i]] : []) : frames;
+  if (selected.length === 0) {
+    throw new Error(`The frame selection matches none of the ${frames.length} extracted frames.`);
+  }
+
+  const plan = buildFramePlan(selected.map((_, id) => ({ id })), { extractionFps, output, playback });
+  const { encoded: { gif, width, height }, fitsSizeLimit } = await encodeWithinSizeLimit(
+    output,
+    (width, height) => encodeFrames(selected, plan, output, width, height, signal),
+    signal,
+  );
+
+  let metadata: GifMetadata | null = null;
+  let descriptionError: AppError | undefined;
+  if (description && description.provider.kind !== 'none') {
+    try {
+      metadata = await describeFrames(selected, description);
+    } catch (error) {
+      descriptionError = toAppError(error, "Failed to write a description.");
+    }
+  }
+
+  return {
+    gif,
+    source,
+    timeRange: { start, end },
+    width,
+    height,
+    fitsSizeLimit,
+    extractedFrames: frames.length,
+    selectedFrames: selected.length,
+    outputFrames: plan.length,
+    durationMs: getPlanDuration(plan),
+    metadata,
+    descriptionError,
+  };
+}
@@ -0,0 +1,81 @@
+// Frame sources for the headless pipeline. Decoders read a video file from
+// disk and hand back raw RGBA frames at the requested size; nothing here uses
+// the DOM, so it runs in Node.
+
+export type DecoderKind = 'ffmpeg' | 'y4m';
+
+export interface VideoInfo {
+  // Seconds; 0 when the file doesn't state it
+  duration: number;
+  width: number;
+  height: number;
+  // Frames per second of the source, 0 when unknown
+  fps: number;
+}
+
+export interface RawFrame {
+  // Seconds from the start of the video
+  timestamp: number;
+  width: number;
+  height: number;
+  // RGBA pixels
+  data: Uint8ClampedArray;
+}
+
+export interface DecodeRequest {
+  start: number;
+  end: number;
+  fps: number;
+  // Size of the returned frames
+  width: number;
+  height: number;
+  signal?: AbortSignal;
+}
+
+export interface FrameDecoder {
+  kind: DecoderKind;
+  probe: (path: string) => Promise<VideoInfo>;
+  decode: (path: string, request: DecodeRequest) => Promise<RawFrame[]>;
+}
+
+/**
+ * Scales RGBA pixels by averaging every source pixel a target pixel covers,
+ * which keeps downscaled frames free of aliasing. Upscaling repeats pixels.
+ */
+export function resizeRgba(
+  source: Uint8ClampedArray,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+): Uint8ClampedArray {
+  if (width === sourceWidth && height === sourceHeight) return source;
+  const output = new Uint8ClampedArray(width * height * 4);
+  const xScale = sourceWidth / width;
+  const yScale = sourceHeight / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * yScale);
+    const y1 = Math.max(y0 + 1, Math.min(sourceHeight, Math.floor((y + 1) * yScale)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * xScale);
+      const x1 = Math.max(x0 + 1, Math.min(sourceWidth, Math.floor((x + 1) * xScale)));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * sourceWidth + sx) * 4;
+          r += source[i];
+          g += source[i + 1];
+          b += source[i + 2];
+          a += source[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      output[o] = r / count;
+      output[o + 1] = g / count;
+      output[o + 2] = b / count;
+      output[o + 3] = a / count;
+    }
+  }
+  return output;
+}
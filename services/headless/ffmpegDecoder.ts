@@ -0,0 +1,111 @@
+import { spawn } from 'node:child_process';
+import { ProcessingError } from '../errors';
+import { getFrameTimes } from '../frameExtractor';
+import { type DecodeRequest, type FrameDecoder, type RawFrame, type VideoInfo } from './decoder';
+
+export interface FfmpegPaths {
+  ffmpeg?: string;
+  ffprobe?: string;
+}
+
+interface ProbeOutput {
+  streams?: { width?: number; height?: number; avg_frame_rate?: string }[];
+  format?: { duration?: string };
+}
+
+// Runs a binary to completion and collects its standard output.
+function run(command: string, args: string[], signal?: AbortSignal): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const onAbort = () => child.kill();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', error => {
+      signal?.removeEventListener('abort', onAbort);
+      const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      reject(notFound
+        ? new ProcessingError(`${command} was not found. Install ffmpeg or set FFMPEG_PATH and FFPROBE_PATH.`, 'decode-failed')
+        : error);
+    });
+    child.on('close', code => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        reject(signal.reason);
+      } else if (code !== 0) {
+        reject(new ProcessingError(stderr.trim().split('\n').pop() || `${command} exited with code ${code}.`, 'decode-failed'));
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    });
+  });
+}
+
+// ffprobe reports rates as fractions, e.g. "30000/1001".
+function parseRate(rate = ''): number {
+  const [numerator, denominator = '1'] = rate.split('/');
+  const fps = Number(numerator) / Number(denominator);
+  return Number.isFinite(fps) ? fps : 0;
+}
+
+/**
+ * Decodes with a local ffmpeg binary, which reads nearly any format. The
+ * binaries come from `paths`, then FFMPEG_PATH and FFPROBE_PATH, then PATH.
+ */
+export function createFfmpegDecoder(paths: FfmpegPaths = {}): FrameDecoder {
+  const ffmpeg = paths.ffmpeg ?? process.env.FFMPEG_PATH ?? 'ffmpeg';
+  const ffprobe = paths.ffprobe ?? process.env.FFPROBE_PATH ?? 'ffprobe';
+
+  const probe = async (path: string): Promise<VideoInfo> => {
+    const output = await run(ffprobe, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height,avg_frame_rate:format=duration',
+      '-of', 'json',
+      path,
+    ]);
+    const parsed: ProbeOutput = JSON.parse(output.toString());
+    const stream = parsed.streams?.[0];
+    if (!stream?.width || !stream.height) {
+      throw new ProcessingError(`${path} has no video track.`, 'unsupported-format');
+    }
+    const duration = Number(parsed.format?.duration);
+    return {
+      duration: Number.isFinite(duration) ? duration : 0,
+      width: stream.width,
+      height: stream.height,
+      fps: parseRate(stream.avg_frame_rate),
+    };
+  };
+
+  const decode = async (path: string, { start, end, fps, width, height, signal }: DecodeRequest): Promise<RawFrame[]> => {
+    const times = getFrameTimes(start, end, fps);
+    if (times.length === 0) return [];
+    // Seeking before the input is fast and frame-accurate in current ffmpeg.
+    const output = await run(ffmpeg, [
+      '-v', 'error',
+      '-ss', String(start),
+      '-i', path,
+      '-frames:v', String(times.length),
+      '-vf', `fps=${fps},scale=${width}:${height}:flags=area`,
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgba',
+      'pipe:1',
+    ], signal);
+
+    const frameBytes = width * height * 4;
+    const count = Math.min(times.length, Math.floor(output.length / frameBytes));
+    return Array.from({ length: count }, (_, i) => ({
+      timestamp: times[i],
+      width,
+      height,
+      data: new Uint8ClampedArray(output.buffer, output.byteOffset + i * frameBytes, frameBytes),
+    }));
+  };
+
+  return { kind: 'ffmpeg', probe, decode };
+}
@@ -0,0 +1,46 @@
+import { deflateSync } from 'node:zlib';
+import { crc32 } from '../export/crc32';
+
+// Minimal PNG encoder for keyframes sent to the description model, which in
+// the browser come from canvas.toDataURL.
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const COLOR_TYPE_RGBA = 6;
+
+function writeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+export function encodePng(data: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;
+  header[9] = COLOR_TYPE_RGBA;
+
+  // Each row starts with its filter type; 0 leaves it unfiltered.
+  const rowBytes = width * 4;
+  const raw = new Uint8Array(height * (rowBytes + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  const parts = [PNG_SIGNATURE, writeChunk('IHDR', header), writeChunk('IDAT', deflateSync(raw)), writeChunk('IEND', new Uint8Array(0))];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+export const toPngDataUrl = (data: Uint8ClampedArray, width: number, height: number) =>
+  `data:image/png;base64,${Buffer.from(encodePng(data, width, height)).toString('base64')}`;
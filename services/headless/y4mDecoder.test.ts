@@ -0,0 +1,142 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ProcessingError } from '../errors';
+import { createY4mDecoder } from './y4mDecoder';
+
+const WIDTH = 5;
+const HEIGHT = 3;
+
+// BT.601 limited-range YUV of a few colours and the RGB they decode to
+const RED = { yuv: [81, 90, 240], rgb: [254, 0, 0] };
+const GREEN = { yuv: [145, 54, 34], rgb: [0, 255, 1] };
+const BLUE = { yuv: [41, 240, 110], rgb: [0, 0, 255] };
+
+const CHROMA_SIZES = {
+  '420jpeg': [3, 2],
+  '422': [3, 3],
+  '444': [5, 3],
+  mono: [0, 0],
+} as const;
+
+// One frame of solid colour in the given layout; `marker` replaces "FRAME".
+function frame(colorspace: keyof typeof CHROMA_SIZES, [y, u, v]: number[], marker = 'FRAME'): Buffer {
+  const [chromaWidth, chromaHeight] = CHROMA_SIZES[colorspace];
+  const chroma = chromaWidth * chromaHeight;
+  return Buffer.concat([
+    Buffer.from(`${marker}\n`),
+    Buffer.alloc(WIDTH * HEIGHT, y),
+    Buffer.alloc(chroma, u),
+    Buffer.alloc(chroma, v),
+  ]);
+}
+
+const header = (colorspace: string, fields = `W${WIDTH} H${HEIGHT} F10:1 Ip A1:1`) =>
+  Buffer.from(`YUV4MPEG2 ${fields}${colorspace ? ` C${colorspace}` : ''}\n`);
+
+let directory: string;
+let fileCount = 0;
+
+async function writeY4m(...parts: Buffer[]): Promise<string> {
+  const path = join(directory, `clip-${++fileCount}.y4m`);
+  await writeFile(path, Buffer.concat(parts));
+  return path;
+}
+
+const decodeAll = (path: string, fps = 10) =>
+  createY4mDecoder().decode(path, { start: 0, end: 10, fps, width: WIDTH, height: HEIGHT });
+
+const pixel = (data: Uint8ClampedArray, index = 0) => Array.from(data.subarray(index * 4, index * 4 + 4));
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'y4m-test-'));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('createY4mDecoder', () => {
+  it('reads the size, frame rate and length', async () => {
+    const path = await writeY4m(header('420jpeg', `W${WIDTH} H${HEIGHT} F30000:1001 It`), frame('420jpeg', RED.yuv), frame('420jpeg', RED.yuv));
+    const info = await createY4mDecoder().probe(path);
+    expect(info).toEqual({ width: WIDTH, height: HEIGHT, fps: 30000 / 1001, duration: 2 * 1001 / 30000 });
+  });
+
+  it.each(['420jpeg', '422', '444'] as const)('decodes %s chroma', async (colorspace) => {
+    const path = await writeY4m(header(colorspace), frame(colorspace, RED.yuv), frame(colorspace, GREEN.yuv), frame(colorspace, BLUE.yuv));
+    const frames = await decodeAll(path);
+    expect(frames.map(f => f.timestamp)).toEqual([0, 0.1, 0.2]);
+    expect(frames.map(f => pixel(f.data, WIDTH * HEIGHT - 1))).toEqual([
+      [...RED.rgb, 255],
+      [...GREEN.rgb, 255],
+      [...BLUE.rgb, 255],
+    ]);
+  });
+
+  it('decodes mono as grey', async () => {
+    const path = await writeY4m(header('mono'), frame('mono', [126, 0, 0]), frame('mono', [235, 0, 0]));
+    const frames = await decodeAll(path);
+    expect(frames.map(f => pixel(f.data))).toEqual([[128, 128, 128, 255], [255, 255, 255, 255]]);
+  });
+
+  it('takes 4:2:0 when the header names no colour space', async () => {
+    const path = await writeY4m(header(''), frame('420jpeg', GREEN.yuv));
+    const [decoded] = await decodeAll(path);
+    expect(pixel(decoded.data)).toEqual([...GREEN.rgb, 255]);
+  });
+
+  it('picks the source frame on screen at each output time', async () => {
+    const path = await writeY4m(header('444'), frame('444', RED.yuv), frame('444', GREEN.yuv), frame('444', BLUE.yuv));
+    const frames = await createY4mDecoder().decode(path, { start: 0.05, end: 0.3, fps: 20, width: WIDTH, height: HEIGHT });
+    // 0.05, 0.1, ..., 0.25; the fourth source frame does not exist.
+    expect(frames.map(f => pixel(f.data)[1])).toEqual([0, 255, 255, 0, 0]);
+  });
+
+  it('scales frames to the requested size', async () => {
+    const path = await writeY4m(header('444'), frame('444', BLUE.yuv));
+    const [decoded] = await createY4mDecoder().decode(path, { start: 0, end: 0, fps: 10, width: 2, height: 1 });
+    expect(decoded.data).toHaveLength(2 * 4);
+    expect(pixel(decoded.data, 1)).toEqual([...BLUE.rgb, 255]);
+  });
+
+  it('rejects a damaged frame', async () => {
+    const path = await writeY4m(header('420jpeg'), frame('420jpeg', RED.yuv), frame('420jpeg', RED.yuv, 'FRAMX'));
+    const error = await decodeAll(path).catch(error => error);
+    expect(error).toBeInstanceOf(ProcessingError);
+    expect(error.kind).toBe('decode-failed');
+    expect(error.message).toContain('Frame 2');
+  });
+
+  it('ignores a truncated last frame', async () => {
+    const path = await writeY4m(header('420jpeg'), frame('420jpeg', RED.yuv), frame('420jpeg', RED.yuv).subarray(0, 10));
+    expect(await decodeAll(path)).toHaveLength(1);
+  });
+
+  it.each([
+    ['no signature', Buffer.from('RIFF0000WEBP\n'), 'header is missing'],
+    ['no frame size', header('420jpeg', 'F10:1'), 'frame size is missing'],
+    ['no frame rate', header('420jpeg', `W${WIDTH} H${HEIGHT}`), 'frame rate is missing'],
+    ['10-bit colour', header('420p10'), 'only 8-bit'],
+  ])('rejects a file with %s', async (_, fileHeader, message) => {
+    const path = await writeY4m(fileHeader, frame('420jpeg', RED.yuv));
+    const error = await createY4mDecoder().probe(path).catch(error => error);
+    expect(error).toBeInstanceOf(ProcessingError);
+    expect(error.kind).toBe('unsupported-format');
+    expect(error.message).toContain(message);
+  });
+
+  it('rejects a file without frames', async () => {
+    const path = await writeY4m(header('420jpeg'));
+    await expect(createY4mDecoder().probe(path)).rejects.toThrow('it has no frames');
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const path = await writeY4m(header('420jpeg'), frame('420jpeg', RED.yuv));
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createY4mDecoder().decode(path, { start: 0, end: 1, fps: 10, width: WIDTH, height: HEIGHT, signal: controller.signal }))
+      .rejects.toThrow();
+  });
+});
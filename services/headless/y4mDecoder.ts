@@ -0,0 +1,163 @@
+import { open, type FileHandle } from 'node:fs/promises';
+import { ProcessingError } from '../errors';
+import { getFrameTimes } from '../frameExtractor';
+import { resizeRgba, type DecodeRequest, type FrameDecoder, type RawFrame, type VideoInfo } from './decoder';
+
+// Pure JavaScript decoder for uncompressed YUV4MPEG2 (.y4m) files, for
+// machines without ffmpeg. Other formats can be converted with e.g.
+// `ffmpeg -i clip.mp4 -pix_fmt yuv420p clip.y4m`.
+
+type ChromaLayout = '420' | '422' | '444' | 'mono';
+
+interface Y4mLayout {
+  width: number;
+  height: number;
+  fps: number;
+  chroma: ChromaLayout;
+  // Byte offset of the first frame
+  dataOffset: number;
+  // "FRAME" line plus planes
+  frameStride: number;
+  frameHeaderLength: number;
+  frameCount: number;
+}
+
+const SIGNATURE = 'YUV4MPEG2';
+const FRAME_MARKER = 'FRAME';
+// Longer than any stream header written in practice
+const MAX_HEADER_BYTES = 1024;
+
+const invalid = (path: string, reason: string) => new ProcessingError(`${path} is not a usable Y4M file: ${reason}`, 'unsupported-format');
+
+// 8-bit 4:2:0 variants differ only in where chroma samples sit.
+const CHROMA_420 = ['420', '420jpeg', '420mpeg2', '420paldv'];
+
+function toChromaLayout(colorspace: string): ChromaLayout | null {
+  if (CHROMA_420.includes(colorspace)) return '420';
+  if (colorspace === '422') return '422';
+  if (colorspace === '444') return '444';
+  if (colorspace === 'mono') return 'mono';
+  return null;
+}
+
+function getChromaSize(chroma: ChromaLayout, width: number, height: number): { width: number; height: number } {
+  switch (chroma) {
+    case '420': return { width: Math.ceil(width / 2), height: Math.ceil(height / 2) };
+    case '422': return { width: Math.ceil(width / 2), height };
+    case '444': return { width, height };
+    case 'mono': return { width: 0, height: 0 };
+  }
+}
+
+async function readLayout(file: FileHandle, path: string): Promise<Y4mLayout> {
+  const { size } = await file.stat();
+  const head = Buffer.alloc(Math.min(size, MAX_HEADER_BYTES));
+  await file.read(head, 0, head.length, 0);
+  const headerEnd = head.indexOf(0x0a);
+  if (headerEnd < 0 || !head.subarray(0, SIGNATURE.length).equals(Buffer.from(SIGNATURE))) {
+    throw invalid(path, 'the YUV4MPEG2 header is missing.');
+  }
+
+  let width = 0;
+  let height = 0;
+  let fps = 0;
+  let chroma: ChromaLayout | null = '420';
+  for (const field of head.subarray(SIGNATURE.length, headerEnd).toString('ascii').split(' ')) {
+    const value = field.slice(1);
+    switch (field[0]) {
+      case 'W': width = Number(value); break;
+      case 'H': height = Number(value); break;
+      case 'F': {
+        const [numerator, denominator] = value.split(':').map(Number);
+        fps = denominator ? numerator / denominator : 0;
+        break;
+      }
+      case 'C': chroma = toChromaLayout(value); break;
+    }
+  }
+  if (!(width > 0 && height > 0)) throw invalid(path, 'the frame size is missing.');
+  if (!(fps > 0)) throw invalid(path, 'the frame rate is missing.');
+  if (!chroma) throw invalid(path, 'only 8-bit 4:2:0, 4:2:2, 4:4:4 and mono colour are supported.');
+
+  // Frame lines may carry parameters; the first one is taken as the length of all.
+  const dataOffset = headerEnd + 1;
+  const frameHeader = Buffer.alloc(MAX_HEADER_BYTES);
+  const { bytesRead } = await file.read(frameHeader, 0, frameHeader.length, dataOffset);
+  const frameHeaderEnd = frameHeader.subarray(0, bytesRead).indexOf(0x0a);
+  if (frameHeaderEnd < 0) throw invalid(path, 'it has no frames.');
+  const frameHeaderLength = frameHeaderEnd + 1;
+
+  const chromaSize = getChromaSize(chroma, width, height);
+  const frameStride = frameHeaderLength + width * height + 2 * chromaSize.width * chromaSize.height;
+  const frameCount = Math.floor((size - dataOffset) / frameStride);
+  return { width, height, fps, chroma, dataOffset, frameStride, frameHeaderLength, frameCount };
+}
+
+// BT.601 limited range, which is what Y4M files almost always hold.
+function yuvToRgba(frame: Buffer, { width, height, chroma, frameHeaderLength }: Y4mLayout): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  const chromaSize = getChromaSize(chroma, width, height);
+  const yPlane = frameHeaderLength;
+  const uPlane = yPlane + width * height;
+  const vPlane = uPlane + chromaSize.width * chromaSize.height;
+  const xShift = chromaSize.width < width ? 1 : 0;
+  const yShift = chromaSize.height < height ? 1 : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const luma = 1.164 * (frame[yPlane + y * width + x] - 16);
+      let u = 0;
+      let v = 0;
+      if (chroma !== 'mono') {
+        const c = (y >> yShift) * chromaSize.width + (x >> xShift);
+        u = frame[uPlane + c] - 128;
+        v = frame[vPlane + c] - 128;
+      }
+      const o = (y * width + x) * 4;
+      rgba[o] = luma + 1.596 * v;
+      rgba[o + 1] = luma - 0.392 * u - 0.813 * v;
+      rgba[o + 2] = luma + 2.017 * u;
+      rgba[o + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+/** Decodes .y4m files in plain JavaScript, reading only the frames it needs. */
+export function createY4mDecoder(): FrameDecoder {
+  const probe = async (path: string): Promise<VideoInfo> => {
+    const file = await open(path, 'r');
+    try {
+      const { width, height, fps, frameCount } = await readLayout(file, path);
+      return { duration: frameCount / fps, width, height, fps };
+    } finally {
+      await file.close();
+    }
+  };
+
+  const decode = async (path: string, { start, end, fps, width, height, signal }: DecodeRequest): Promise<RawFrame[]> => {
+    const file = await open(path, 'r');
+    try {
+      const layout = await readLayout(file, path);
+      const buffer = Buffer.alloc(layout.frameStride);
+      const frames: RawFrame[] = [];
+      for (const timestamp of getFrameTimes(start, end, fps)) {
+        signal?.throwIfAborted();
+        // The source frame on screen at that time
+        const index = Math.floor(timestamp * layout.fps + 1e-6);
+        if (index >= layout.frameCount) break;
+        await file.read(buffer, 0, layout.frameStride, layout.dataOffset + index * layout.frameStride);
+        if (buffer.toString('ascii', 0, FRAME_MARKER.length) !== FRAME_MARKER) {
+          throw new ProcessingError(`Frame ${index + 1} of ${path} is damaged or has a different header length.`, 'decode-failed');
+        }
+        const rgba = yuvToRgba(buffer, layout);
+        frames.push({ timestamp, width, height, data: resizeRgba(rgba, layout.width, layout.height, width, height) });
+      }
+      return frames;
+    } finally {
+      await file.close();
+    }
+  };
+
+  return { kind: 'y4m', probe, decode };
+}
@@ -0,0 +1,63 @@
+import { type DescriptionStyle, type GifMetadata } from '../types';
+import { GIF_METADATA_JSON_SCHEMA, DescriptionError, buildDescriptionPrompt, isTransientStatus, parseGifMetadata, type DescriptionProvider } from './descriptionProvider';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+// Talks to any server implementing the OpenAI chat completions API (llama.cpp,
+// Ollama, LM Studio, vLLM or a mock server in CI).
+export async function generateDescriptionViaHttp(
+  frameDataUrls: string[],
+  endpoint: string,
+  model: string,
+  style: DescriptionStyle,
+  apiKey?: string,
+): Promise<GifMetadata> {
+  const url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const body = {
+    model,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: buildDescriptionPrompt(style) },
+          ...frameDataUrls.map(url => ({ type: 'image_url', image_url: { url } })),
+        ],
+      },
+    ],
+    // Servers without structured output support ignore this; the prompt asks for JSON too.
+    response_format: { type: 'json_schema', json_schema: { name: 'gif_metadata', schema: GIF_METADATA_JSON_SCHEMA } },
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+  } catch (error) {
+    console.error("Error calling description server:", error);
+    throw new DescriptionError("Could not reach the description server.", true);
+  }
+  if (!response.ok) {
+    console.error(`Description server responded with ${response.status} ${response.statusText}`);
+    throw new DescriptionError("The description server failed to generate a description.", isTransientStatus(response.status));
+  }
+  const json: ChatCompletionResponse = await response.json();
+  return parseGifMetadata(json.choices?.[0]?.message?.content ?? '');
+}
+
+export function createHttpProvider(endpoint: string | undefined, model: string | undefined, style: DescriptionStyle, apiKey?: string): DescriptionProvider {
+  return {
+    kind: 'http',
+    generateDescription: async (frameDataUrls, options) => {
+      if (!endpoint) {
+        throw new DescriptionError("No description server URL configured.", false);
+      }
+      return generateDescriptionViaHttp(frameDataUrls, endpoint, model || 'default', options?.style ?? style, apiKey);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+// Pure pixel code shared by motion.worker.ts; nothing here touches the DOM.
+
+/**
+ * Softens a 0-255 mask with a few box blur passes so the moving region fades
+ * into the frozen one instead of ending on a hard edge.
+ */
+export function featherMask(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const r = Math.round(radius);
+  if (r < 1) return mask.slice();
+  let source = Float32Array.from(mask);
+  let target = new Float32Array(mask.length);
+  const pass = (horizontal: boolean) => {
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    const at = (line: number, i: number) => {
+      const clamped = i < 0 ? 0 : i >= length ? length - 1 : i;
+      return horizontal ? line * width + clamped : clamped * width + line;
+    };
+    for (let line = 0; line < lines; line++) {
+      let sum = 0;
+      for (let i = -r; i <= r; i++) sum += source[at(line, i)];
+      for (let i = 0; i < length; i++) {
+        target[at(line, i)] = sum / (2 * r + 1);
+        sum += source[at(line, i + r + 1)] - source[at(line, i - r)];
+      }
+    }
+    [source, target] = [target, source];
+  };
+  for (let i = 0; i < 2; i++) {
+    pass(true);
+    pass(false);
+  }
+  return Uint8Array.from(source, value => Math.round(value));
+}
+
+/** Keeps `frame` where the mask is set and `still` everywhere else, blending across soft edges. */
+export function composeCinemagraph(frame: Uint8ClampedArray, still: Uint8ClampedArray, mask: Uint8Array): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(frame.length);
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    const weight = mask[i] / 255;
+    for (let c = 0; c < 4; c++) {
+      output[p + c] = still[p + c] + (frame[p + c] - still[p + c]) * weight;
+    }
+  }
+  return output;
+}
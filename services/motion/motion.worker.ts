@@ -0,0 +1,46 @@
+import { composeCinemagraph, featherMask } from './cinemagraph';
+import { estimateShift, planStabilization, toLuma, warpFrame } from './stabilization';
+import { type MotionWorkerRequest, type MotionWorkerResponse } from './protocol';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<MotionWorkerRequest>) => void) | null;
+  postMessage: (message: MotionWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+function handle(request: MotionWorkerRequest) {
+  switch (request.type) {
+    case 'plan-stabilization': {
+      const { width, height } = request;
+      const lumas = request.frames.map(frame => toLuma(new Uint8ClampedArray(frame)));
+      const shifts = lumas.map((luma, i) => i === 0 ? { dx: 0, dy: 0 } : estimateShift(lumas[i - 1], luma, width, height));
+      scope.postMessage({ type: 'stabilization-planned', ...planStabilization(shifts, request.mode, width, height) });
+      break;
+    }
+    case 'feather-mask': {
+      const mask = featherMask(new Uint8Array(request.mask), request.width, request.height, request.radius);
+      scope.postMessage({ type: 'mask-feathered', mask: mask.buffer as ArrayBuffer }, [mask.buffer as ArrayBuffer]);
+      break;
+    }
+    case 'process-frame': {
+      const { width, height, correction, zoom, still, mask } = request;
+      let pixels = new Uint8ClampedArray(request.pixels);
+      if (correction.dx !== 0 || correction.dy !== 0 || zoom !== 1) {
+        pixels = warpFrame(pixels, width, height, correction, zoom);
+      }
+      if (still && mask) {
+        pixels = composeCinemagraph(pixels, new Uint8ClampedArray(still), new Uint8Array(mask));
+      }
+      scope.postMessage({ type: 'frame-processed', pixels: pixels.buffer as ArrayBuffer }, [pixels.buffer as ArrayBuffer]);
+      break;
+    }
+  }
+}
+
+scope.onmessage = (event) => {
+  try {
+    handle(event.data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    scope.postMessage({ type: 'motion-error', message });
+  }
+};
@@ -0,0 +1,132 @@
+import { type Frame, type MotionSettings } from '../../types';
+import { frameFromCanvas } from '../frameExtractor';
+import { getFrameImageData, loadImage } from '../frameImage';
+import { renderCancelledError, type RenderControl } from '../renderControl';
+import { type MotionVector } from './stabilization';
+import { type MotionWorkerRequest, type MotionWorkerResponse } from './protocol';
+
+// Motion is estimated on small copies of the frames; enough to see shake.
+const ANALYSIS_WIDTH = 160;
+// Mask edges fade over this fraction of the frame width.
+const MASK_FEATHER = 0.015;
+
+/** Whether applying these settings would change any pixels. */
+export const hasMotionProcessing = (settings: MotionSettings) =>
+  settings.stabilization !== 'off' || (settings.cinemagraph && settings.cinemagraphMask !== null);
+
+const unexpectedResponse = (type: string) => new Error(`Unexpected motion worker response: ${type}.`);
+
+// One request in flight at a time; the worker answers each with one message.
+function send(worker: Worker, request: MotionWorkerRequest, transfer: Transferable[], signal?: AbortSignal): Promise<MotionWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(renderCancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<MotionWorkerResponse>) => {
+      signal?.removeEventListener('abort', onAbort);
+      const response = event.data;
+      if (response.type === 'motion-error') reject(new Error(response.message));
+      else resolve(response);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(event.message || 'Motion worker crashed.'));
+    };
+    worker.postMessage(request, transfer);
+  });
+}
+
+async function getMaskAlpha(dataUrl: string, width: number, height: number): Promise<Uint8Array> {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create a 2D canvas context.');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  return Uint8Array.from({ length: width * height }, (_, i) => data[i * 4 + 3]);
+}
+
+/**
+ * Stabilizes the frames and/or freezes them outside the cinemagraph mask in a
+ * Web Worker. Returns new frames with the same ids and timestamps, in order;
+ * the first frame is the cinemagraph's still.
+ */
+export async function processMotion(frames: Frame[], settings: MotionSettings, control: RenderControl = {}): Promise<Frame[]> {
+  const { signal, onProgress } = control;
+  if (frames.length === 0) return [];
+  signal?.throwIfAborted();
+
+  const first = await createImageBitmap(frames[0].blob);
+  const { width, height } = first;
+  first.close();
+
+  const worker = new Worker(new URL('./motion.worker.ts', import.meta.url), { type: 'module' });
+  const onAbort = () => worker.terminate();
+  signal?.addEventListener('abort', onAbort);
+  try {
+    let corrections: MotionVector[] = frames.map(() => ({ dx: 0, dy: 0 }));
+    let zoom = 1;
+    if (settings.stabilization !== 'off') {
+      const analysisWidth = Math.min(ANALYSIS_WIDTH, width);
+      const analysisHeight = Math.max(1, Math.round(height * analysisWidth / width));
+      const small: ArrayBuffer[] = [];
+      for (const frame of frames) {
+        small.push((await getFrameImageData(frame, analysisWidth, analysisHeight)).data.buffer as ArrayBuffer);
+        signal?.throwIfAborted();
+      }
+      const response = await send(worker, { type: 'plan-stabilization', mode: settings.stabilization, frames: small, width: analysisWidth, height: analysisHeight }, small, signal);
+      if (response.type !== 'stabilization-planned') throw unexpectedResponse(response.type);
+      ({ corrections, zoom } = response);
+    }
+
+    let mask: Uint8Array | null = null;
+    if (settings.cinemagraph && settings.cinemagraphMask) {
+      const alpha = await getMaskAlpha(settings.cinemagraphMask, width, height);
+      const response = await send(worker, { type: 'feather-mask', mask: alpha.buffer as ArrayBuffer, width, height, radius: width * MASK_FEATHER }, [alpha.buffer], signal);
+      if (response.type !== 'mask-feathered') throw unexpectedResponse(response.type);
+      mask = new Uint8Array(response.mask);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not create a 2D canvas context.');
+    }
+
+    const processed: Frame[] = [];
+    let still: Uint8ClampedArray | null = null;
+    for (let i = 0; i < frames.length; i++) {
+      const { data } = await getFrameImageData(frames[i], width, height);
+      const useMask = still !== null && mask !== null;
+      const request: MotionWorkerRequest = {
+        type: 'process-frame',
+        pixels: data.buffer as ArrayBuffer,
+        width,
+        height,
+        correction: corrections[i],
+        zoom,
+        // Copies, so the still and mask survive being transferred.
+        still: useMask ? still!.slice().buffer as ArrayBuffer : null,
+        mask: useMask ? mask!.slice().buffer as ArrayBuffer : null,
+      };
+      const transfer = [request.pixels, request.still, request.mask].filter((buffer): buffer is ArrayBuffer => buffer !== null);
+      const response = await send(worker, request, transfer, signal);
+      if (response.type !== 'frame-processed') throw unexpectedResponse(response.type);
+      const pixels = new Uint8ClampedArray(response.pixels);
+      if (i === 0) still = pixels.slice();
+      context.putImageData(new ImageData(pixels, width, height), 0, 0);
+      processed.push(await frameFromCanvas(canvas, frames[i].timestamp, frames[i].id));
+      onProgress?.((i + 1) / frames.length);
+    }
+    return processed;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+  }
+}
@@ -0,0 +1,57 @@
+import { type StabilizationMode } from '../../types';
+import { type MotionVector, type StabilizationPlan } from './stabilization';
+
+// Messages exchanged between the main thread and motion.worker.ts. Pixel
+// buffers are transferred rather than copied.
+
+export interface PlanStabilizationRequest {
+  type: 'plan-stabilization';
+  mode: StabilizationMode;
+  // Small RGBA copies of every frame, all `width` x `height`
+  frames: ArrayBuffer[];
+  width: number;
+  height: number;
+}
+
+export interface FeatherMaskRequest {
+  type: 'feather-mask';
+  // One byte per pixel, 0 (frozen) to 255 (moving)
+  mask: ArrayBuffer;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+export interface ProcessFrameRequest {
+  type: 'process-frame';
+  pixels: ArrayBuffer;
+  width: number;
+  height: number;
+  correction: MotionVector;
+  zoom: number;
+  // Cinemagraph only: the processed first frame and the feathered mask
+  still: ArrayBuffer | null;
+  mask: ArrayBuffer | null;
+}
+
+export interface StabilizationPlanned extends StabilizationPlan {
+  type: 'stabilization-planned';
+}
+
+export interface MaskFeathered {
+  type: 'mask-feathered';
+  mask: ArrayBuffer;
+}
+
+export interface FrameProcessed {
+  type: 'frame-processed';
+  pixels: ArrayBuffer;
+}
+
+export interface MotionError {
+  type: 'motion-error';
+  message: string;
+}
+
+export type MotionWorkerRequest = PlanStabilizationRequest | FeatherMaskRequest | ProcessFrameRequest;
+export type MotionWorkerResponse = StabilizationPlanned | MaskFeathered | FrameProcessed | MotionError;
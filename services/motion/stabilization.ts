@@ -0,0 +1,140 @@
+import { type StabilizationMode } from '../../types';
+
+// Pure pixel code shared by motion.worker.ts; nothing here touches the DOM.
+
+export interface MotionVector {
+  dx: number;
+  dy: number;
+}
+
+export interface StabilizationPlan {
+  // Shift applied to each frame, as fractions of the frame width and height
+  corrections: MotionVector[];
+  // Uniform zoom that keeps the shifted frames' edges out of view
+  zoom: number;
+}
+
+// Motion is measured block by block and the median taken, so a subject moving
+// across part of the frame doesn't read as camera shake.
+const BLOCK_SIZE = 12;
+const SEARCH_RADIUS = 6;
+// Flat blocks (sky, walls) match anywhere and only add noise.
+const MIN_BLOCK_VARIANCE = 0.0005;
+// Frames on either side averaged into the 'smooth' camera path.
+const SMOOTHING_RADIUS = 6;
+const MAX_ZOOM = 1.25;
+
+export function toLuma(data: Uint8ClampedArray): Float32Array {
+  const luma = new Float32Array(data.length / 4);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) / 255;
+  }
+  return luma;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * How far the picture moved from `previous` to `current`, in pixels, found by
+ * matching textured blocks of `current` against `previous` within a small
+ * search window.
+ */
+export function estimateShift(previous: Float32Array, current: Float32Array, width: number, height: number): MotionVector {
+  const dxs: number[] = [];
+  const dys: number[] = [];
+  for (let by = SEARCH_RADIUS; by + BLOCK_SIZE + SEARCH_RADIUS <= height; by += BLOCK_SIZE) {
+    for (let bx = SEARCH_RADIUS; bx + BLOCK_SIZE + SEARCH_RADIUS <= width; bx += BLOCK_SIZE) {
+      let sum = 0, sumSquares = 0;
+      for (let y = by; y < by + BLOCK_SIZE; y++) {
+        for (let x = bx; x < bx + BLOCK_SIZE; x++) {
+          sum += current[y * width + x];
+          sumSquares += current[y * width + x] ** 2;
+        }
+      }
+      const count = BLOCK_SIZE * BLOCK_SIZE;
+      if (sumSquares / count - (sum / count) ** 2 < MIN_BLOCK_VARIANCE) continue;
+
+      let best = { dx: 0, dy: 0, cost: Infinity };
+      for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+        for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+          let cost = 0;
+          for (let y = by; y < by + BLOCK_SIZE && cost <= best.cost; y++) {
+            const row = y * width, previousRow = (y - dy) * width - dx;
+            for (let x = bx; x < bx + BLOCK_SIZE; x++) {
+              cost += Math.abs(current[row + x] - previous[previousRow + x]);
+            }
+          }
+          // Ties go to the smaller shift, so a still frame reads as still.
+          if (cost < best.cost || (cost === best.cost && Math.abs(dx) + Math.abs(dy) < Math.abs(best.dx) + Math.abs(best.dy))) {
+            best = { dx, dy, cost };
+          }
+        }
+      }
+      dxs.push(best.dx);
+      dys.push(best.dy);
+    }
+  }
+  return dxs.length > 0 ? { dx: median(dxs), dy: median(dys) } : { dx: 0, dy: 0 };
+}
+
+/**
+ * Turns frame-to-frame shifts (`shifts[i]` from frame i - 1 to frame i, the
+ * first is ignored) into per-frame corrections that move each frame onto the
+ * target camera path: fixed on the first frame for 'lock', a moving average of
+ * the measured path for 'smooth'.
+ */
+export function planStabilization(shifts: MotionVector[], mode: StabilizationMode, width: number, height: number): StabilizationPlan {
+  const path: MotionVector[] = [];
+  shifts.forEach((shift, i) => {
+    const last = path[i - 1] ?? { dx: 0, dy: 0 };
+    path.push(i === 0 ? last : { dx: last.dx + shift.dx, dy: last.dy + shift.dy });
+  });
+
+  const target = (i: number): MotionVector => {
+    if (mode === 'off') return path[i];
+    if (mode === 'lock') return { dx: 0, dy: 0 };
+    const from = Math.max(0, i - SMOOTHING_RADIUS), to = Math.min(path.length - 1, i + SMOOTHING_RADIUS);
+    const window = path.slice(from, to + 1);
+    return {
+      dx: window.reduce((sum, p) => sum + p.dx, 0) / window.length,
+      dy: window.reduce((sum, p) => sum + p.dy, 0) / window.length,
+    };
+  };
+
+  const corrections = path.map((position, i) => {
+    const { dx, dy } = target(i);
+    return { dx: (dx - position.dx) / width, dy: (dy - position.dy) / height };
+  });
+  const largest = corrections.reduce((max, c) => Math.max(max, Math.abs(c.dx), Math.abs(c.dy)), 0);
+  return { corrections, zoom: 1 / Math.max(1 / MAX_ZOOM, 1 - 2 * largest) };
+}
+
+/**
+ * Shifts a frame by `correction` (fractions of its size) and zooms it about the
+ * centre, sampling bilinearly. Pixels that fall outside repeat the edge.
+ */
+export function warpFrame(source: Uint8ClampedArray, width: number, height: number, correction: MotionVector, zoom: number): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(source.length);
+  const cx = width / 2, cy = height / 2;
+  const shiftX = correction.dx * width, shiftY = correction.dy * height;
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, cy + (y - cy) / zoom - shiftY));
+    const y0 = Math.floor(sy), y1 = Math.min(height - 1, y0 + 1), fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, cx + (x - cx) / zoom - shiftX));
+      const x0 = Math.floor(sx), x1 = Math.min(width - 1, x0 + 1), fx = sx - x0;
+      const p00 = (y0 * width + x0) * 4, p10 = (y0 * width + x1) * 4;
+      const p01 = (y1 * width + x0) * 4, p11 = (y1 * width + x1) * 4;
+      const p = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = source[p00 + c] * (1 - fx) + source[p10 + c] * fx;
+        const bottom = source[p01 + c] * (1 - fx) + source[p11 + c] * fx;
+        output[p + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return output;
+}
@@ -0,0 +1,135 @@
+import { type ImageLayer, type OverlayLayer, type TextLayer } from '../types';
+import { loadImage } from './frameImage';
+
+export const CAPTION_FONTS = ['Impact', 'Arial', 'Georgia', 'Courier New', 'Comic Sans MS'];
+
+const MAX_TEXT_WIDTH = 0.9;
+const LINE_HEIGHT = 1.15;
+const MEME_CAPTION_MAX_WORDS = 8;
+
+let nextLayerId = 1;
+
+export function createTextLayer(text = 'Your caption', changes: Partial<TextLayer> = {}): TextLayer {
+  return {
+    id: Date.now() + nextLayerId++,
+    kind: 'text',
+    text,
+    fontFamily: 'Impact',
+    fontSize: 0.1,
+    color: '#ffffff',
+    strokeColor: '#000000',
+    strokeWidth: 0.12,
+    x: 0.5,
+    y: 0.88,
+    opacity: 1,
+    startFrame: 0,
+    endFrame: null,
+    ...changes,
+  };
+}
+
+export function createImageLayer(dataUrl: string): ImageLayer {
+  return {
+    id: Date.now() + nextLayerId++,
+    kind: 'image',
+    dataUrl,
+    width: 0.2,
+    x: 0.85,
+    y: 0.85,
+    opacity: 0.8,
+    startFrame: 0,
+    endFrame: null,
+  };
+}
+
+/** Shortens a description to a punchy, upper-case caption: first clause, a handful of words. */
+export function toMemeCaption(description: string): string {
+  const firstClause = description.trim().split(/[.!?;:\n]|,\s/)[0] ?? '';
+  const words = firstClause.split(/\s+/).filter(Boolean);
+  const shortened = words.slice(0, MEME_CAPTION_MAX_WORDS).join(' ');
+  return (words.length > MEME_CAPTION_MAX_WORDS ? `${shortened}…` : shortened).toUpperCase();
+}
+
+export function isLayerVisible(layer: OverlayLayer, frameIndex: number): boolean {
+  return frameIndex >= layer.startFrame && (layer.endFrame === null || frameIndex <= layer.endFrame);
+}
+
+/** Preloads the images of all image layers, keyed by layer id. */
+export async function loadLayerImages(layers: OverlayLayer[]): Promise<Map<number, HTMLImageElement>> {
+  const images = new Map<number, HTMLImageElement>();
+  await Promise.all(layers.map(async layer => {
+    if (layer.kind === 'image') {
+      images.set(layer.id, await loadImage(layer.dataUrl));
+    }
+  }));
+  return images;
+}
+
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && context.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function drawTextLayer(context: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number) {
+  const fontSize = Math.max(1, layer.fontSize * height);
+  context.font = `bold ${fontSize}px "${layer.fontFamily}", sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.lineJoin = 'round';
+
+  const lines = wrapText(context, layer.text, width * MAX_TEXT_WIDTH);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const top = layer.y * height - ((lines.length - 1) * lineHeight) / 2;
+
+  lines.forEach((line, i) => {
+    const y = top + i * lineHeight;
+    if (layer.strokeWidth > 0) {
+      context.strokeStyle = layer.strokeColor;
+      context.lineWidth = layer.strokeWidth * fontSize;
+      context.strokeText(line, layer.x * width, y);
+    }
+    context.fillStyle = layer.color;
+    context.fillText(line, layer.x * width, y);
+  });
+}
+
+function drawImageLayer(context: CanvasRenderingContext2D, layer: ImageLayer, image: HTMLImageElement, width: number, height: number) {
+  const drawWidth = layer.width * width;
+  const drawHeight = drawWidth * image.naturalHeight / image.naturalWidth;
+  context.drawImage(image, layer.x * width - drawWidth / 2, layer.y * height - drawHeight / 2, drawWidth, drawHeight);
+}
+
+/** Draws every layer visible on `frameIndex` on top of what is already on the canvas. */
+export function drawLayers(
+  context: CanvasRenderingContext2D,
+  layers: OverlayLayer[],
+  frameIndex: number,
+  images: Map<number, HTMLImageElement>,
+) {
+  const { width, height } = context.canvas;
+  for (const layer of layers) {
+    if (!isLayerVisible(layer, frameIndex)) continue;
+    context.save();
+    context.globalAlpha = layer.opacity;
+    if (layer.kind === 'text') {
+      drawTextLayer(context, layer, width, height);
+    } else {
+      const image = images.get(layer.id);
+      if (image) drawImageLayer(context, layer, image, width, height);
+    }
+    context.restore();
+  }
+}
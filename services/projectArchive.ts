@@ -0,0 +1,130 @@
+import { type Frame, type Segment } from '../types';
+import { createZip, jsonEntry, readZip, type ZipEntry } from './export/zip';
+import { type StoredVideo } from './projectStore';
+import { createSegment, upgradeLegacyFields, type LegacySegmentFields } from './segments';
+
+const ARCHIVE_FORMAT = 'video-to-gif-project';
+// Version 1 held a single `video`; version 2 has a `videos` list.
+const ARCHIVE_VERSION = 2;
+const MANIFEST_NAME = 'project.json';
+
+export const PROJECT_ARCHIVE_EXTENSION = '.gifproject.zip';
+
+interface ArchivedFrame extends Omit<Frame, 'blob' | 'original'> {
+  path: string;
+}
+
+interface ArchivedSegment extends Omit<Segment, 'frames' | 'resultUrl' | 'resultBlob' | 'unoptimizedBlob' | 'selectedFrameIds' | 'gifMetadata'>, LegacySegmentFields {
+  frames: ArchivedFrame[];
+  selectedFrameIds?: number[];
+  gifMetadata?: Segment['gifMetadata'];
+  result?: { path: string; type: string };
+}
+
+interface ArchivedVideo {
+  path: string;
+  name: string;
+  type: string;
+}
+
+interface ProjectManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  name: string;
+  videos?: (ArchivedVideo & { id: number })[];
+  video?: ArchivedVideo;
+  segments: ArchivedSegment[];
+}
+
+export interface ImportedProject {
+  name: string;
+  videos: StoredVideo[];
+  segments: Segment[];
+}
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * Packs a project into a single file: a ZIP holding the source videos, the
+ * extracted frames, rendered outputs and a JSON manifest of the segments.
+ */
+export async function exportProjectArchive(name: string, videos: StoredVideo[], segments: Segment[]): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const archivedVideos: ProjectManifest['videos'] = [];
+  for (const { id, file } of videos) {
+    const path = `videos/${id}/${file.name || 'source'}`;
+    entries.push({ name: path, data: await toBytes(file) });
+    archivedVideos.push({ id, path, name: file.name, type: file.type });
+  }
+
+  const archivedSegments: ArchivedSegment[] = [];
+  for (const [segmentIndex, segment] of segments.entries()) {
+    // The unoptimized comparison copy is left out; only the chosen result is archived.
+    const { frames, resultUrl: _resultUrl, resultBlob, unoptimizedBlob: _unoptimizedBlob, ...settings } = segment;
+    const archivedFrames: ArchivedFrame[] = [];
+    // Processed frames are archived as shown; the pixels they were extracted with are not.
+    for (const [frameIndex, { blob, original: _original, ...frame }] of frames.entries()) {
+      const path = `segments/${segmentIndex + 1}/frames/${String(frameIndex + 1).padStart(4, '0')}.jpg`;
+      entries.push({ name: path, data: await toBytes(blob) });
+      archivedFrames.push({ ...frame, path });
+    }
+
+    let result: ArchivedSegment['result'];
+    if (resultBlob) {
+      result = { path: `segments/${segmentIndex + 1}/result`, type: resultBlob.type };
+      entries.push({ name: result.path, data: await toBytes(resultBlob) });
+    }
+    archivedSegments.push({ ...settings, frames: archivedFrames, result });
+  }
+
+  const manifest: ProjectManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    name,
+    videos: archivedVideos,
+    segments: archivedSegments,
+  };
+  entries.push(jsonEntry(MANIFEST_NAME, manifest));
+  return createZip(entries);
+}
+
+/** Reads a file written by `exportProjectArchive`. */
+export async function importProjectArchive(file: Blob): Promise<ImportedProject> {
+  const files = new Map((await readZip(file)).map(entry => [entry.name, entry.data]));
+  const readEntry = (path: string) => {
+    const data = files.get(path);
+    if (!data) throw new Error(`The project file is incomplete: ${path} is missing.`);
+    return data as BlobPart;
+  };
+
+  const manifestData = files.get(MANIFEST_NAME);
+  const manifest: ProjectManifest | null = manifestData ? JSON.parse(new TextDecoder().decode(manifestData)) : null;
+  if (manifest?.format !== ARCHIVE_FORMAT) {
+    throw new Error('This file is not a Video to GIF project.');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error('This project was saved by a newer version of the app.');
+  }
+
+  const archivedVideos = manifest.videos ?? (manifest.video ? [{ ...manifest.video, id: 0 }] : []);
+  if (archivedVideos.length === 0) {
+    throw new Error('The project file contains no videos.');
+  }
+  const videos = archivedVideos.map(video => ({
+    id: video.id,
+    file: new File([readEntry(video.path)], video.name, { type: video.type }),
+  }));
+  const segments = manifest.segments.map((archived): Segment => {
+    const { frames, result, selectedFrameIds: _selectedFrameIds, selectedFrameRange: _selectedFrameRange, gifDescription: _gifDescription, ...settings } = archived;
+    const restoredFrames = frames.map(({ path, ...frame }) => ({ ...frame, blob: new Blob([readEntry(path)], { type: 'image/jpeg' }) }));
+    return {
+      // Defaults first, for fields added after the archive was written
+      ...createSegment(videos[0].id),
+      ...settings,
+      frames: restoredFrames,
+      ...upgradeLegacyFields(archived, restoredFrames),
+      resultBlob: result ? new Blob([readEntry(result.path)], { type: result.type }) : undefined,
+    };
+  });
+  return { name: manifest.name, videos, segments };
+}
@@ -0,0 +1,216 @@
+import { type PipelineState, type Segment } from '../types';
+import { createSegment, upgradeLegacyFields, type LegacySegmentFields } from './segments';
+
+const DB_NAME = 'video-to-gif';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+// Version 1 kept one video per project, keyed by project id.
+const LEGACY_VIDEOS_STORE = 'videos';
+const SOURCES_STORE = 'sources';
+const SOURCES_BY_PROJECT = 'projectId';
+const RECENT_PROJECT_LIMIT = 12;
+
+export interface ProjectMeta {
+  id: number;
+  name: string;
+  createdAt: number;
+}
+
+export interface StoredVideo {
+  id: number;
+  file: File;
+}
+
+export interface Project extends ProjectMeta {
+  // In the order they were added
+  videos: StoredVideo[];
+  segments: Segment[];
+}
+
+interface SourceRecord extends StoredVideo {
+  projectId: number;
+}
+
+export interface ProjectSummary extends ProjectMeta {
+  updatedAt: number;
+  segmentCount: number;
+  thumbnailUrl?: string;
+}
+
+// Object URLs do not survive a reload, so only the rendered blob is stored.
+type StoredSegment = Omit<Segment, 'resultUrl' | 'selectedFrameIds' | 'gifMetadata'>
+  & Partial<Pick<Segment, 'selectedFrameIds' | 'gifMetadata'>>
+  & LegacySegmentFields;
+
+interface ProjectRecord extends ProjectMeta {
+  updatedAt: number;
+  segments: StoredSegment[];
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        // Videos are kept apart from the project record so autosaves never rewrite them.
+        const sources = db.createObjectStore(SOURCES_STORE, { keyPath: ['projectId', 'id'] });
+        sources.createIndex(SOURCES_BY_PROJECT, 'projectId');
+        if (event.oldVersion === 1) {
+          migrateLegacyVideos(request.transaction!, sources);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the project database.'));
+    });
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+}
+
+// Moves version 1 videos into the sources store. The video takes the project's
+// id, which is what `loadProject` assigns to segments saved without a video id.
+function migrateLegacyVideos(transaction: IDBTransaction, sources: IDBObjectStore) {
+  const legacy = transaction.objectStore(LEGACY_VIDEOS_STORE);
+  legacy.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) {
+      const projectId = cursor.key as number;
+      sources.put({ projectId, id: projectId, file: cursor.value as File } satisfies SourceRecord);
+      cursor.continue();
+    } else {
+      transaction.db.deleteObjectStore(LEGACY_VIDEOS_STORE);
+    }
+  };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Project database request failed.'));
+  });
+}
+
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('Project database transaction failed.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Project database transaction was aborted.'));
+  });
+}
+
+function toStoredSegment(segment: Segment): StoredSegment {
+  const { resultUrl: _resultUrl, ...stored } = segment;
+  return stored;
+}
+
+const settlePipeline = (state: PipelineState): PipelineState =>
+  state.status === 'running' || state.status === 'retrying' ? { status: 'idle', attempt: 0 } : state;
+
+/**
+ * Turns a stored segment back into a live one. Work that was in flight when
+ * the project was saved cannot resume, so it is reset, and fields added since
+ * the project was saved take their defaults.
+ */
+function restoreSegment(stored: StoredSegment, defaultVideoId: number): Segment {
+  const { selectedFrameRange: _selectedFrameRange, gifDescription: _gifDescription, ...current } = stored;
+  const segment = { ...createSegment(defaultVideoId), ...current };
+  const upgraded = upgradeLegacyFields(stored, segment.frames);
+  return {
+    ...segment,
+    ...upgraded,
+    status: segment.status === 'extracting' ? 'idle' : segment.status,
+    encoding: settlePipeline(upgraded.encoding),
+    description: settlePipeline(upgraded.description),
+    resultUrl: segment.resultBlob ? URL.createObjectURL(segment.resultBlob) : undefined,
+  };
+}
+
+/** Stores a new project together with its source videos. */
+export async function createProject(videos: StoredVideo[], segments: Segment[], name: string): Promise<ProjectMeta> {
+  const now = Date.now();
+  const meta: ProjectMeta = { id: now, name, createdAt: now };
+  const record: ProjectRecord = { ...meta, updatedAt: now, segments: segments.map(toStoredSegment) };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, SOURCES_STORE], 'readwrite');
+  const sources = transaction.objectStore(SOURCES_STORE);
+  videos.forEach(video => sources.put({ projectId: meta.id, id: video.id, file: video.file } satisfies SourceRecord));
+  transaction.objectStore(PROJECTS_STORE).put(record);
+  await transactionComplete(transaction);
+  return meta;
+}
+
+/** Saves the segments of an existing project. The videos are left untouched. */
+export async function saveProject(meta: ProjectMeta, segments: Segment[]): Promise<void> {
+  const record: ProjectRecord = { ...meta, updatedAt: Date.now(), segments: segments.map(toStoredSegment) };
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(record);
+  await transactionComplete(transaction);
+}
+
+export async function addProjectVideo(projectId: number, video: StoredVideo): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SOURCES_STORE, 'readwrite');
+  transaction.objectStore(SOURCES_STORE).put({ projectId, id: video.id, file: video.file } satisfies SourceRecord);
+  await transactionComplete(transaction);
+}
+
+export async function removeProjectVideo(projectId: number, videoId: number): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SOURCES_STORE, 'readwrite');
+  transaction.objectStore(SOURCES_STORE).delete([projectId, videoId]);
+  await transactionComplete(transaction);
+}
+
+export async function loadProject(id: number): Promise<Project> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, SOURCES_STORE], 'readonly');
+  const [record, sources] = await Promise.all([
+    requestResult<ProjectRecord | undefined>(transaction.objectStore(PROJECTS_STORE).get(id)),
+    requestResult<SourceRecord[]>(transaction.objectStore(SOURCES_STORE).index(SOURCES_BY_PROJECT).getAll(id)),
+  ]);
+  if (!record || sources.length === 0) {
+    throw new Error('This project could not be found. It may have been deleted.');
+  }
+  const videos = sources.sort((a, b) => a.id - b.id).map(({ id: videoId, file }) => ({ id: videoId, file }));
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    videos,
+    segments: record.segments.map(segment => restoreSegment(segment, videos[0].id)),
+  };
+}
+
+/** Most recently edited projects first. */
+export async function listRecentProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readonly');
+  const records = await requestResult<ProjectRecord[]>(transaction.objectStore(PROJECTS_STORE).getAll());
+  return records
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, RECENT_PROJECT_LIMIT)
+    .map(record => ({
+      id: record.id,
+      name: record.name,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      segmentCount: record.segments.length,
+      thumbnailUrl: record.segments.find(segment => segment.frames.length > 0)?.frames[0].thumbnailUrl,
+    }));
+}
+
+export async function deleteProject(id: number): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, SOURCES_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(SOURCES_STORE).delete(IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+  await transactionComplete(transaction);
+}
@@ -0,0 +1,74 @@
+import { type DescriptionProviderConfig, type DescriptionProviderKind } from '../types';
+import { DEFAULT_DESCRIPTION_STYLE, DESCRIPTION_TONES, noDescriptionProvider, type DescriptionProvider } from './descriptionProvider';
+import { createGeminiProvider } from './geminiService';
+import { createHttpProvider } from './httpDescriptionService';
+import { withResponseCache } from './descriptionCache';
+import { DEFAULT_FRAME_SAMPLING } from './frameSampler';
+
+const STORAGE_KEY = 'video-to-gif:description-provider';
+
+const PROVIDER_KINDS: DescriptionProviderKind[] = ['gemini', 'http', 'none'];
+
+// Build-time defaults, see vite.config.ts. Gemini is only the default when a key is present.
+export function getDefaultProviderConfig(): DescriptionProviderConfig {
+  const apiKey = process.env.API_KEY;
+  const requested = process.env.DESCRIPTION_PROVIDER as DescriptionProviderKind | undefined;
+  const kind = requested && PROVIDER_KINDS.includes(requested) ? requested : (apiKey ? 'gemini' : 'none');
+  return {
+    kind,
+    ...DEFAULT_DESCRIPTION_STYLE,
+    sampleFrameCount: DEFAULT_FRAME_SAMPLING.maxFrames,
+    sampleMaxDimension: DEFAULT_FRAME_SAMPLING.maxDimension,
+    geminiApiKey: apiKey,
+    httpEndpoint: process.env.DESCRIPTION_API_URL,
+    httpModel: process.env.DESCRIPTION_MODEL,
+  };
+}
+
+export function loadProviderConfig(): DescriptionProviderConfig {
+  const defaults = getDefaultProviderConfig();
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaults;
+    const parsed: Partial<DescriptionProviderConfig> = JSON.parse(stored);
+    const config = { ...defaults, ...parsed };
+    if (!PROVIDER_KINDS.includes(config.kind)) return defaults;
+    return config.tone in DESCRIPTION_TONES ? config : { ...config, tone: defaults.tone };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveProviderConfig(config: DescriptionProviderConfig) {
+  // Only a key typed into the settings is stored. The build-time key stays
+  // out of storage, so it isn't written to disk and a new one takes effect.
+  const { geminiApiKey: _geminiApiKey, ...rest } = config;
+  const stored = config.geminiApiKey && config.geminiApiKey !== process.env.API_KEY ? config : rest;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.error("Failed to save description provider settings.", e);
+  }
+}
+
+function createBackend(config: DescriptionProviderConfig): DescriptionProvider {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiProvider(config.geminiApiKey, config);
+    case 'http':
+      return createHttpProvider(config.httpEndpoint, config.httpModel, config, config.httpApiKey);
+    default:
+      return noDescriptionProvider;
+  }
+}
+
+export function createDescriptionProvider(config: DescriptionProviderConfig): DescriptionProvider {
+  const backend = createBackend(config);
+  if (backend.kind === 'none') return backend;
+  // Everything that changes the answer; API keys don't.
+  const scope = JSON.stringify([config.kind, config.httpEndpoint, config.httpModel, config.language, config.tone, config.promptTemplate]);
+  return {
+    ...withResponseCache(backend, scope),
+    sampling: { maxFrames: config.sampleFrameCount, maxDimension: config.sampleMaxDimension },
+  };
+}
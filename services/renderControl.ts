@@ -0,0 +1,10 @@
+/** Progress, cancellation and scheduling hints passed down from the render queue. */
+export interface RenderControl {
+  signal?: AbortSignal;
+  // Work with a higher priority is started first when it has to wait
+  priority?: number;
+  // Fraction of the work done, 0 to 1
+  onProgress?: (progress: number) => void;
+}
+
+export const renderCancelledError = () => new DOMException('Rendering was cancelled.', 'AbortError');
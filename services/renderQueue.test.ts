@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { type RenderControl } from './renderControl';
+import { RenderQueue, type RenderJob } from './renderQueue';
+
+// A task that records its start and waits to be finished from the test.
+function controllableTask(started: number[], id: number) {
+  let finish!: (value: string) => void;
+  let fail!: (error: Error) => void;
+  let control!: Required<RenderControl>;
+  const task = (taskControl: Required<RenderControl>) => {
+    started.push(id);
+    control = taskControl;
+    return new Promise<string>((resolve, reject) => {
+      finish = resolve;
+      fail = reject;
+    });
+  };
+  return {
+    task,
+    finish: (value = `done ${id}`) => finish(value),
+    fail: (error: Error) => fail(error),
+    get control() { return control; },
+  };
+}
+
+// Lets promise callbacks, and the queue's bookkeeping after them, run.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createQueue(concurrency: number) {
+  const snapshots: RenderJob[][] = [];
+  const queue = new RenderQueue(concurrency, jobs => snapshots.push(jobs));
+  const started: number[] = [];
+  const add = (id: number, priority = 0) => {
+    const task = controllableTask(started, id);
+    const result = queue.enqueue(id, task.task, priority);
+    // Keep rejections from being reported as unhandled before a test checks them.
+    result.catch(() => {});
+    return { ...task, result };
+  };
+  return { queue, snapshots, started, add, latest: () => snapshots[snapshots.length - 1] };
+}
+
+describe('RenderQueue', () => {
+  it('runs at most `concurrency` jobs and starts the next when one finishes', async () => {
+    const { started, add, latest } = createQueue(2);
+    const a = add(1);
+    add(2);
+    add(3);
+    expect(started).toEqual([1, 2]);
+    expect(latest().map(job => job.status)).toEqual(['running', 'running', 'queued']);
+
+    a.finish();
+    expect(await a.result).toBe('done 1');
+    await settle();
+    expect(started).toEqual([1, 2, 3]);
+    expect(latest().map(job => job.id)).toEqual([2, 3]);
+  });
+
+  it('starts the highest priority first, and equal priorities in queued order', async () => {
+    const { started, add } = createQueue(1);
+    const jobs = [add(1), add(2, 0), add(3, 5), add(4, 5), add(5, 1)];
+    for (const id of [1, 3, 4, 5]) {
+      jobs[id - 1].finish();
+      await settle();
+    }
+    expect(started).toEqual([1, 3, 4, 5, 2]);
+  });
+
+  it('follows a changed priority', async () => {
+    const { queue, started, add, latest } = createQueue(1);
+    const first = add(1);
+    add(2);
+    add(3);
+    queue.setPriority(3, queue.getTopPriority() + 1);
+    expect(latest().find(job => job.id === 3)?.priority).toBe(1);
+
+    first.finish();
+    await settle();
+    expect(started).toEqual([1, 3]);
+  });
+
+  it('cancels a job: its promise rejects, its signal aborts and the next job starts', async () => {
+    const { queue, started, add, latest } = createQueue(1);
+    const running = add(1);
+    add(2);
+    queue.cancel(1);
+
+    await expect(running.result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(running.control.signal.aborted).toBe(true);
+    expect(started).toEqual([1, 2]);
+    expect(latest().map(job => job.id)).toEqual([2]);
+
+    // A late result of the cancelled task is ignored.
+    running.finish();
+    await settle();
+    expect(latest().map(job => job.id)).toEqual([2]);
+  });
+
+  it('cancels a queued job without starting it', async () => {
+    const { queue, started, add } = createQueue(1);
+    const first = add(1);
+    const queued = add(2);
+    queue.cancel(2);
+    await expect(queued.result).rejects.toMatchObject({ name: 'AbortError' });
+
+    first.finish();
+    await settle();
+    expect(started).toEqual([1]);
+  });
+
+  it('replaces the job of an id that is queued again', async () => {
+    const { started, add, latest } = createQueue(1);
+    const old = add(1);
+    const replacement = add(1);
+
+    await expect(old.result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(old.control.signal.aborted).toBe(true);
+    expect(started).toEqual([1, 1]);
+
+    old.finish('stale');
+    replacement.finish('fresh');
+    expect(await replacement.result).toBe('fresh');
+    await settle();
+    expect(latest()).toEqual([]);
+  });
+
+  it('passes task failures through and moves on', async () => {
+    const { started, add } = createQueue(1);
+    const failing = add(1);
+    add(2);
+    failing.fail(new Error('Encoder crashed.'));
+    await expect(failing.result).rejects.toThrow('Encoder crashed.');
+    await settle();
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('reports progress of the current job only', async () => {
+    const { add, latest } = createQueue(1);
+    const old = add(1);
+    old.control.onProgress(0.5);
+    expect(latest()[0].progress).toBe(0.5);
+
+    const replacement = add(1);
+    replacement.control.onProgress(0.1);
+    old.control.onProgress(0.9);
+    expect(latest()[0].progress).toBe(0.1);
+  });
+
+  it('starts waiting jobs when the concurrency goes up', () => {
+    const { queue, started, add } = createQueue(1);
+    add(1);
+    add(2);
+    add(3);
+    queue.setConcurrency(3);
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('cancels everything at once', async () => {
+    const { queue, add, latest } = createQueue(1);
+    const jobs = [add(1), add(2)];
+    queue.cancelAll();
+    for (const job of jobs) await expect(job.result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(latest()).toEqual([]);
+  });
+});
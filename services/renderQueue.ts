@@ -0,0 +1,128 @@
+import { renderCancelledError, type RenderControl } from './renderControl';
+
+export type RenderJobStatus = 'queued' | 'running';
+
+export interface RenderJob {
+  // One job per segment, so this is the segment id
+  id: number;
+  status: RenderJobStatus;
+  priority: number;
+  progress: number;
+}
+
+type RenderTask<T> = (control: Required<RenderControl>) => Promise<T>;
+
+interface QueueEntry {
+  job: RenderJob;
+  // Tie-breaker so equal priorities run in the order they were queued
+  sequence: number;
+  controller: AbortController;
+  task: RenderTask<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+export const DEFAULT_RENDER_CONCURRENCY = 2;
+export const MAX_RENDER_CONCURRENCY = 4;
+
+/**
+ * Runs render jobs with at most `concurrency` at a time, highest priority
+ * first. Queuing a job for an id that already has one replaces it. Listeners
+ * get a fresh snapshot of all jobs whenever one changes.
+ */
+export class RenderQueue {
+  private readonly entries = new Map<number, QueueEntry>();
+  private sequence = 0;
+
+  constructor(private concurrency: number, private readonly onChange: (jobs: RenderJob[]) => void) {}
+
+  enqueue<T>(id: number, task: RenderTask<T>, priority = 0): Promise<T> {
+    this.cancel(id);
+    return new Promise<T>((resolve, reject) => {
+      this.entries.set(id, {
+        job: { id, status: 'queued', priority, progress: 0 },
+        sequence: this.sequence++,
+        controller: new AbortController(),
+        task,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.pump();
+      this.emit();
+    });
+  }
+
+  /** Rejects the job's promise with an AbortError and stops its work. */
+  cancel(id: number) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.entries.delete(id);
+    entry.controller.abort(renderCancelledError());
+    entry.reject(renderCancelledError());
+    this.pump();
+    this.emit();
+  }
+
+  cancelAll() {
+    [...this.entries.keys()].forEach(id => this.cancel(id));
+  }
+
+  setPriority(id: number, priority: number) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.job = { ...entry.job, priority };
+    this.emit();
+  }
+
+  /** Highest priority currently queued, for moving a job to the front. */
+  getTopPriority(): number {
+    return Math.max(0, ...[...this.entries.values()].map(entry => entry.job.priority));
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency);
+    this.pump();
+  }
+
+  private pump() {
+    const entries = [...this.entries.values()];
+    let running = entries.filter(entry => entry.job.status === 'running').length;
+    const waiting = entries
+      .filter(entry => entry.job.status === 'queued')
+      .sort((a, b) => b.job.priority - a.job.priority || a.sequence - b.sequence);
+
+    for (const entry of waiting) {
+      if (running >= this.concurrency) break;
+      running++;
+      this.start(entry);
+    }
+  }
+
+  private start(entry: QueueEntry) {
+    const { id } = entry.job;
+    const isCurrent = () => this.entries.get(id) === entry;
+    entry.job = { ...entry.job, status: 'running' };
+
+    entry.task({
+      signal: entry.controller.signal,
+      priority: entry.job.priority,
+      onProgress: (progress) => {
+        if (!isCurrent()) return;
+        entry.job = { ...entry.job, progress };
+        this.emit();
+      },
+    }).then(
+      value => { if (isCurrent()) entry.resolve(value); },
+      error => { if (isCurrent()) entry.reject(error); },
+    ).finally(() => {
+      if (!isCurrent()) return;
+      this.entries.delete(id);
+      this.pump();
+      this.emit();
+    });
+  }
+
+  private emit() {
+    this.onChange([...this.entries.values()].map(entry => entry.job));
+  }
+}
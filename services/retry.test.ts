@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withRetry } from './retry';
+
+// A task that fails `failures` times, then resolves with its attempt number.
+function flaky(failures: number, error: unknown = new Error('Busy.')) {
+  return vi.fn(async (attempt: number) => {
+    if (attempt <= failures) throw error;
+    return attempt;
+  });
+}
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter: every wait is half the backoff delay.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves on the first attempt without waiting', async () => {
+    const task = flaky(0);
+    await expect(withRetry(task, { retries: 3, baseDelayMs: 100 })).resolves.toBe(1);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries with exponential backoff until the task succeeds', async () => {
+    const task = flaky(2);
+    const onRetry = vi.fn();
+    const result = withRetry(task, { retries: 3, baseDelayMs: 100, onRetry });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenLastCalledWith(2, expect.any(Error));
+
+    // Half of 100ms, then half of 200ms
+    await vi.advanceTimersByTimeAsync(49);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(3, expect.any(Error));
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe(3);
+    expect(task.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('adds up to the full delay as jitter', async () => {
+    vi.mocked(Math.random).mockReturnValue(0.999);
+    const task = flaky(1);
+    const result = withRetry(task, { retries: 1, baseDelayMs: 100 });
+    await vi.advanceTimersByTimeAsync(98);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2);
+    await expect(result).resolves.toBe(2);
+  });
+
+  it('caps the delay at maxDelayMs', async () => {
+    const task = flaky(3);
+    const result = withRetry(task, { retries: 3, baseDelayMs: 1000, maxDelayMs: 1500 });
+    // 500ms, then 750ms twice instead of 1000ms and 2000ms
+    await vi.advanceTimersByTimeAsync(500 + 750 + 750);
+    await expect(result).resolves.toBe(4);
+  });
+
+  it('gives up after the last retry with the last error', async () => {
+    const error = new Error('Still busy.');
+    const task = flaky(Infinity, error);
+    const result = withRetry(task, { retries: 2, baseDelayMs: 100 });
+    const settled = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws errors that are not retryable at once', async () => {
+    const permanent = new Error('Bad key.');
+    const task = flaky(Infinity, permanent);
+    const onRetry = vi.fn();
+    await expect(withRetry(task, {
+      retries: 3,
+      baseDelayMs: 100,
+      isRetryable: error => error !== permanent,
+      onRetry,
+    })).rejects.toBe(permanent);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('stops retrying once an error is no longer retryable', async () => {
+    const permanent = new Error('Bad key.');
+    const task = vi.fn(async (attempt: number) => {
+      throw attempt === 1 ? new Error('Busy.') : permanent;
+    });
+    const result = withRetry(task, { retries: 5, baseDelayMs: 100, isRetryable: error => error !== permanent });
+    const settled = expect(result).rejects.toBe(permanent);
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,26 @@
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Runs `task`, retrying with exponential backoff and jitter while `isRetryable` says so.
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs = 30000, isRetryable = () => true, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt > retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      onRetry?.(attempt + 1, error);
+      await wait(delay / 2 + Math.random() * delay / 2);
+    }
+  }
+}
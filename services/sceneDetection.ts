@@ -0,0 +1,148 @@
+import { loadVideo, waitForSeek } from './frameExtractor';
+import { toLuma } from './motion/stabilization';
+
+export interface MomentDetectionOptions {
+  maxCandidates: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+/** A stretch of video inside one scene that is a good length for a GIF. */
+export interface MomentCandidate {
+  start: number;
+  end: number;
+  // Mean frame-to-frame difference inside the range, 0 (static) to 1
+  motion: number;
+  // Small JPEG from the middle of the range, sent to the ranking model
+  previewDataUrl: string;
+}
+
+// Frames are compared at a tiny size: enough to see cuts, cheap to sample.
+const ANALYSIS_WIDTH = 64;
+const MAX_SAMPLES = 240;
+const MIN_SAMPLE_INTERVAL = 0.25;
+// A cut is a difference well above the video's usual frame-to-frame change.
+const CUT_SENSITIVITY = 3;
+const MIN_CUT_DIFFERENCE = 0.12;
+const MIN_SCENE_DURATION = 1;
+const MAX_MOMENT_DURATION = 5;
+// Long takes without cuts are split so they can offer more than one moment.
+const MAX_SCENE_SPAN = 15;
+const PREVIEW_WIDTH = 320;
+const PREVIEW_QUALITY = 0.7;
+
+/** Per-pixel brightness, 0 to 1, of what is on the canvas. */
+export function getLuma(context: CanvasRenderingContext2D, width: number, height: number): Float32Array {
+  return toLuma(context.getImageData(0, 0, width, height).data);
+}
+
+/** Mean absolute brightness change between two same-sized luma buffers, 0 to 1. */
+export function meanDifference(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length;
+}
+
+function findCuts(differences: number[]): Set<number> {
+  const mean = differences.reduce((sum, d) => sum + d, 0) / differences.length;
+  const variance = differences.reduce((sum, d) => sum + (d - mean) ** 2, 0) / differences.length;
+  const threshold = Math.max(MIN_CUT_DIFFERENCE, mean + CUT_SENSITIVITY * Math.sqrt(variance));
+  const cuts = new Set<number>();
+  differences.forEach((difference, i) => {
+    if (difference > threshold) cuts.add(i);
+  });
+  return cuts;
+}
+
+// Picks the window of at most MAX_MOMENT_DURATION with the most motion.
+// `differences[i]` is the change from sample i - 1 to sample i.
+function pickBusiestWindow(differences: number[], first: number, last: number, interval: number) {
+  const length = Math.max(1, Math.min(last - first, Math.round(MAX_MOMENT_DURATION / interval)));
+  let bestStart = first;
+  let bestSum = -1;
+  for (let start = first; start + length <= last; start++) {
+    let sum = 0;
+    for (let i = start + 1; i <= start + length; i++) sum += differences[i];
+    if (sum > bestSum) {
+      bestSum = sum;
+      bestStart = start;
+    }
+  }
+  return { first: bestStart, last: bestStart + length, motion: Math.max(0, bestSum) / length };
+}
+
+/**
+ * Samples the whole video, splits it at scene cuts found by frame
+ * differencing and returns the liveliest stretch of each scene, busiest first.
+ */
+export async function detectMoments(videoUrl: string, options: MomentDetectionOptions): Promise<MomentCandidate[]> {
+  const { signal, onProgress } = options;
+  const video = await loadVideo(videoUrl, signal);
+  try {
+    const { duration, videoWidth, videoHeight } = video;
+    if (!Number.isFinite(duration) || duration <= 0 || !videoWidth) {
+      throw new Error('The video has no readable duration or picture.');
+    }
+
+    const interval = Math.max(MIN_SAMPLE_INTERVAL, duration / MAX_SAMPLES);
+    const times = Array.from({ length: Math.max(2, Math.floor(duration / interval)) }, (_, i) => Math.min(duration, i * interval));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = ANALYSIS_WIDTH;
+    canvas.height = Math.max(1, Math.round(ANALYSIS_WIDTH * videoHeight / videoWidth));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('Could not create a 2D canvas context.');
+    }
+
+    // Sampling takes roughly 80% of the time, previews the rest.
+    const differences: number[] = [0];
+    let previous: Float32Array | null = null;
+    for (let i = 0; i < times.length; i++) {
+      signal?.throwIfAborted();
+      await waitForSeek(video, times[i], signal);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const luma = getLuma(context, canvas.width, canvas.height);
+      if (previous) differences.push(meanDifference(previous, luma));
+      previous = luma;
+      onProgress?.(0.8 * (i + 1) / times.length);
+    }
+
+    const cuts = findCuts(differences);
+    const cutIndices = [0, ...[...cuts].sort((a, b) => a - b), times.length];
+    const span = Math.round(MAX_SCENE_SPAN / interval);
+    const moments: Omit<MomentCandidate, 'previewDataUrl'>[] = [];
+    for (let i = 0; i < cutIndices.length - 1; i++) {
+      for (let first = cutIndices[i]; first < cutIndices[i + 1]; first += span) {
+        const last = Math.min(first + span, cutIndices[i + 1] - 1);
+        if ((last - first) * interval < MIN_SCENE_DURATION) continue;
+        const busiest = pickBusiestWindow(differences, first, last, interval);
+        moments.push({ start: times[busiest.first], end: times[busiest.last], motion: busiest.motion });
+      }
+    }
+
+    const candidates = moments.sort((a, b) => b.motion - a.motion).slice(0, options.maxCandidates);
+    const previewCanvas = document.createElement('canvas');
+    previewCanvas.width = PREVIEW_WIDTH;
+    previewCanvas.height = Math.max(1, Math.round(PREVIEW_WIDTH * videoHeight / videoWidth));
+    const previewContext = previewCanvas.getContext('2d');
+    if (!previewContext) {
+      throw new Error('Could not create a 2D canvas context.');
+    }
+
+    const results: MomentCandidate[] = [];
+    for (const [i, candidate] of candidates.entries()) {
+      await waitForSeek(video, (candidate.start + candidate.end) / 2, signal);
+      previewContext.drawImage(video, 0, 0, previewCanvas.width, previewCanvas.height);
+      results.push({ ...candidate, previewDataUrl: previewCanvas.toDataURL('image/jpeg', PREVIEW_QUALITY) });
+      onProgress?.(0.8 + 0.2 * (i + 1) / candidates.length);
+    }
+    return results;
+  } finally {
+    // Lets the browser drop the decoder and buffered media straight away.
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { type Frame } from '../types';
+import { replaceFrames, revertFrames, unprocessedFrame } from './segmentEditing';
+
+const frame = (id: number, pixels: string): Frame => ({
+  id,
+  timestamp: id / 10,
+  thumbnailUrl: `data:${pixels}`,
+  blob: new Blob([pixels]),
+});
+
+const pixelsOf = (frames: Frame[] | undefined) => Promise.all((frames ?? []).map(frame => frame.blob.text()));
+
+describe('replaceFrames', () => {
+  it('swaps frames in by id and keeps the extracted pixels', async () => {
+    const frames = [frame(1, 'a'), frame(2, 'b'), frame(3, 'c')];
+    const { frames: replaced } = replaceFrames({ frames }, [frame(2, 'b stabilized')]);
+    expect(await pixelsOf(replaced)).toEqual(['a', 'b stabilized', 'c']);
+    expect(replaced![1].original).toEqual({ thumbnailUrl: 'data:b', blob: frames[1].blob });
+    expect(replaced![0]).toBe(frames[0]);
+  });
+
+  it('keeps the first extracted pixels when applied again', async () => {
+    const once = replaceFrames({ frames: [frame(1, 'a')] }, [frame(1, 'a once')]).frames!;
+    const twice = replaceFrames({ frames: once }, [frame(1, 'a twice')]).frames!;
+    expect(await pixelsOf(twice)).toEqual(['a twice']);
+    expect(await twice[0].original!.blob.text()).toBe('a');
+  });
+});
+
+describe('revertFrames', () => {
+  it('restores the given frames as extracted', async () => {
+    const frames = [frame(1, 'a'), frame(2, 'b')];
+    const processed = replaceFrames({ frames }, [frame(1, 'a stabilized'), frame(2, 'b stabilized')]).frames!;
+    const { frames: reverted } = revertFrames({ frames: processed }, [1]);
+    expect(await pixelsOf(reverted)).toEqual(['a', 'b stabilized']);
+    expect(reverted![0]).toEqual(frames[0]);
+    expect(reverted![0].original).toBeUndefined();
+  });
+
+  it('leaves frames that were never processed alone', () => {
+    const unprocessed = frame(1, 'a');
+    expect(unprocessedFrame(unprocessed)).toBe(unprocessed);
+    expect(revertFrames({ frames: [unprocessed] }, [1]).frames![0]).toBe(unprocessed);
+  });
+});
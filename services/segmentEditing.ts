@@ -0,0 +1,122 @@
+import { type Frame, type FrameTransform, type OutputSettings, type Segment } from '../types';
+import { getTransformedSize } from './frameTransform';
+import { DEFAULT_OUTPUT_SETTINGS, fitOutputToSource } from './gifOutput';
+import { createSegment } from './segments';
+import { resolveFrameSelection } from './editRecipe';
+
+// The editing steps of a segment as patches for `onUpdate(id, changes)`,
+// shared by the editor and the headless pipeline. None of them touch the DOM.
+
+// Everything produced from the current frames, cleared whenever they change.
+const clearedResults = (segment: Segment): Partial<Segment> => ({
+  gifMetadata: null,
+  resultUrl: undefined,
+  resultBlob: undefined,
+  unoptimizedBlob: undefined,
+  error: undefined,
+  playback: { ...segment.playback, frameDelays: {} },
+  encoding: { status: 'idle', attempt: 0 },
+  description: { status: 'idle', attempt: 0 },
+});
+
+export const startExtraction = (segment: Segment): Partial<Segment> => ({
+  ...clearedResults(segment),
+  status: 'extracting',
+  frames: [],
+  selectedFrameIds: [],
+});
+
+/** Stores extracted frames, selecting the ones a recipe asked for. */
+export function finishExtraction(segment: Pick<Segment, 'pendingFrameSelection'>, frames: Frame[]): Partial<Segment> {
+  const selectedFrameIds = segment.pendingFrameSelection ? resolveFrameSelection(frames, segment.pendingFrameSelection) : [];
+  return { frames, selectedFrameIds, pendingFrameSelection: null, status: 'frames_ready' };
+}
+
+// Frame timing depends on the rate frames were extracted at, so existing frames are dropped.
+export function changeExtractionFps(segment: Segment, extractionFps: number): Partial<Segment> {
+  return {
+    extractionFps,
+    output: { ...segment.output, fps: Math.min(segment.output.fps, extractionFps) },
+    ...(segment.frames.length > 0 && {
+      frames: [],
+      status: 'idle',
+      selectedFrameIds: [],
+      playback: { ...segment.playback, frameDelays: {} },
+    }),
+  };
+}
+
+// Frames and results belong to the old source, so the segment starts over.
+export function changeVideo(segment: Segment, videoId: number): Partial<Segment> {
+  const defaults = createSegment(videoId);
+  return {
+    ...clearedResults(segment),
+    videoId,
+    status: 'idle',
+    timeRange: defaults.timeRange,
+    frames: [],
+    selectedFrameIds: defaults.selectedFrameIds,
+  };
+}
+
+/** Keeps the output width and, with the aspect locked, follows the height to `width`×`height`. */
+export function followAspect(output: OutputSettings, width: number, height: number): OutputSettings {
+  return output.lockAspect
+    ? { ...output, height: Math.max(1, Math.round(output.width * height / width)) }
+    : output;
+}
+
+export function changeTransform(
+  segment: Pick<Segment, 'output'>,
+  transform: FrameTransform,
+  sourceSize: { width: number; height: number } | null,
+): Partial<Segment> {
+  if (!sourceSize) return { transform };
+  const { width, height } = getTransformedSize(sourceSize.width, sourceSize.height, transform);
+  return { transform, output: followAspect(segment.output, width, height) };
+}
+
+/**
+ * Brings the output size in line with a newly loaded source. An output still
+ * at the default size is fitted to the source; otherwise, with the aspect
+ * locked, the height follows the transformed frame. Null when nothing changes.
+ */
+export function matchSourceSize(
+  segment: Pick<Segment, 'output' | 'transform'>,
+  sourceSize: { width: number; height: number },
+): Partial<Segment> | null {
+  const { width, height } = getTransformedSize(sourceSize.width, sourceSize.height, segment.transform);
+  const isDefaultSize = segment.output.width === DEFAULT_OUTPUT_SETTINGS.width && segment.output.height === DEFAULT_OUTPUT_SETTINGS.height;
+  const output = isDefaultSize ? fitOutputToSource(segment.output, width, height) : followAspect(segment.output, width, height);
+  return output.width === segment.output.width && output.height === segment.output.height ? null : { output };
+}
+
+/** A frame as it was extracted, before any stabilization or cinemagraph. */
+export function unprocessedFrame(frame: Frame): Frame {
+  if (!frame.original) return frame;
+  const { original, ...rest } = frame;
+  return { ...rest, ...original };
+}
+
+/**
+ * Swaps processed frames in by id, e.g. after stabilization. Each keeps the
+ * pixels it was extracted with, so processing can be redone or reverted.
+ */
+export function replaceFrames(segment: Pick<Segment, 'frames'>, processed: Frame[]): Partial<Segment> {
+  const byId = new Map(processed.map(frame => [frame.id, frame]));
+  return {
+    frames: segment.frames.map(frame => {
+      const replacement = byId.get(frame.id);
+      if (!replacement) return frame;
+      const { thumbnailUrl, blob } = frame.original ?? frame;
+      return { ...replacement, original: { thumbnailUrl, blob } };
+    }),
+  };
+}
+
+/** Puts the extracted pixels back into the given frames. */
+export function revertFrames(segment: Pick<Segment, 'frames'>, ids: number[]): Partial<Segment> {
+  const reverted = new Set(ids);
+  return { frames: segment.frames.map(frame => reverted.has(frame.id) ? unprocessedFrame(frame) : frame) };
+}
+
@@ -0,0 +1,102 @@
+import { type ExportFormat, type Segment } from '../types';
+import { DescriptionError, type DescriptionProvider, type DescriptionRequestOptions } from './descriptionProvider';
+import { toAppError } from './errors';
+import { EXPORTERS } from './export/exportFormats';
+import { isAbortError } from './frameExtractor';
+import { DEFAULT_FRAME_SAMPLING, sampleKeyframes } from './frameSampler';
+import { renderSegmentOutput } from './gifOutput';
+import { type RenderQueue } from './renderQueue';
+import { withRetry } from './retry';
+import { getSelectedFrames } from './segments';
+
+// Segment changes are reported as patches, see App.updateSegment.
+export type SegmentUpdate = (changes: Partial<Segment>) => void;
+
+export const DESCRIPTION_RETRIES = 3;
+export const DESCRIPTION_RETRY_DELAY_MS = 1000;
+
+/** Renders the selected frames through the render queue and stores the result on the segment. */
+export async function renderSegment(segment: Segment, exportFormat: ExportFormat, queue: RenderQueue, update: SegmentUpdate, priority = 0): Promise<void> {
+  const frames = getSelectedFrames(segment);
+  if (frames.length === 0) return;
+  update({ exportFormat, resultUrl: undefined, resultBlob: undefined, resultSize: undefined, resultFormat: undefined, unoptimizedBlob: undefined, encoding: { status: 'running', attempt: 1 } });
+
+  try {
+    const { blob, unoptimizedBlob } = await queue.enqueue(
+      segment.id,
+      control => renderSegmentOutput(frames, { ...segment, exportFormat }, `video-to-gif-${segment.id}`, control),
+      priority,
+    );
+    update({ resultUrl: URL.createObjectURL(blob), resultBlob: blob, resultSize: blob.size, resultFormat: exportFormat, unoptimizedBlob, encoding: { status: 'done', attempt: 1 } });
+  } catch (error) {
+    // Whoever cancelled the job resets the segment; it may already be rendering again.
+    if (isAbortError(error)) return;
+    console.error("Error generating output:", error);
+    update({ encoding: { status: 'error', attempt: 1, error: toAppError(error, `Failed to generate ${EXPORTERS[exportFormat].label}.`) } });
+  }
+}
+
+// The latest description request of each segment. A request that is no
+// longer the latest is aborted and its results are dropped.
+const descriptionRequests = new Map<number, AbortController>();
+
+/** Drops the segment's pending description request; true when there was one. */
+export function cancelDescription(segmentId: number): boolean {
+  const controller = descriptionRequests.get(segmentId);
+  if (!controller) return false;
+  controller.abort();
+  descriptionRequests.delete(segmentId);
+  return true;
+}
+
+/**
+ * Asks the description provider about keyframes sampled from the selected
+ * frames, retrying transient failures. Starting a new request for the same
+ * segment cancels the previous one.
+ */
+export async function describeSegment(
+  segment: Segment,
+  provider: DescriptionProvider,
+  update: SegmentUpdate,
+  options: DescriptionRequestOptions = {},
+): Promise<void> {
+  cancelDescription(segment.id);
+  const frames = getSelectedFrames(segment);
+  if (provider.kind === 'none' || frames.length === 0) {
+    update({ gifMetadata: null, description: { status: 'idle', attempt: 0 } });
+    return;
+  }
+
+  const controller = new AbortController();
+  descriptionRequests.set(segment.id, controller);
+  const { signal } = controller;
+  // Reports only while this is still the segment's latest request.
+  const report: SegmentUpdate = changes => { if (!signal.aborted) update(changes); };
+  report({ gifMetadata: null, description: { status: 'running', attempt: 1 } });
+
+  let attempt = 1;
+  try {
+    const samples = await sampleKeyframes(frames, provider.sampling ?? DEFAULT_FRAME_SAMPLING);
+    const frameDataUrls = samples.map(sample => sample.dataUrl);
+    const metadata = await withRetry(
+      async (currentAttempt) => {
+        signal.throwIfAborted();
+        attempt = currentAttempt;
+        return provider.generateDescription(frameDataUrls, { ...options, style: segment.descriptionStyle ?? undefined });
+      },
+      {
+        retries: DESCRIPTION_RETRIES,
+        baseDelayMs: DESCRIPTION_RETRY_DELAY_MS,
+        isRetryable: (error) => error instanceof DescriptionError && error.transient,
+        onRetry: (attempt) => report({ description: { status: 'retrying', attempt } }),
+      },
+    );
+    report({ gifMetadata: metadata, description: { status: 'done', attempt } });
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error("Error generating description:", error);
+    report({ description: { status: 'error', attempt, error: toAppError(error, "Failed to write a description.") } });
+  } finally {
+    if (descriptionRequests.get(segment.id) === controller) descriptionRequests.delete(segment.id);
+  }
+}
@@ -0,0 +1,90 @@
+import { type Segment, type VideoSource } from '../types';
+import { DescriptionError, type DescriptionProvider } from './descriptionProvider';
+import { withRetry } from './retry';
+import { detectMoments, type MomentCandidate } from './sceneDetection';
+import { createSegment } from './segments';
+
+export const MAX_SUGGESTIONS = 5;
+// The model sees more moments than are kept, so ranking has something to choose from.
+const RANKING_CANDIDATES = 12;
+const RANKING_RETRIES = 2;
+const RANKING_RETRY_DELAY_MS = 1000;
+
+export interface SuggestionOptions {
+  rankWithAi: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export interface SegmentSuggestions {
+  // Best first
+  segments: Segment[];
+  // Set when AI ranking was requested but failed; moments are then ordered by motion.
+  rankingError?: string;
+}
+
+export function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/** Like `formatTimestamp`, but keeps hundredths of a second when there are any, e.g. 0:01.5. */
+export function formatPreciseTimestamp(seconds: number): string {
+  const hundredths = Math.round(seconds * 100);
+  const minutes = Math.floor(hundredths / 6000);
+  const rest = (hundredths % 6000) / 100;
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest.toFixed(2).replace(/\.?0+$/, '')}`;
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * Finds GIF-worthy moments across a whole video and turns them into new
+ * segments. Moments come from local scene detection; the description provider
+ * re-orders and titles them when it supports ranking.
+ */
+export async function suggestSegments(video: VideoSource, provider: DescriptionProvider, options: SuggestionOptions): Promise<SegmentSuggestions> {
+  const rankMoments = options.rankWithAi ? provider.rankMoments : undefined;
+  const candidates = await detectMoments(video.url, {
+    maxCandidates: rankMoments ? RANKING_CANDIDATES : MAX_SUGGESTIONS,
+    signal: options.signal,
+    onProgress: options.onProgress,
+  });
+
+  let picks = candidates.map(moment => ({ moment, title: `Scene at ${formatTimestamp(moment.start)}` }));
+  let rankingError: string | undefined;
+
+  if (rankMoments && candidates.length > 0) {
+    try {
+      const rankings = await withRetry(() => rankMoments(candidates.map(c => c.previewDataUrl)), {
+        retries: RANKING_RETRIES,
+        baseDelayMs: RANKING_RETRY_DELAY_MS,
+        isRetryable: (error) => error instanceof DescriptionError && error.transient,
+      });
+      const ranked = new Map<MomentCandidate, string>();
+      for (const ranking of [...rankings].sort((a, b) => b.score - a.score)) {
+        const moment = candidates[ranking.index];
+        if (!ranked.has(moment)) ranked.set(moment, ranking.title.trim());
+      }
+      // Moments the model skipped keep their motion order after the ranked ones.
+      picks = [
+        ...[...ranked].map(([moment, title]) => ({ moment, title: title || `Scene at ${formatTimestamp(moment.start)}` })),
+        ...picks.filter(pick => !ranked.has(pick.moment)),
+      ];
+    } catch (error) {
+      console.error("Error ranking moments:", error);
+      rankingError = error instanceof Error ? error.message : "The moments could not be ranked.";
+    }
+  }
+
+  const now = Date.now();
+  return {
+    segments: picks.slice(0, MAX_SUGGESTIONS).map(({ moment, title }, i) => ({
+      ...createSegment(video.id),
+      id: now + i,
+      title,
+      timeRange: { start: roundTime(moment.start), end: roundTime(moment.end) },
+    })),
+    rankingError,
+  };
+}
@@ -0,0 +1,95 @@
+import { type AppError, type Frame, type PipelineState, type Segment } from '../types';
+import { DEFAULT_OUTPUT_SETTINGS, DEFAULT_PLAYBACK_SETTINGS } from './gifOutput';
+import { DEFAULT_FRAME_TRANSFORM } from './frameTransform';
+import { DEFAULT_EXTRACTION_FPS } from './frameExtractor';
+import { ERROR_ACTIONS } from './errors';
+
+export const createSegment = (videoId: number): Segment => ({
+  id: Date.now(),
+  title: '',
+  videoId,
+  timeRange: { start: 0, end: 1 },
+  extractionFps: DEFAULT_EXTRACTION_FPS,
+  frames: [],
+  selectedFrameIds: [],
+  gifMetadata: null,
+  status: 'idle',
+  transform: DEFAULT_FRAME_TRANSFORM,
+  motion: { stabilization: 'off', cinemagraph: false, cinemagraphMask: null },
+  filters: [],
+  layers: [],
+  playback: DEFAULT_PLAYBACK_SETTINGS,
+  output: DEFAULT_OUTPUT_SETTINGS,
+  exportFormat: 'gif',
+  encoding: { status: 'idle', attempt: 0 },
+  description: { status: 'idle', attempt: 0 },
+  descriptionStyle: null,
+  pendingFrameSelection: null,
+});
+
+/** The segment's title, or its position when it has none. */
+export const getSegmentLabel = (segment: Segment, index: number) => segment.title || `Segment ${index + 1}`;
+
+/** Frames that go into the output, in strip order. */
+export function getSelectedFrames(segment: Pick<Segment, 'frames' | 'selectedFrameIds'>): Frame[] {
+  const selected = new Set(segment.selectedFrameIds);
+  return segment.frames.filter(f => selected.has(f.id));
+}
+
+// Segments saved before frames could be picked one by one stored a start and end frame.
+export interface LegacyFrameRange {
+  start: number | null;
+  end: number | null;
+}
+
+// Fields that segments saved by earlier versions have instead of the current ones.
+export interface LegacySegmentFields {
+  // Replaced by `selectedFrameIds`
+  selectedFrameRange?: LegacyFrameRange;
+  // Free-text description, replaced by `gifMetadata`
+  gifDescription?: string;
+}
+
+// Errors were plain text before they had a kind and a suggested action.
+type SavedError = AppError | string;
+
+interface SavedPipelineState extends Omit<PipelineState, 'error'> {
+  error?: SavedError;
+}
+
+type UpgradedFields = Pick<Segment, 'selectedFrameIds' | 'gifMetadata' | 'output' | 'error' | 'encoding' | 'description'>;
+
+type SavedFields = Partial<Pick<Segment, 'selectedFrameIds' | 'gifMetadata' | 'output'>> & LegacySegmentFields & {
+  error?: SavedError;
+  encoding?: SavedPipelineState;
+  description?: SavedPipelineState;
+};
+
+const upgradeError = (error: SavedError | undefined): AppError | undefined =>
+  typeof error === 'string' ? { kind: 'unknown', message: error, action: ERROR_ACTIONS.unknown } : error;
+
+const upgradePipeline = (state: SavedPipelineState | undefined): PipelineState =>
+  state ? { ...state, error: upgradeError(state.error) } : { status: 'idle', attempt: 0 };
+
+function getLegacyFrameSelection(frames: Frame[], range: LegacyFrameRange | undefined): number[] {
+  if (!range || range.start === null || range.end === null) return [];
+  const startIndex = frames.findIndex(f => f.id === range.start);
+  const endIndex = frames.findIndex(f => f.id === range.end);
+  if (startIndex < 0 || endIndex < 0) return [];
+  return frames.slice(Math.min(startIndex, endIndex), Math.max(startIndex, endIndex) + 1).map(f => f.id);
+}
+
+/** Current values for the fields a saved segment may still hold in an older shape. */
+export function upgradeLegacyFields(saved: SavedFields, frames: Frame[]): UpgradedFields {
+  return {
+    selectedFrameIds: saved.selectedFrameIds ?? getLegacyFrameSelection(frames, saved.selectedFrameRange),
+    gifMetadata: saved.gifMetadata ?? (saved.gifDescription
+      ? { title: '', altText: '', description: saved.gifDescription, hashtags: [], fileName: '' }
+      : null),
+    // Output settings gain fields over time; older saves get the defaults for them.
+    output: { ...DEFAULT_OUTPUT_SETTINGS, ...saved.output },
+    error: upgradeError(saved.error),
+    encoding: upgradePipeline(saved.encoding),
+    description: upgradePipeline(saved.description),
+  };
+}
@@ -0,0 +1,76 @@
+import { type AppError, type VideoProbe } from '../types';
+import { formatAppError, ProcessingError, toAppError } from './errors';
+import { loadVideo } from './frameExtractor';
+import { formatFileSize } from './gifOutput';
+import { formatTimestamp } from './segmentSuggestions';
+
+const PROBE_TIMEOUT_MS = 15000;
+// Past these, extraction and analysis get slow or memory-hungry.
+const LONG_VIDEO_SECONDS = 10 * 60;
+const HIGH_RESOLUTION_PIXELS = 2560 * 1440;
+const LARGE_FILE_BYTES = 1024 ** 3;
+
+export interface ProbedFile {
+  file: File;
+  // One of the two is set
+  probe?: VideoProbe;
+  error?: AppError;
+}
+
+/**
+ * Checks that the browser can decode a video file by loading it up to its
+ * first frame, and reports its duration and resolution along with warnings
+ * for files that will be slow to work with.
+ */
+export async function probeVideo(file: File, signal?: AbortSignal): Promise<VideoProbe> {
+  if (file.type && !file.type.startsWith('video/')) {
+    throw new ProcessingError(`${file.name || 'The file'} is not a video.`, 'unsupported-format');
+  }
+  const support = file.type ? document.createElement('video').canPlayType(file.type) : '';
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url, signal, PROBE_TIMEOUT_MS);
+    const { duration, videoWidth: width, videoHeight: height } = video;
+    video.removeAttribute('src');
+    video.load();
+    if (width === 0 || height === 0) {
+      throw new ProcessingError('The file has no video track this browser can decode.', 'unsupported-format');
+    }
+
+    const warnings: string[] = [];
+    if (!Number.isFinite(duration)) {
+      warnings.push("The file doesn't state its length, so seeking may be slow.");
+    } else if (duration > LONG_VIDEO_SECONDS) {
+      warnings.push(`It is ${formatTimestamp(duration)} long; auto-suggesting segments will take a while.`);
+    }
+    if (width * height > HIGH_RESOLUTION_PIXELS) {
+      warnings.push(`At ${width}×${height} frames take a lot of memory; lower the scale before extracting long ranges.`);
+    }
+    if (file.size > LARGE_FILE_BYTES) {
+      warnings.push(`At ${formatFileSize(file.size)} the project may not fit in browser storage.`);
+    }
+    return { duration: Number.isFinite(duration) ? duration : 0, width, height, support, warnings };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Probes files one at a time, keeping memory use down with large videos. */
+export async function probeVideoFiles(files: File[]): Promise<ProbedFile[]> {
+  const probed: ProbedFile[] = [];
+  for (const file of files) {
+    try {
+      probed.push({ file, probe: await probeVideo(file) });
+    } catch (error) {
+      probed.push({ file, error: toAppError(error, `${file.name} can't be used.`) });
+    }
+  }
+  return probed;
+}
+
+/** One line per problem: rejected files with what to do, then warnings for the rest. */
+export function summarizeProbes(probed: ProbedFile[]): string {
+  return probed.flatMap(({ file, probe, error }) => error
+    ? [`${formatAppError(error)} ${error.action}`]
+    : (probe?.warnings ?? []).map(warning => `${file.name}: ${warning}`)).join(' ');
+}
@@ -1,24 +1,298 @@
 export interface Frame {
   id: number;
   timestamp: number;
+  // Small JPEG data URL shown in the frame strip
+  thumbnailUrl: string;
+  // Full-resolution frame used for encoding and descriptions
+  blob: Blob;
+  // The extracted pixels, kept once stabilization or a cinemagraph replaced them
+  original?: Pick<Frame, 'thumbnailUrl' | 'blob'>;
+}
+
+export type Status = 'idle' | 'extracting' | 'frames_ready' | 'error';
+
+// Encoding and description run as independent pipelines so that a failed
+// description never discards a finished GIF.
+export type PipelineStatus = 'idle' | 'running' | 'retrying' | 'done' | 'error';
+
+export interface PipelineState {
+  status: PipelineStatus;
+  error?: AppError;
+  attempt: number;
+}
+
+// What kind of failure occurred, which decides what the user is told to do.
+export type ErrorKind =
+  | 'unsupported-format'
+  | 'decode-failed'
+  | 'timeout'
+  | 'canvas-unavailable'
+  | 'out-of-memory'
+  | 'provider'
+  | 'provider-busy'
+  | 'network'
+  | 'unknown';
+
+// A failure as shown to the user; see toAppError.
+export interface AppError {
+  kind: ErrorKind;
+  // What failed, e.g. "Failed to extract frames."
+  message: string;
+  // The underlying error's text, when there is one
+  detail?: string;
+  // What the user can do about it
+  action: string;
+}
+
+// Crop rectangle as fractions (0-1) of the source video's width and height.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Applied to every frame as it is drawn during extraction.
+export interface FrameTransform {
+  crop: CropRect | null;
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // Extraction resolution relative to the (cropped) source, 0-1.
+  scale: number;
+}
+
+interface BaseLayer {
+  id: number;
+  // Centre of the layer as fractions (0-1) of the output frame.
+  x: number;
+  y: number;
+  opacity: number;
+  // Inclusive range of selected frames (0-based) the layer is visible on; null end means "to the last frame".
+  startFrame: number;
+  endFrame: number | null;
+}
+
+export interface TextLayer extends BaseLayer {
+  kind: 'text';
+  text: string;
+  fontFamily: string;
+  // Font size as a fraction of the output frame height.
+  fontSize: number;
+  color: string;
+  strokeColor: string;
+  // Stroke width as a fraction of the font size.
+  strokeWidth: number;
+}
+
+export interface ImageLayer extends BaseLayer {
+  kind: 'image';
   dataUrl: string;
+  // Width as a fraction of the output frame width; height follows the image's aspect ratio.
+  width: number;
 }
 
-export type Status = 'idle' | 'extracting' | 'frames_ready' | 'generating' | 'done' | 'error';
+export type OverlayLayer = TextLayer | ImageLayer;
+
+export type AdjustmentKind = 'brightness' | 'contrast' | 'saturation' | 'grayscale' | 'sepia' | 'sharpen' | 'blur' | 'vignette';
+
+interface BaseFilter {
+  id: number;
+  enabled: boolean;
+  // Strength; the range depends on the kind, see FILTER_DEFINITIONS.
+  amount: number;
+}
+
+export interface AdjustmentFilter extends BaseFilter {
+  kind: AdjustmentKind;
+}
+
+// A 3D colour lookup table imported from a .cube file.
+export interface LutFilter extends BaseFilter {
+  kind: 'lut';
+  name: string;
+  // Entries per axis
+  size: number;
+  // RGB triplets (0-1), red changing fastest
+  table: number[];
+}
+
+// Filters run in order on every output frame, before overlay layers.
+export type FrameFilter = AdjustmentFilter | LutFilter;
+
+// A named filter stack that can be applied to any segment.
+export interface FilterPreset {
+  id: number;
+  name: string;
+  filters: FrameFilter[];
+}
+
+// 'smooth' removes handheld jitter but keeps deliberate pans; 'lock' holds
+// the camera on the first frame.
+export type StabilizationMode = 'off' | 'smooth' | 'lock';
+
+// Applied to the selected frames on request, replacing their pixels.
+export interface MotionSettings {
+  stabilization: StabilizationMode;
+  // Only the painted region moves; everything else is frozen on the first selected frame.
+  cinemagraph: boolean;
+  // PNG data URL painted over the first selected frame; opaque pixels animate.
+  cinemagraphMask: string | null;
+}
+
+export type PlaybackDirection = 'forward' | 'reverse' | 'boomerang';
+
+export interface PlaybackSettings {
+  direction: PlaybackDirection;
+  // Multiplies playback speed: 2 halves every delay.
+  speed: number;
+  // Per-frame delay overrides in milliseconds, keyed by Frame.id.
+  frameDelays: Record<number, number>;
+  // Extra time in milliseconds the final frame stays on screen.
+  holdLastFrameMs: number;
+}
+
+export type ExportFormat = 'gif' | 'webm' | 'webp' | 'apng' | 'png-zip' | 'sprite-sheet';
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+
+export type LoopMode = 'infinite' | 'once' | 'count';
+
+export type PaletteMode = 'per-frame' | 'global';
+
+// Size optimizations applied when encoding GIFs.
+export interface GifOptimization {
+  enabled: boolean;
+  // Pixels whose channels all differ by at most this much (0-255) count as
+  // unchanged. Frames without changed pixels are merged into the previous one.
+  tolerance: number;
+  // Encode only the changed rectangle of each frame, with unchanged pixels transparent.
+  deltaFrames: boolean;
+  // One palette shared by all frames, or one per frame
+  palette: PaletteMode;
+}
+
+export interface OutputSettings {
+  width: number;
+  height: number;
+  lockAspect: boolean;
+  // Output frame rate; frames are resampled from the extraction rate.
+  fps: number;
+  // NeuQuant sample factor: 1 is best quality, 30 is fastest.
+  quality: number;
+  dither: DitherMode;
+  loop: LoopMode;
+  // Total number of plays when `loop` is 'count'.
+  loopCount: number;
+  // Output is downscaled until it fits, when set.
+  maxFileSizeKb: number | null;
+  optimization: GifOptimization;
+}
+
+// What the browser reports about a video file before it is used; see probeVideo.
+export interface VideoProbe {
+  // In seconds
+  duration: number;
+  width: number;
+  height: number;
+  // canPlayType's verdict for the file's MIME type; empty when the type is unknown
+  support: 'probably' | 'maybe' | '';
+  // Reasons to expect slow or memory-hungry processing
+  warnings: string[];
+}
+
+// A video in the project library. Segments refer to it by id.
+export interface VideoSource {
+  id: number;
+  file: File;
+  // Object URL for `file`, created when the project is opened
+  url: string;
+  // Set once the file has been probed
+  probe?: VideoProbe;
+  // Set when probing found the file unusable
+  probeError?: AppError;
+}
 
 export interface Segment {
   id: number;
+  // Optional name shown in the editor, e.g. from auto-suggested segments
+  title: string;
+  // Id of the VideoSource the frames come from
+  videoId: number;
   timeRange: {
     start: number;
     end: number;
   };
+  // Frames extracted per second of video
+  extractionFps: number;
   frames: Frame[];
-  selectedFrameRange: {
-    start: number | null;
-    end: number | null;
-  };
-  gifDescription: string;
+  // Frames that go into the output; they play in strip order
+  selectedFrameIds: number[];
+  // Set once the description pipeline has finished
+  gifMetadata: GifMetadata | null;
   status: Status;
-  gifUrl?: string;
-  error?: string;
-}
\ No newline at end of file
+  transform: FrameTransform;
+  motion: MotionSettings;
+  filters: FrameFilter[];
+  layers: OverlayLayer[];
+  playback: PlaybackSettings;
+  output: OutputSettings;
+  exportFormat: ExportFormat;
+  encoding: PipelineState;
+  description: PipelineState;
+  // Rendered output in `resultFormat`. The blob is what gets persisted; the
+  // object URL is recreated from it when a project is reopened.
+  resultUrl?: string;
+  resultBlob?: Blob;
+  resultSize?: number;
+  resultFormat?: ExportFormat;
+  // The same GIF encoded without optimization, kept for comparison until the
+  // user picks one of the two.
+  unoptimizedBlob?: Blob;
+  // Used instead of the provider settings' language, tone and prompt when set,
+  // e.g. by an applied edit recipe
+  descriptionStyle: DescriptionStyle | null;
+  // Strip positions from an applied edit recipe, selected once frames are extracted
+  pendingFrameSelection: number[] | null;
+  // Why frame extraction failed, when status is 'error'
+  error?: AppError;
+}
+
+// 'mock' answers without a model and is only offered by the command line.
+export type DescriptionProviderKind = 'gemini' | 'http' | 'mock' | 'none';
+
+export type DescriptionTone = 'neutral' | 'funny' | 'technical';
+
+// Structured output of the description model for one animation.
+export interface GifMetadata {
+  title: string;
+  // Short accessibility text for the image
+  altText: string;
+  description: string;
+  // Without the leading '#'
+  hashtags: string[];
+  // Suggested file name without extension
+  fileName: string;
+}
+
+export interface DescriptionProviderConfig {
+  kind: DescriptionProviderKind;
+  // Language all generated text is written in, e.g. "English" or "Deutsch"
+  language: string;
+  tone: DescriptionTone;
+  // Replaces the built-in prompt when not empty; see buildDescriptionPrompt
+  promptTemplate: string;
+  // Keyframes sent per request and their longest side in pixels
+  sampleFrameCount: number;
+  sampleMaxDimension: number;
+  geminiApiKey?: string;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  httpEndpoint?: string;
+  httpModel?: string;
+  httpApiKey?: string;
+}
+
+// The parts of the provider settings that shape what is asked for.
+export type DescriptionStyle = Pick<DescriptionProviderConfig, 'language' | 'tone' | 'promptTemplate'>;
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite';
+
+// Builds the command line tool into dist-cli/. Unlike the app build nothing
+// is defined at build time: API keys and ffmpeg paths are read when it runs.
+export default defineConfig({
+  build: {
+    ssr: 'cli/videoToGif.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: { entryFileNames: 'video-to-gif.js' },
+    },
+  },
+});
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DESCRIPTION_PROVIDER': JSON.stringify(env.DESCRIPTION_PROVIDER),
+        'process.env.DESCRIPTION_API_URL': JSON.stringify(env.DESCRIPTION_API_URL),
+        'process.env.DESCRIPTION_MODEL': JSON.stringify(env.DESCRIPTION_MODEL)
       },
       resolve: {
         alias: {